@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+
+const args = process.argv.slice(2);
+const shout = args.includes("--shout");
+const name = args.find((arg) => !arg.startsWith("--")) ?? "world";
+
+const greeting = `Hello, ${name}!`;
+console.log(shout ? greeting.toUpperCase() : greeting);
@@ -0,0 +1,228 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import type { Options, query } from "@anthropic-ai/claude-code";
+import {
+  ClaudeCodeBackend,
+  MessagesApiBackend,
+  RecordingBackend,
+  ReplayBackend,
+  recordingKey,
+  runQuery,
+} from "./analysis-backends.js";
+import type { AnalysisBackend, BackendMessage } from "./types.js";
+import { UsageMeter } from "./usage.js";
+
+function scriptedBackend(messages: BackendMessage[]): AnalysisBackend {
+  return {
+    name: "scripted",
+    model: "scripted",
+    async *query() {
+      yield* messages;
+    },
+  };
+}
+
+// Serves one canned Messages API response and captures the request that asked for it
+async function withMessagesApi(
+  status: number,
+  responseBody: unknown,
+  run: (baseUrl: string) => Promise<void>
+): Promise<{ path?: string; headers?: IncomingHttpHeaders; body?: unknown }> {
+  const captured: { path?: string; headers?: IncomingHttpHeaders; body?: unknown } = {};
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => {
+      body += chunk;
+    });
+    request.on("end", () => {
+      captured.path = request.url;
+      captured.headers = request.headers;
+      captured.body = JSON.parse(body);
+      response.writeHead(status, { "content-type": "application/json" });
+      response.end(JSON.stringify(responseBody));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    await run(`http://127.0.0.1:${port}/`);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  return captured;
+}
+
+describe("runQuery", () => {
+  it("prefers the final result over the streamed text", async () => {
+    const backend = scriptedBackend([
+      { type: "text", text: "Let me look. " },
+      { type: "text", text: "[]" },
+      { type: "result", text: "[]" },
+    ]);
+    assert.equal(await runQuery(backend, "/repo", "prompt"), "[]");
+  });
+
+  it("falls back to the streamed text without a result", async () => {
+    const backend = scriptedBackend([
+      { type: "text", text: "[" },
+      { type: "text", text: "]" },
+    ]);
+    assert.equal(await runQuery(backend, "/repo", "prompt"), "[]");
+  });
+});
+
+// Stands in for the Claude Code SDK: asks for permission to read each path, then answers "[]"
+function fakeAgent(paths: string[], decisions: Record<string, string>, seen: Options[]) {
+  return (({ options }: { options: Options }) => {
+    seen.push(options);
+    return (async function* () {
+      for (const path of paths) {
+        const result = await options.canUseTool?.("Read", { file_path: path });
+        decisions[path] = result?.behavior ?? "not asked";
+      }
+      yield {
+        type: "result",
+        subtype: "success",
+        result: "[]",
+        num_turns: 1,
+        total_cost_usd: 0,
+        usage: {
+          input_tokens: 1,
+          output_tokens: 1,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 0,
+        },
+      };
+    })();
+  }) as unknown as typeof query;
+}
+
+describe("ClaudeCodeBackend", () => {
+  it("asks the permission check before every read and denies secrets and outside paths", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "docs-check-agent-"));
+    try {
+      const decisions: Record<string, string> = {};
+      const seen: Options[] = [];
+      const backend = new ClaudeCodeBackend({
+        sdkQuery: fakeAgent(["README.md", ".env", "config/.env.local", "../x"], decisions, seen),
+      });
+
+      assert.equal(await runQuery(backend, directory, "prompt"), "[]");
+      assert.deepEqual(decisions, {
+        "README.md": "allow",
+        ".env": "deny",
+        "config/.env.local": "deny",
+        "../x": "deny",
+      });
+      // Pre-approved tools would skip the check
+      assert.deepEqual(seen[0].allowedTools, []);
+      assert.ok(seen[0].disallowedTools?.includes("Read(**/.env)"));
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("hands the API key to the agent alongside the rest of the environment", async () => {
+    const seen: Options[] = [];
+    const backend = new ClaudeCodeBackend({
+      apiKey: "test-key",
+      sdkQuery: fakeAgent([], {}, seen),
+    });
+    await runQuery(backend, "/repo", "prompt");
+
+    const { env } = seen[0] as Options & { env?: Record<string, string | undefined> };
+    assert.equal(env?.ANTHROPIC_API_KEY, "test-key");
+    assert.equal(env?.PATH, process.env.PATH);
+  });
+});
+
+describe("RecordingBackend and ReplayBackend", () => {
+  it("replays what was recorded, keyed by prompt", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "docs-check-recordings-"));
+    try {
+      const messages: BackendMessage[] = [{ type: "result", text: "recorded answer" }];
+      const recorder = new RecordingBackend(scriptedBackend(messages), directory);
+      assert.equal(await runQuery(recorder, "/first/checkout", "prompt"), "recorded answer");
+      assert.deepEqual(await readdir(directory), [`${recordingKey("prompt")}.json`]);
+
+      const replay = new ReplayBackend(directory);
+      assert.equal(await runQuery(replay, "/another/checkout", "prompt"), "recorded answer");
+      await assert.rejects(
+        runQuery(replay, "/another/checkout", "a different prompt"),
+        /No recorded response for prompt/
+      );
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("MessagesApiBackend", () => {
+  it("sends the prompt to the configured base URL", async () => {
+    let text = "";
+    const request = await withMessagesApi(
+      200,
+      { content: [{ type: "text", text: '[{"title":"from the stand-in"}]' }] },
+      async (baseUrl) => {
+        const backend = new MessagesApiBackend({
+          apiKey: "test-key",
+          baseUrl,
+          model: "test-model",
+        });
+        text = await runQuery(backend, "/repo", "Find documentation issues");
+      }
+    );
+
+    assert.equal(text, '[{"title":"from the stand-in"}]');
+    assert.equal(request.path, "/v1/messages");
+    assert.equal(request.headers?.["x-api-key"], "test-key");
+    assert.ok(request.headers?.["anthropic-version"]);
+    assert.deepEqual(request.body, {
+      model: "test-model",
+      max_tokens: 8192,
+      messages: [{ role: "user", content: "Find documentation issues" }],
+    });
+  });
+
+  it("reports token usage with a cost estimate for known models", async () => {
+    const meter = new UsageMeter();
+    await withMessagesApi(
+      200,
+      {
+        content: [{ type: "text", text: "[]" }],
+        usage: { input_tokens: 1_000_000, output_tokens: 100_000 },
+      },
+      async (baseUrl) => {
+        const backend = new MessagesApiBackend({
+          apiKey: "test-key",
+          baseUrl,
+          model: "claude-sonnet-4-20250514",
+        });
+        await runQuery(backend, "/repo", "prompt", { meter });
+      }
+    );
+
+    const { durationMs, ...usage } = meter.totals;
+    assert.deepEqual(usage, {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      costUsd: 4.5,
+      turns: 1,
+    });
+    assert.ok(durationMs >= 0);
+  });
+
+  it("reports failed requests with their status", async () => {
+    await withMessagesApi(529, { error: { type: "overloaded_error" } }, async (baseUrl) => {
+      const backend = new MessagesApiBackend({ apiKey: "test-key", baseUrl });
+      await assert.rejects(runQuery(backend, "/repo", "prompt"), /status 529.*overloaded_error/);
+    });
+  });
+});
@@ -0,0 +1,471 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import {
+  type Options,
+  type PermissionResult,
+  query,
+  type SDKUserMessage,
+} from "@anthropic-ai/claude-code";
+import { DEFAULT_CONFIG } from "./config.js";
+import type { AnalysisBackend, BackendMessage, BackendRequest } from "./types.js";
+import { estimateCostUsd, type UsageMeter } from "./usage.js";
+
+export const BACKEND_NAMES = ["claude-code", "messages-api"] as const;
+
+export type BackendName = (typeof BACKEND_NAMES)[number];
+
+export const DEFAULT_MESSAGES_API_BASE_URL = "https://api.anthropic.com";
+export const DEFAULT_MESSAGES_API_MODEL = "claude-sonnet-4-20250514";
+const MESSAGES_API_VERSION = "2023-06-01";
+const MESSAGES_API_MAX_TOKENS = 8192;
+
+// Tools that only read the repository; everything else (shell, edits, web access, sub-agents)
+// stays off because the repository under analysis is untrusted
+export const READ_ONLY_AGENT_TOOLS = ["Read", "Grep", "Glob", "LS"];
+const DISALLOWED_AGENT_TOOLS = [
+  "Bash",
+  "BashOutput",
+  "KillBash",
+  "Edit",
+  "MultiEdit",
+  "Write",
+  "NotebookEdit",
+  "WebFetch",
+  "WebSearch",
+  "Task",
+  "TodoWrite",
+  "ExitPlanMode",
+];
+
+// Files the agent may not open even inside the repository, since the prompt redaction never sees
+// them. Claude Code approves reads inside its working directory without asking, so these are also
+// passed to it as deny rules.
+const SENSITIVE_FILE_GLOBS = [
+  ".env",
+  ".env.*",
+  ".npmrc",
+  ".netrc",
+  ".pypirc",
+  "id_rsa*",
+  "id_dsa*",
+  "id_ecdsa*",
+  "id_ed25519*",
+  "credentials*",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "*.keystore",
+];
+const SENSITIVE_FILE_PATTERN = new RegExp(
+  `(?:^|/)(?:${SENSITIVE_FILE_GLOBS.map((glob) =>
+    glob.replace(/\./g, "\\.").replace(/\*/g, "[^/]*")
+  ).join("|")})$`,
+  "i"
+);
+// Claude Code applies Read rules to its other file tools as well
+const SENSITIVE_FILE_RULES = SENSITIVE_FILE_GLOBS.map((glob) => `Read(**/${glob})`);
+
+// The SDK accepts `env` but its types don't declare it yet
+type AgentQueryOptions = Options & { env?: Record<string, string | undefined> };
+
+export interface ClaudeCodeBackendOptions {
+  model?: string;
+  // Let the agent read repository files on its own; off means prompt context only
+  agentTools?: boolean;
+  maxTurns?: number;
+  timeoutMs?: number;
+  // Passed to the agent as ANTHROPIC_API_KEY; without it the agent uses the environment's
+  apiKey?: string;
+  // The SDK entry point, replaced in tests
+  sdkQuery?: typeof query;
+}
+
+// Resolves symlinks so a link inside the repository can't point the agent outside it
+async function resolveInside(root: string, target: string): Promise<boolean> {
+  const realRoot = await fs.realpath(root);
+  let realTarget: string;
+  try {
+    realTarget = await fs.realpath(resolve(root, target));
+  } catch {
+    // Paths that don't exist yet can't leak anything; judge them as written
+    realTarget = resolve(realRoot, relative(root, resolve(root, target)));
+  }
+  const path = relative(realRoot, realTarget);
+  return path === "" || (!path.startsWith("..") && !isAbsolute(path));
+}
+
+// Runs a Claude Code agent session in the repository, restricted to reading files inside it
+export class ClaudeCodeBackend implements AnalysisBackend {
+  readonly name = "claude-code";
+  readonly model: string;
+  readonly readsRepository: boolean;
+  private modelOverride: string | undefined;
+  private agentTools: boolean;
+  private maxTurns: number;
+  private timeoutMs: number;
+  private apiKey: string | undefined;
+  private sdkQuery: typeof query;
+
+  constructor(options: ClaudeCodeBackendOptions = {}) {
+    this.model = options.model ?? "default";
+    this.modelOverride = options.model;
+    this.agentTools = options.agentTools ?? true;
+    this.readsRepository = this.agentTools;
+    this.maxTurns = options.maxTurns ?? DEFAULT_CONFIG.limits.maxAgentTurns;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_CONFIG.limits.agentTimeoutSeconds * 1000;
+    this.apiKey = options.apiKey;
+    this.sdkQuery = options.sdkQuery ?? query;
+  }
+
+  async *query(request: BackendRequest): AsyncIterable<BackendMessage> {
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => abortController.abort(), this.timeoutMs);
+    const cancel = () => abortController.abort();
+    request.signal?.addEventListener("abort", cancel, { once: true });
+
+    // canUseTool needs streamed input, and the SDK stops relaying permission checks once the
+    // stream ends, so it stays open until the result arrives
+    let endSession = () => {};
+    const sessionOver = new Promise<void>((done) => {
+      endSession = done;
+    });
+    async function* prompt(): AsyncIterable<SDKUserMessage> {
+      yield {
+        type: "user",
+        message: { role: "user", content: request.prompt },
+        parent_tool_use_id: null,
+        session_id: "",
+      };
+      await sessionOver;
+    }
+
+    // No tool is pre-approved, so every call the deny rules let through still reaches
+    // checkToolUse
+    const options: AgentQueryOptions = {
+      cwd: request.cwd,
+      allowedTools: [],
+      disallowedTools: this.agentTools
+        ? [...DISALLOWED_AGENT_TOOLS, ...SENSITIVE_FILE_RULES]
+        : [...DISALLOWED_AGENT_TOOLS, ...READ_ONLY_AGENT_TOOLS],
+      permissionMode: "default",
+      // Without tools the answer has to come in a single turn
+      maxTurns: this.agentTools ? this.maxTurns : 1,
+      abortController,
+      canUseTool: (toolName, input) => this.checkToolUse(request.cwd, toolName, input),
+      ...(this.modelOverride ? { model: this.modelOverride } : {}),
+      ...(this.apiKey ? { env: { ...process.env, ANTHROPIC_API_KEY: this.apiKey } } : {}),
+    };
+    const response = this.sdkQuery({ prompt: prompt(), options });
+
+    try {
+      for await (const message of response) {
+        if (message.type === "assistant") {
+          // Extract text content from assistant message
+          const content = message.message.content;
+          if (Array.isArray(content)) {
+            for (const block of content) {
+              if (block.type === "text") {
+                yield { type: "text", text: block.text };
+              }
+            }
+          } else if (typeof content === "string") {
+            yield { type: "text", text: content };
+          }
+        } else if (message.type === "result") {
+          // The agent waits for further input until the stream ends
+          endSession();
+          const { usage } = message;
+          yield {
+            type: "usage",
+            usage: {
+              inputTokens:
+                usage.input_tokens +
+                usage.cache_creation_input_tokens +
+                usage.cache_read_input_tokens,
+              outputTokens: usage.output_tokens,
+              costUsd: message.total_cost_usd,
+              turns: message.num_turns,
+            },
+          };
+          if (message.subtype === "success") {
+            yield { type: "result", text: message.result };
+          } else if (message.subtype === "error_max_turns") {
+            throw new Error(
+              `Claude Code stopped after reaching the limit of ${this.maxTurns} turns`
+            );
+          }
+        }
+      }
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason;
+      }
+      if (abortController.signal.aborted) {
+        throw new Error(`Claude Code timed out after ${Math.round(this.timeoutMs / 1000)}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+      request.signal?.removeEventListener("abort", cancel);
+      endSession();
+    }
+  }
+
+  // Second line of defence behind the deny rules: the agent may only read, and only inside the
+  // repository
+  private async checkToolUse(
+    cwd: string,
+    toolName: string,
+    input: Record<string, unknown>
+  ): Promise<PermissionResult> {
+    if (!this.agentTools || !READ_ONLY_AGENT_TOOLS.includes(toolName)) {
+      return {
+        behavior: "deny",
+        message: `${toolName} is not allowed during documentation analysis`,
+      };
+    }
+
+    const target = input.file_path ?? input.path;
+    if (typeof target === "string") {
+      if (!(await resolveInside(cwd, target))) {
+        return { behavior: "deny", message: `${target} is outside the repository` };
+      }
+      if (SENSITIVE_FILE_PATTERN.test(target)) {
+        return { behavior: "deny", message: `${target} may contain secrets` };
+      }
+    }
+    // Grep and Glob can also name files through a pattern
+    if (typeof input.glob === "string" && SENSITIVE_FILE_PATTERN.test(input.glob)) {
+      return { behavior: "deny", message: `${input.glob} may match files with secrets` };
+    }
+
+    return { behavior: "allow", updatedInput: input };
+  }
+}
+
+export interface MessagesApiBackendOptions {
+  apiKey: string;
+  // Point this at a proxy or local stand-in that speaks the Messages API
+  baseUrl?: string;
+  model?: string;
+  timeoutMs?: number;
+}
+
+// A single Messages API call; Claude only sees what the prompt contains
+export class MessagesApiBackend implements AnalysisBackend {
+  readonly name = "messages-api";
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(options: MessagesApiBackendOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_MESSAGES_API_BASE_URL).replace(/\/+$/, "");
+    this.model = options.model ?? DEFAULT_MESSAGES_API_MODEL;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_CONFIG.limits.agentTimeoutSeconds * 1000;
+  }
+
+  async *query(request: BackendRequest): AsyncIterable<BackendMessage> {
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": MESSAGES_API_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: MESSAGES_API_MAX_TOKENS,
+        messages: [{ role: "user", content: request.prompt }],
+      }),
+      signal: request.signal
+        ? AbortSignal.any([request.signal, AbortSignal.timeout(this.timeoutMs)])
+        : AbortSignal.timeout(this.timeoutMs),
+    }).catch((error: unknown) => {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error(
+          `Messages API request timed out after ${Math.round(this.timeoutMs / 1000)}s`
+        );
+      }
+      throw error;
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Messages API request failed with status ${response.status}: ${(await response.text()).slice(0, 500)}`
+      );
+    }
+
+    const body = (await response.json()) as {
+      content?: { type: string; text?: string }[];
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+    const inputTokens = body.usage?.input_tokens ?? 0;
+    const outputTokens = body.usage?.output_tokens ?? 0;
+    const costUsd = estimateCostUsd(this.model, inputTokens, outputTokens);
+    yield {
+      type: "usage",
+      usage: { inputTokens, outputTokens, ...(costUsd !== undefined ? { costUsd } : {}), turns: 1 },
+    };
+
+    let text = "";
+    for (const block of body.content ?? []) {
+      if (block.type === "text" && block.text) {
+        text += block.text;
+        yield { type: "text", text: block.text };
+      }
+    }
+    yield { type: "result", text };
+  }
+}
+
+interface Recording {
+  prompt: string;
+  messages: BackendMessage[];
+}
+
+// Recordings are keyed by prompt alone, so they replay from any checkout location
+export function recordingKey(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+}
+
+// Passes every query through to another backend and saves the messages it returned
+export class RecordingBackend implements AnalysisBackend {
+  readonly name: string;
+  readonly model: string;
+  readonly readsRepository: boolean;
+  private backend: AnalysisBackend;
+  private directory: string;
+
+  constructor(backend: AnalysisBackend, directory: string) {
+    this.name = `${backend.name} (recording)`;
+    this.model = backend.model;
+    this.readsRepository = backend.readsRepository ?? false;
+    this.backend = backend;
+    this.directory = directory;
+  }
+
+  async *query(request: BackendRequest): AsyncIterable<BackendMessage> {
+    const messages: BackendMessage[] = [];
+    for await (const message of this.backend.query(request)) {
+      messages.push(message);
+      yield message;
+    }
+
+    const recording: Recording = { prompt: request.prompt, messages };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      join(this.directory, `${recordingKey(request.prompt)}.json`),
+      `${JSON.stringify(recording, null, 2)}\n`,
+      "utf-8"
+    );
+  }
+}
+
+// Answers from recordings only, so analysis runs offline and deterministically
+export class ReplayBackend implements AnalysisBackend {
+  readonly name = "replay";
+  readonly model = "recorded";
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async *query(request: BackendRequest): AsyncIterable<BackendMessage> {
+    const key = recordingKey(request.prompt);
+
+    let content: string;
+    try {
+      content = await fs.readFile(join(this.directory, `${key}.json`), "utf-8");
+    } catch {
+      throw new Error(`No recorded response for prompt ${key} in ${this.directory}`);
+    }
+
+    const recording = JSON.parse(content) as Recording;
+    yield* recording.messages;
+  }
+}
+
+export interface BackendOptions {
+  backend: BackendName;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  // Claude Code only: false limits the agent to the prompt, with no tools at all
+  agentTools?: boolean;
+  maxTurns?: number;
+  timeoutMs?: number;
+  // Save every response to this directory
+  record?: string;
+  // Answer from recordings in this directory instead of calling a model
+  replay?: string;
+}
+
+export function createAnalysisBackend(options: BackendOptions): AnalysisBackend {
+  if (options.replay) {
+    return new ReplayBackend(options.replay);
+  }
+
+  let backend: AnalysisBackend;
+  if (options.backend === "messages-api") {
+    if (!options.apiKey) {
+      throw new Error("The messages-api backend needs an API key");
+    }
+    backend = new MessagesApiBackend({
+      apiKey: options.apiKey,
+      ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+      ...(options.model ? { model: options.model } : {}),
+      ...(options.timeoutMs ? { timeoutMs: options.timeoutMs } : {}),
+    });
+  } else {
+    backend = new ClaudeCodeBackend({
+      ...(options.apiKey ? { apiKey: options.apiKey } : {}),
+      ...(options.model ? { model: options.model } : {}),
+      ...(options.agentTools !== undefined ? { agentTools: options.agentTools } : {}),
+      ...(options.maxTurns ? { maxTurns: options.maxTurns } : {}),
+      ...(options.timeoutMs ? { timeoutMs: options.timeoutMs } : {}),
+    });
+  }
+
+  return options.record ? new RecordingBackend(backend, options.record) : backend;
+}
+
+export interface QueryOptions {
+  // Receives usage as soon as it is reported, so a query that fails afterwards is still counted
+  meter?: UsageMeter;
+  signal?: AbortSignal;
+}
+
+// Runs a single query in `cwd` and returns the final response text
+export async function runQuery(
+  backend: AnalysisBackend,
+  cwd: string,
+  prompt: string,
+  options: QueryOptions = {}
+): Promise<string> {
+  const { meter, signal } = options;
+  let assistantText = "";
+  let resultText: string | null = null;
+
+  const started = Date.now();
+  try {
+    for await (const message of backend.query({ prompt, cwd, ...(signal ? { signal } : {}) })) {
+      if (message.type === "text") {
+        assistantText += message.text;
+      } else if (message.type === "usage") {
+        meter?.add(message.usage);
+      } else {
+        resultText = message.text;
+      }
+    }
+  } finally {
+    meter?.addDuration(Date.now() - started);
+  }
+
+  // The final result repeats the last assistant text, so use it alone when present
+  return resultText ?? assistantText;
+}
@@ -0,0 +1,124 @@
+import { createHash, randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { validateIssue } from "./issue-schema.js";
+import type {
+  AnalysisCacheStore,
+  CachedAnalysisPass,
+  CacheStats,
+  DocumentationIssue,
+} from "./types.js";
+
+// Bump whenever the analysis prompts or the way responses are parsed change, so results
+// produced by an older docs-check are never reused
+export const PROMPT_VERSION = 1;
+const CACHE_ENTRY_VERSION = 1;
+
+interface CacheEntry extends CachedAnalysisPass {
+  version: number;
+  createdAt: string;
+}
+
+export function defaultCacheDirectory(): string {
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), ".cache"), "docs-check");
+}
+
+// The prompt already carries the file contents, project context and issue types; absolute paths
+// never appear in it, so the same checkout in another directory or CI runner hits the same entry.
+// A backend that reads files on its own also sees code the prompt leaves out, so its entries are
+// tied to `repositoryState`, a fingerprint of the checkout; null means the backend only sees the
+// prompt.
+export function analysisCacheKey(
+  backendName: string,
+  model: string,
+  prompt: string,
+  repositoryState: string | null = null
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify([PROMPT_VERSION, backendName, model, prompt, repositoryState]))
+    .digest("hex");
+}
+
+// Parsed results of analysis passes, one JSON file per pass in a directory that can be shared
+// between runs
+export class AnalysisCache implements AnalysisCacheStore {
+  readonly directory: string;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  get stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  // Unreadable, corrupt or outdated entries count as misses and are overwritten later
+  async get(key: string): Promise<CachedAnalysisPass | null> {
+    const entry = await this.read(key);
+    if (entry) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    return entry;
+  }
+
+  async set(key: string, pass: CachedAnalysisPass): Promise<void> {
+    const entry: CacheEntry = {
+      version: CACHE_ENTRY_VERSION,
+      createdAt: new Date().toISOString(),
+      ...pass,
+    };
+    const filePath = this.entryPath(key);
+
+    // Written under a unique name and renamed into place, so concurrent runs sharing the
+    // directory never read a half-written entry
+    const temporaryPath = `${filePath}.${randomUUID()}.tmp`;
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(temporaryPath, JSON.stringify(entry), "utf-8");
+      await fs.rename(temporaryPath, filePath);
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      throw new Error(
+        `Failed to write to the analysis cache: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async read(key: string): Promise<CachedAnalysisPass | null> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(this.entryPath(key), "utf-8"));
+    } catch {
+      return null;
+    }
+
+    const entry = raw as Partial<CacheEntry> | null;
+    if (
+      typeof entry !== "object" ||
+      entry === null ||
+      entry.version !== CACHE_ENTRY_VERSION ||
+      typeof entry.dropped !== "number" ||
+      !Array.isArray(entry.issues)
+    ) {
+      return null;
+    }
+
+    const issues: DocumentationIssue[] = [];
+    for (const item of entry.issues) {
+      const { issue } = validateIssue(item);
+      if (!issue) return null;
+      issues.push(issue);
+    }
+
+    return { issues, dropped: entry.dropped };
+  }
+
+  private entryPath(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { findEntryPoints, findExportedSymbols } from "./api-surface.js";
+import { DEFAULT_CONFIG, mergeConfig } from "./config.js";
+import { DocumentationAnalyzer } from "./doc-analyzer.js";
+import type { AnalysisBackend } from "./types.js";
+
+const FILES: Record<string, string> = {
+  "package.json": JSON.stringify({
+    name: "greeter",
+    exports: { ".": { types: "./dist/index.d.ts", import: "./dist/index.js" } },
+  }),
+  "src/index.ts": [
+    'export { greet } from "./greet.js";',
+    'export * from "./format.js";',
+    "export interface GreetOptions { loud: boolean }",
+    "export default class Greeter {}",
+  ].join("\n"),
+  "src/greet.ts": 'export function greet(name: string) {\n  return "Hello, " + name;\n}\n',
+  "src/format.ts":
+    "export const DEFAULT_NAME = 'world';\n\nexport function shout(text: string) {\n  return text.toUpperCase();\n}\n",
+  "README.md": "# Greeter\n\nCall `greet(name)` or create a `Greeter`.\n",
+};
+
+describe("exported API coverage", () => {
+  let repoPath: string;
+
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-api-"));
+    for (const [file, content] of Object.entries(FILES)) {
+      await mkdir(join(repoPath, file, ".."), { recursive: true });
+      await writeFile(join(repoPath, file), content, "utf-8");
+    }
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("lists values exported from the sources behind the package entry points", async () => {
+    const entryPoints = await findEntryPoints(repoPath);
+    assert.deepEqual(entryPoints, ["src/index.ts"]);
+
+    assert.deepEqual(findExportedSymbols(repoPath, entryPoints), [
+      { name: "DEFAULT_NAME", kind: "variable", file: "src/format.ts", line: 1 },
+      { name: "shout", kind: "function", file: "src/format.ts", line: 3 },
+      { name: "greet", kind: "function", file: "src/greet.ts", line: 1 },
+      { name: "Greeter", kind: "class", file: "src/index.ts", line: 4 },
+    ]);
+  });
+
+  it("reports undocumented exports and gives the model the exported API", async () => {
+    const prompts: string[] = [];
+    const backend: AnalysisBackend = {
+      name: "scripted",
+      model: "scripted",
+      async *query({ prompt }) {
+        prompts.push(prompt);
+        yield { type: "result", text: "[]" };
+      },
+    };
+
+    const result = await new DocumentationAnalyzer(backend, {
+      config: mergeConfig(DEFAULT_CONFIG, { issueTypes: ["missing"] }),
+    }).analyzeDocumentation(repoPath, {
+      source: "local",
+      host: "unknown",
+      repo: "greeter",
+      url: repoPath,
+      localPath: repoPath,
+    });
+
+    assert.equal(result.summary.apiCoverage, 50);
+    assert.deepEqual(
+      result.issues.map((issue) => [issue.title, issue.severity, issue.file, issue.line]),
+      [
+        ["Exported function `shout` is not documented", "medium", "src/format.ts", 3],
+        ["Exported variable `DEFAULT_NAME` is not documented", "low", "src/format.ts", 1],
+      ]
+    );
+    assert.match(
+      prompts[0],
+      /- function `shout` \(src\/format\.ts:3\) - not mentioned in the docs/
+    );
+    assert.match(prompts[0], /- function `greet` \(src\/greet\.ts:1\)\n/);
+  });
+});
@@ -0,0 +1,245 @@
+import { promises as fs } from "node:fs";
+import { isAbsolute, join, normalize, relative, sep } from "node:path";
+import ts from "typescript";
+import type { DocumentationIssue, ExportedSymbol } from "./types.js";
+
+// Entry points often name build output; the sources usually sit in src/ or at the root instead
+const BUILD_DIRECTORIES = ["dist", "lib", "build", "out"];
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+const OUTPUT_EXTENSION_PATTERN = /(\.d)?\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+// Type-only exports are left out: docs rarely name every interface, and value exports are what
+// callers use first
+const SYMBOL_KINDS: [ts.SymbolFlags, ExportedSymbol["kind"]][] = [
+  [ts.SymbolFlags.Class, "class"],
+  [ts.SymbolFlags.Function, "function"],
+  [ts.SymbolFlags.Enum, "enum"],
+  [ts.SymbolFlags.Variable, "variable"],
+  [ts.SymbolFlags.ValueModule, "namespace"],
+];
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await fs.stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Every file path in an `exports` field, including conditional and subpath exports; patterns
+// like "./*" can't be resolved to a single file and are skipped
+function collectExportTargets(value: unknown, targets: string[]): void {
+  if (typeof value === "string") {
+    if (!value.includes("*")) targets.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectExportTargets(item, targets);
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      if (key !== "./package.json") collectExportTargets(item, targets);
+    }
+  }
+}
+
+// The source file behind an entry point, trying the path itself, then sources next to it, then
+// sources for build output
+async function resolveSourceFile(repoPath: string, target: string): Promise<string | null> {
+  const path = normalize(target).replace(/\/$/, "");
+  if (isAbsolute(path) || path.startsWith("..")) {
+    return null;
+  }
+
+  const stem = path.replace(OUTPUT_EXTENSION_PATTERN, "");
+  const [first, ...rest] = stem.split("/");
+  const stems = [stem, join(stem, "index")];
+  if (BUILD_DIRECTORIES.includes(first) && rest.length > 0) {
+    stems.push(join("src", ...rest), join(...rest));
+  }
+
+  const candidates = [
+    ...(/\.d\.[cm]?ts$/.test(path) ? [] : [path]),
+    ...stems.flatMap((candidate) => SOURCE_EXTENSIONS.map((extension) => candidate + extension)),
+  ];
+  for (const candidate of candidates) {
+    if (await isFile(join(repoPath, candidate))) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+async function readManifest(repoPath: string): Promise<Record<string, unknown> | null> {
+  try {
+    const manifest: unknown = JSON.parse(
+      await fs.readFile(join(repoPath, "package.json"), "utf-8")
+    );
+    return typeof manifest === "object" && manifest !== null
+      ? (manifest as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Source files of the `exports`, `main` and `module` entry points in the root package.json
+export async function findEntryPoints(repoPath: string): Promise<string[]> {
+  const manifest = await readManifest(repoPath);
+  if (!manifest) {
+    return [];
+  }
+
+  const targets: string[] = [];
+  collectExportTargets(manifest.exports, targets);
+  for (const field of ["main", "module"]) {
+    if (typeof manifest[field] === "string") targets.push(manifest[field]);
+  }
+
+  const entryPoints = new Set<string>();
+  for (const target of targets) {
+    const source = await resolveSourceFile(repoPath, target);
+    if (source) entryPoints.add(source);
+  }
+  return [...entryPoints];
+}
+
+// The source file behind each specifier the package can be imported by, such as "pkg" and
+// "pkg/utils" for subpath exports
+export async function findPackageModules(repoPath: string): Promise<Record<string, string>> {
+  const manifest = await readManifest(repoPath);
+  if (!manifest || typeof manifest.name !== "string") {
+    return {};
+  }
+
+  const { exports } = manifest;
+  const subpaths: [string, unknown][] =
+    typeof exports === "object" &&
+    exports !== null &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith("."))
+      ? Object.entries(exports)
+      : [[".", exports ?? manifest.module ?? manifest.main]];
+
+  const modules: Record<string, string> = {};
+  for (const [subpath, value] of subpaths) {
+    if (subpath.includes("*") || subpath === "./package.json") continue;
+
+    const targets: string[] = [];
+    collectExportTargets(value, targets);
+    for (const target of targets) {
+      const source = await resolveSourceFile(repoPath, target);
+      if (source) {
+        modules[join(manifest.name, subpath)] = source;
+        break;
+      }
+    }
+  }
+  return modules;
+}
+
+function symbolKind(symbol: ts.Symbol): ExportedSymbol["kind"] | null {
+  return SYMBOL_KINDS.find(([flag]) => symbol.flags & flag)?.[1] ?? null;
+}
+
+// Values exported by the entry points, following re-exports to where each one is declared.
+// Symbols re-exported from dependencies belong to those packages and are left out.
+export function findExportedSymbols(
+  repoPath: string,
+  entryPoints: string[]
+): Omit<ExportedSymbol, "documented">[] {
+  const options: ts.CompilerOptions = {
+    allowJs: true,
+    noEmit: true,
+    noLib: true,
+    skipLibCheck: true,
+    types: [],
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.Preserve,
+  };
+
+  // Dependencies are never followed, which keeps large node_modules trees out of the program
+  const host = ts.createCompilerHost(options);
+  const fileExists = host.fileExists.bind(host);
+  host.fileExists = (fileName) =>
+    !fileName.split(sep).includes("node_modules") && fileExists(fileName);
+
+  const program = ts.createProgram(
+    entryPoints.map((entryPoint) => join(repoPath, entryPoint)),
+    options,
+    host
+  );
+  const checker = program.getTypeChecker();
+
+  const symbols = new Map<string, Omit<ExportedSymbol, "documented">>();
+  for (const entryPoint of entryPoints) {
+    const sourceFile = program.getSourceFile(join(repoPath, entryPoint));
+    const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) continue;
+
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const target =
+        exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+      const kind = symbolKind(target);
+      const declaration = target.declarations?.[0];
+      if (!kind || !declaration) continue;
+      // A default export is documented under its own name, if it has one
+      const name =
+        exported.name === "default"
+          ? ts.getNameOfDeclaration(declaration)?.getText()
+          : exported.name;
+      if (!name || name === "default") continue;
+
+      const declarationFile = declaration.getSourceFile();
+      const file = relative(repoPath, declarationFile.fileName);
+      if (file.startsWith("..")) continue;
+
+      const { line } = declarationFile.getLineAndCharacterOfPosition(declaration.getStart());
+      if (!symbols.has(name)) {
+        symbols.set(name, { name, kind, file, line: line + 1 });
+      }
+    }
+  }
+
+  return [...symbols.values()].sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.name.localeCompare(b.name)
+  );
+}
+
+// A mention is the name as a whole word, in code formatting or not
+export function isMentioned(name: string, text: string): boolean {
+  const escaped = name.replace(/[$]/g, "\\$&");
+  return new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).test(text);
+}
+
+export function apiCoverage(symbols: ExportedSymbol[]): number {
+  if (symbols.length === 0) return 100;
+  const documented = symbols.filter((symbol) => symbol.documented).length;
+  return Math.round((documented / symbols.length) * 1000) / 10;
+}
+
+export function undocumentedSymbolToIssue(symbol: ExportedSymbol): DocumentationIssue {
+  return {
+    type: "missing",
+    severity: symbol.kind === "function" || symbol.kind === "class" ? "medium" : "low",
+    effort: "low",
+    title: `Exported ${symbol.kind} \`${symbol.name}\` is not documented`,
+    description: `\`${symbol.name}\` is part of the package's public API, exported through its package.json entry points, but no documentation file mentions it.`,
+    suggestion: `Describe \`${symbol.name}\` in the README or the API docs, with an example of how to use it.`,
+    file: symbol.file,
+    line: symbol.line,
+  };
+}
+
+// For the prompt: what the package exports and which of it the docs never mention
+export function describeApiSurface(symbols: ExportedSymbol[], limit: number): string {
+  const lines = symbols
+    .slice(0, limit)
+    .map(
+      (symbol) =>
+        `- ${symbol.kind} \`${symbol.name}\` (${symbol.file}:${symbol.line})${symbol.documented ? "" : " - not mentioned in the docs"}`
+    );
+  if (symbols.length > limit) {
+    lines.push(`- ...and ${symbols.length - limit} more`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,241 @@
+import assert from "node:assert/strict";
+import { cp, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import {
+  applyBaseline,
+  createBaseline,
+  loadBaseline,
+  parseIgnoreComments,
+  writeBaseline,
+} from "./baseline.js";
+import { DEFAULT_CONFIG, mergeConfig } from "./config.js";
+import { DocumentationAnalyzer } from "./doc-analyzer.js";
+import { InputError } from "./errors.js";
+import { fingerprintIssue } from "./issue-utils.js";
+import type { AnalysisBackend, BaselineEntry, DocumentationIssue, Repository } from "./types.js";
+
+const FIXTURES = fileURLToPath(new URL("./__fixtures__/", import.meta.url));
+
+function issue(title: string, fields: Partial<DocumentationIssue> = {}): DocumentationIssue {
+  const base: DocumentationIssue = {
+    type: "outdated",
+    severity: "medium",
+    effort: "low",
+    title,
+    description: "",
+    suggestion: "",
+    file: "README.md",
+    line: 3,
+    ...fields,
+  };
+  return { ...base, fingerprint: fields.fingerprint ?? fingerprintIssue(base, "some line") };
+}
+
+function entry(fingerprint: string, fields: Partial<BaselineEntry> = {}): BaselineEntry {
+  return {
+    fingerprint,
+    type: "outdated",
+    title: `Issue ${fingerprint}`,
+    file: "README.md",
+    ...fields,
+  };
+}
+
+describe("fingerprintIssue", () => {
+  it("survives line moves and severity changes but not a different finding", () => {
+    const original = issue("Install command uses npm");
+    assert.equal(
+      fingerprintIssue({ ...original, line: 40, severity: "high" }, "some line"),
+      original.fingerprint
+    );
+    // Only letters and digits count, so rewording punctuation keeps the fingerprint
+    assert.equal(
+      fingerprintIssue({ ...original, title: "Install command uses NPM!" }, "some line"),
+      original.fingerprint
+    );
+    assert.notEqual(fingerprintIssue(original, "another line"), original.fingerprint);
+    assert.notEqual(
+      fingerprintIssue({ ...original, file: "docs/install.md" }, "some line"),
+      original.fingerprint
+    );
+  });
+});
+
+describe("applyBaseline", () => {
+  it("separates new, baselined, fixed and unreviewed issues", () => {
+    const accepted = issue("Accepted", { fingerprint: "a" });
+    const fresh = issue("Fresh", { fingerprint: "b" });
+    const baseline = createBaseline(
+      [],
+      [entry("a"), entry("gone"), entry("skipped", { file: "docs/guide.md" })]
+    );
+
+    const { newIssues, comparison } = applyBaseline(
+      [accepted, fresh],
+      baseline,
+      (candidate) => candidate.file !== "docs/guide.md"
+    );
+    assert.deepEqual(newIssues, [fresh]);
+    assert.deepEqual(comparison.baselinedIssues, [accepted]);
+    assert.deepEqual(
+      comparison.fixedIssues.map((candidate) => candidate.fingerprint),
+      ["gone"]
+    );
+    assert.deepEqual(
+      comparison.unreviewedIssues.map((candidate) => candidate.fingerprint),
+      ["skipped"]
+    );
+  });
+});
+
+describe("createBaseline", () => {
+  it("keeps carried-over entries and sorts by file and title", () => {
+    const baseline = createBaseline(
+      [
+        issue("Zebra", { fingerprint: "z" }),
+        issue("Apple", { fingerprint: "a" }),
+        issue("Apple again", { fingerprint: "a" }),
+        issue("No fingerprint", { fingerprint: "" }),
+      ],
+      [entry("kept", { file: "docs/guide.md", title: "Carried over" })]
+    );
+    assert.deepEqual(
+      baseline.issues.map((candidate) => [candidate.file, candidate.title]),
+      [
+        ["docs/guide.md", "Carried over"],
+        ["README.md", "Apple"],
+        ["README.md", "Zebra"],
+      ]
+    );
+  });
+});
+
+describe("loadBaseline and writeBaseline", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "docs-check-baseline-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("round-trips a baseline and rejects malformed files", async () => {
+    const filePath = join(directory, "baseline.json");
+    assert.equal(await loadBaseline(filePath), null);
+
+    const baseline = createBaseline([issue("Accepted", { fingerprint: "a" })]);
+    await writeBaseline(filePath, baseline);
+    assert.deepEqual(await loadBaseline(filePath), baseline);
+
+    await writeFile(filePath, JSON.stringify({ version: 1, issues: [{ title: "no type" }] }));
+    await assert.rejects(loadBaseline(filePath), InputError);
+  });
+});
+
+describe("parseIgnoreComments", () => {
+  it("applies standalone comments to the next line and trailing ones to their own", () => {
+    const rules = parseIgnoreComments(
+      [
+        "# Title",
+        "<!-- docs-check-ignore -->",
+        "[old](missing.md) <!-- docs-check-ignore broken-link -->",
+        "<!-- docs-check-ignore-file outdated,unclear -->",
+      ].join("\n")
+    );
+    assert.deepEqual(rules, [
+      { line: 3, types: [] },
+      { line: 3, types: ["broken-link"] },
+      { types: ["outdated", "unclear"] },
+    ]);
+  });
+});
+
+describe("baselines on partial runs", () => {
+  const backend: AnalysisBackend = {
+    name: "scripted",
+    model: "scripted",
+    async *query() {
+      yield { type: "result", text: "[]" };
+    },
+  };
+  let repoPath: string;
+  let repository: Repository;
+
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-test-"));
+    await cp(join(FIXTURES, "sample-repo"), repoPath, { recursive: true });
+    repository = {
+      source: "local",
+      host: "unknown",
+      repo: "sample-repo",
+      url: repoPath,
+      localPath: repoPath,
+    };
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("doesn't count entries in docs left over after maxPasses as fixed", async () => {
+    const baseline = createBaseline(
+      [],
+      [
+        entry("guide", { file: "docs/guide.md" }),
+        entry("cli", { file: "lib/cli.js" }),
+        entry("unclear", { type: "unclear" }),
+      ]
+    );
+
+    // A tiny per-pass budget and a single pass leave docs/guide.md unreviewed
+    const result = await new DocumentationAnalyzer(backend, {
+      config: mergeConfig(DEFAULT_CONFIG, {
+        issueTypes: ["outdated"],
+        limits: { chunkTokenBudget: 50, maxPasses: 1 },
+      }),
+      baseline,
+    }).analyzeDocumentation(repoPath, repository);
+
+    assert.equal(result.status, "partial");
+    assert.deepEqual(
+      result.baseline?.fixedIssues.map((candidate) => candidate.fingerprint),
+      []
+    );
+    // lib/cli.js isn't documentation, so no run reviews it
+    assert.deepEqual(
+      result.baseline?.unreviewedIssues.map((candidate) => candidate.fingerprint).sort(),
+      ["cli", "guide", "unclear"]
+    );
+  });
+
+  it("doesn't count entries in excluded docs as fixed", async () => {
+    const baseline = createBaseline(
+      [],
+      [
+        entry("readme"),
+        entry("guide", { file: "docs/guide.md" }),
+        entry("anywhere", { file: undefined }),
+      ]
+    );
+
+    const result = await new DocumentationAnalyzer(backend, {
+      config: mergeConfig(DEFAULT_CONFIG, { issueTypes: ["outdated"], exclude: ["docs/**"] }),
+      baseline,
+    }).analyzeDocumentation(repoPath, repository);
+
+    assert.equal(result.status, "complete");
+    assert.deepEqual(
+      result.baseline?.fixedIssues.map((candidate) => candidate.fingerprint),
+      ["readme"]
+    );
+    assert.deepEqual(
+      result.baseline?.unreviewedIssues.map((candidate) => candidate.fingerprint).sort(),
+      ["anywhere", "guide"]
+    );
+  });
+});
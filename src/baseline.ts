@@ -0,0 +1,203 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { InputError } from "./errors.js";
+import { ISSUE_TYPES } from "./issue-schema.js";
+import { isMarkdownFile } from "./link-checker.js";
+import type {
+  Baseline,
+  BaselineComparison,
+  BaselineEntry,
+  DocumentationIssue,
+  IssueType,
+} from "./types.js";
+
+export const BASELINE_FILE_NAME = ".docs-check-baseline.json";
+
+// `<!-- docs-check-ignore -->` silences its own line, or the next line when it stands alone.
+// `<!-- docs-check-ignore-file -->` silences the whole file. Either may list issue types,
+// e.g. `<!-- docs-check-ignore broken-link,outdated -->`, to silence only those.
+const IGNORE_COMMENT_PATTERN = /<!--\s*docs-check-ignore(-file)?(?:\s+([^>]*?))?\s*-->/g;
+
+interface IgnoreRule {
+  // Undefined for file-wide rules
+  line?: number;
+  // Empty means every type
+  types: IssueType[];
+}
+
+export function defaultBaselinePath(repoPath: string): string {
+  return join(repoPath, BASELINE_FILE_NAME);
+}
+
+function isBaselineEntry(value: unknown): value is BaselineEntry {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.fingerprint === "string" &&
+    ISSUE_TYPES.includes(entry.type as IssueType) &&
+    typeof entry.title === "string" &&
+    (entry.file === undefined || typeof entry.file === "string")
+  );
+}
+
+// Returns null when the file does not exist, so a missing baseline means "nothing accepted yet"
+export async function loadBaseline(filePath: string): Promise<Baseline | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new InputError(
+      `Invalid baseline in ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const baseline = raw as Partial<Baseline> | null;
+  if (
+    typeof baseline !== "object" ||
+    baseline === null ||
+    baseline.version !== 1 ||
+    !Array.isArray(baseline.issues) ||
+    !baseline.issues.every(isBaselineEntry)
+  ) {
+    throw new InputError(
+      `Invalid baseline in ${filePath}: expected { "version": 1, "issues": [...] } with a fingerprint, type and title for each issue`
+    );
+  }
+
+  return { version: 1, issues: baseline.issues };
+}
+
+// `keep` carries over existing entries, e.g. ones in docs a partial run did not review
+export function createBaseline(issues: DocumentationIssue[], keep: BaselineEntry[] = []): Baseline {
+  const entries = new Map(keep.map((entry) => [entry.fingerprint, entry]));
+
+  for (const issue of issues) {
+    if (!issue.fingerprint || entries.has(issue.fingerprint)) continue;
+    entries.set(issue.fingerprint, {
+      fingerprint: issue.fingerprint,
+      type: issue.type,
+      ...(issue.file ? { file: issue.file } : {}),
+      title: issue.title,
+    });
+  }
+
+  // Sorted so the committed file produces small, readable diffs
+  const sorted = [...entries.values()].sort(
+    (a, b) =>
+      (a.file ?? "").localeCompare(b.file ?? "") ||
+      a.title.localeCompare(b.title) ||
+      a.fingerprint.localeCompare(b.fingerprint)
+  );
+
+  return { version: 1, issues: sorted };
+}
+
+export async function writeBaseline(filePath: string, baseline: Baseline): Promise<void> {
+  await fs.writeFile(filePath, `${JSON.stringify(baseline, null, 2)}\n`, "utf-8");
+}
+
+// An entry that `isReviewed` rejects can't have been fixed by this run, so it is set aside
+export function applyBaseline(
+  issues: DocumentationIssue[],
+  baseline: Baseline,
+  isReviewed: (entry: BaselineEntry) => boolean = () => true
+): { newIssues: DocumentationIssue[]; comparison: BaselineComparison } {
+  const accepted = new Set(baseline.issues.map((entry) => entry.fingerprint));
+  const seen = new Set<string>();
+  const newIssues: DocumentationIssue[] = [];
+  const baselinedIssues: DocumentationIssue[] = [];
+
+  for (const issue of issues) {
+    if (issue.fingerprint && accepted.has(issue.fingerprint)) {
+      seen.add(issue.fingerprint);
+      baselinedIssues.push(issue);
+    } else {
+      newIssues.push(issue);
+    }
+  }
+
+  const missing = baseline.issues.filter((entry) => !seen.has(entry.fingerprint));
+  return {
+    newIssues,
+    comparison: {
+      baselinedIssues,
+      fixedIssues: missing.filter((entry) => isReviewed(entry)),
+      unreviewedIssues: missing.filter((entry) => !isReviewed(entry)),
+    },
+  };
+}
+
+function parseIgnoreTypes(text: string): IssueType[] {
+  return text
+    .split(/[\s,]+/)
+    .filter((type): type is IssueType => ISSUE_TYPES.includes(type as IssueType));
+}
+
+export function parseIgnoreComments(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((text, index) => {
+    for (const match of text.matchAll(IGNORE_COMMENT_PATTERN)) {
+      const types = parseIgnoreTypes(match[2] ?? "");
+
+      if (match[1]) {
+        rules.push({ types });
+        continue;
+      }
+
+      // A comment alone on its line applies to the line below it
+      const standsAlone = text.replace(IGNORE_COMMENT_PATTERN, "").trim().length === 0;
+      rules.push({ line: standsAlone ? index + 2 : index + 1, types });
+    }
+  });
+
+  return rules;
+}
+
+function isIgnored(issue: DocumentationIssue, rules: IgnoreRule[]): boolean {
+  return rules.some(
+    (rule) =>
+      (rule.line === undefined || rule.line === issue.line) &&
+      (rule.types.length === 0 || rule.types.includes(issue.type))
+  );
+}
+
+// Drops issues silenced by inline ignore comments in the Markdown files they point at
+export async function applyInlineIgnores(
+  repoPath: string,
+  issues: DocumentationIssue[]
+): Promise<{ issues: DocumentationIssue[]; suppressed: number }> {
+  const rulesByFile = new Map<string, IgnoreRule[]>();
+  const kept: DocumentationIssue[] = [];
+
+  for (const issue of issues) {
+    if (!issue.file || !isMarkdownFile(issue.file)) {
+      kept.push(issue);
+      continue;
+    }
+
+    let rules = rulesByFile.get(issue.file);
+    if (!rules) {
+      try {
+        rules = parseIgnoreComments(await fs.readFile(join(repoPath, issue.file), "utf-8"));
+      } catch {
+        rules = [];
+      }
+      rulesByFile.set(issue.file, rules);
+    }
+
+    if (!isIgnored(issue, rules)) {
+      kept.push(issue);
+    }
+  }
+
+  return { issues: kept, suppressed: issues.length - kept.length };
+}
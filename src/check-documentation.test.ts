@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { cp, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { checkDocumentation } from "./check-documentation.js";
+import type { ProgressEvent } from "./types.js";
+
+const FIXTURES = fileURLToPath(new URL("./__fixtures__/", import.meta.url));
+const RECORDINGS = join(FIXTURES, "recordings");
+
+describe("checkDocumentation", () => {
+  let repoPath: string;
+
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-test-"));
+    await cp(join(FIXTURES, "sample-repo"), repoPath, { recursive: true });
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("returns the report and reports progress as it goes", async () => {
+    const events: ProgressEvent[] = [];
+    const report = await checkDocumentation(repoPath, {
+      replay: RECORDINGS,
+      cache: false,
+      onProgress: (event) => events.push(event),
+    });
+
+    assert.equal(report.command, "analyze");
+    assert.equal(report.analysis.status, "complete");
+    assert.equal(report.analysis.summary.totalIssues, 3);
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ["local-checkout", "scanning", "pass-started", "pass-finished", "parsing"]
+    );
+    assert.deepEqual(events[3], {
+      type: "pass-finished",
+      pass: 1,
+      totalPasses: 1,
+      issues: 3,
+      cached: false,
+    });
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("stopped by the caller"));
+
+    await assert.rejects(
+      checkDocumentation(repoPath, {
+        replay: RECORDINGS,
+        cache: false,
+        signal: controller.signal,
+      }),
+      /stopped by the caller/
+    );
+  });
+});
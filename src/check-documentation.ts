@@ -0,0 +1,408 @@
+import { resolve } from "node:path";
+import { type BackendName, createAnalysisBackend } from "./analysis-backends.js";
+import { AnalysisCache, defaultCacheDirectory } from "./analysis-cache.js";
+import { createBaseline, defaultBaselinePath, loadBaseline, writeBaseline } from "./baseline.js";
+import { type ConfigOverrides, loadConfig } from "./config.js";
+import { buildDiffScope } from "./diff-scope.js";
+import { DocumentationAnalyzer } from "./doc-analyzer.js";
+import { InputError } from "./errors.js";
+import { FixEngine } from "./fix-engine.js";
+import { GitOperations } from "./git-operations.js";
+import { GitHubClient } from "./github-client.js";
+import { createHttpLinkFetcher } from "./link-checker.js";
+import { githubHostsFor, isGitHubRepository, resolveRepository } from "./repository-source.js";
+import { RunHistory } from "./run-history.js";
+import type {
+  AnalysisBackend,
+  AnalysisBudget,
+  AnalysisReport,
+  AnalysisResult,
+  AppConfig,
+  CommandName,
+  DiffScope,
+  DocsCheckConfig,
+  GitHubRepository,
+  ProgressListener,
+  PullRequestInfo,
+  Repository,
+} from "./types.js";
+
+export const DEFAULT_TEMP_DIRECTORY = "/tmp/docs-check";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export interface CheckDocumentationOptions {
+  // What to do with the findings besides returning them (default: analyze)
+  command?: CommandName;
+  // Print what would be sent to GitHub instead of sending it
+  dryRun?: boolean;
+  backend?: BackendName;
+  baseUrl?: string;
+  model?: string;
+  // Claude Code only: false gives the agent no tools, so it only sees the prompt
+  agentTools?: boolean;
+  record?: string;
+  replay?: string;
+  // Default to the GITHUB_TOKEN and ANTHROPIC_API_KEY environment variables
+  githubToken?: string;
+  anthropicApiKey?: string;
+  // Defaults to the GITHUB_API_URL environment variable, then https://api.github.com
+  githubApiUrl?: string;
+  // A config file layered over the analyzed repository's own, then `overrides` on top
+  configPath?: string;
+  overrides?: ConfigOverrides;
+  // Default: .docs-check-baseline.json in the repository
+  baselinePath?: string;
+  updateBaseline?: boolean;
+  // Review only docs affected by the changes from `base` to `head` (default: HEAD)
+  base?: string;
+  head?: string;
+  // review-pr only: the pull request to review
+  pullRequest?: number;
+  // Reuse analysis passes cached in `cacheDirectory` (default: on)
+  cache?: boolean;
+  cacheDirectory?: string;
+  budget?: AnalysisBudget;
+  // Record the analysis in the run history kept in this directory (default: not recorded)
+  historyDirectory?: string;
+  checkExternalLinks?: boolean;
+  // Where remote repositories are cloned
+  tempDirectory?: string;
+  // Clone with the GitHub token and never prompt for credentials, for repositories listed by the
+  // GitHub API that nobody is watching the clone of
+  unattendedClone?: boolean;
+  onProgress?: ProgressListener;
+  signal?: AbortSignal;
+}
+
+export function getConfig(
+  options: CheckDocumentationOptions,
+  requireGitHubToken: boolean,
+  requireApiKey: boolean
+): AppConfig {
+  const githubToken = options.githubToken ?? process.env.GITHUB_TOKEN;
+  const anthropicApiKey = options.anthropicApiKey ?? process.env.ANTHROPIC_API_KEY;
+  const githubApiUrl = options.githubApiUrl ?? process.env.GITHUB_API_URL;
+
+  if (requireGitHubToken && !githubToken) {
+    throw new InputError("GITHUB_TOKEN environment variable is required");
+  }
+
+  if (requireApiKey && !anthropicApiKey) {
+    throw new InputError("ANTHROPIC_API_KEY environment variable is required");
+  }
+
+  return {
+    ...(githubToken ? { githubToken } : {}),
+    ...(githubApiUrl ? { githubApiUrl } : {}),
+    ...(anthropicApiKey ? { anthropicApiKey } : {}),
+    tempDirectory: options.tempDirectory ?? DEFAULT_TEMP_DIRECTORY,
+  };
+}
+
+// Carries out the GitHub side of a command and collects everything it did for the reporter
+async function performCommand(
+  commandName: CommandName,
+  analysisResult: AnalysisResult,
+  githubRepository: GitHubRepository | null,
+  repoPath: string,
+  config: AppConfig,
+  docsCheckConfig: DocsCheckConfig,
+  options: CheckDocumentationOptions,
+  backend: AnalysisBackend,
+  review?: { pullRequest: PullRequestInfo; diff: DiffScope }
+): Promise<AnalysisReport> {
+  const report: AnalysisReport = { command: commandName, analysis: analysisResult };
+
+  if (commandName === "analyze" || !githubRepository) {
+    return report;
+  }
+
+  // Don't file issues or open PRs based on an analysis that produced nothing usable
+  if (analysisResult.status === "failed") {
+    throw new Error("Analysis failed; nothing was sent to GitHub");
+  }
+
+  const dryRun = options.dryRun ?? false;
+  options.onProgress?.({ type: "filing", command: commandName, dryRun });
+  options.signal?.throwIfAborted();
+
+  const githubClient = new GitHubClient(
+    config.githubToken,
+    docsCheckConfig.github,
+    config.githubApiUrl ? { baseUrl: config.githubApiUrl } : {}
+  );
+
+  if (commandName === "file-issues") {
+    if (dryRun) {
+      return {
+        ...report,
+        plannedIssueSync: await githubClient.planIssueSync(githubRepository, analysisResult),
+      };
+    }
+
+    return {
+      ...report,
+      issueSync: await githubClient.syncIssuesFromAnalysis(githubRepository, analysisResult),
+    };
+  }
+
+  const fixEngine = new FixEngine(backend, docsCheckConfig);
+
+  if (commandName === "review-pr" && review) {
+    // Suggestions count against the same limit as fixes in a pull request
+    const plannedReview = await githubClient.planPullRequestReview(
+      analysisResult,
+      review.diff,
+      review.pullRequest.number,
+      repoPath,
+      fixEngine,
+      docsCheckConfig.limits.maxFixes
+    );
+
+    if (dryRun) {
+      return { ...report, plannedReview };
+    }
+
+    return {
+      ...report,
+      review: await githubClient.submitPullRequestReview(githubRepository, plannedReview),
+    };
+  }
+
+  if (dryRun) {
+    return {
+      ...report,
+      plannedPullRequest: await githubClient.preparePullRequest(
+        analysisResult,
+        repoPath,
+        fixEngine
+      ),
+    };
+  }
+
+  return {
+    ...report,
+    pullRequest: await githubClient.createPullRequestWithFixes(
+      githubRepository,
+      analysisResult,
+      repoPath,
+      fixEngine
+    ),
+  };
+}
+
+// Analyzes a local path or git remote URL and carries out `options.command`, returning the
+// analysis together with what was done on GitHub
+export async function runDocsCheck(
+  source: string,
+  options: CheckDocumentationOptions = {}
+): Promise<AnalysisReport> {
+  const commandName = options.command ?? "analyze";
+  const { onProgress, signal } = options;
+  // Library callers get warnings as events; the CLI prints them
+  const warn = (message: string) => onProgress?.({ type: "warning", message });
+
+  // Repositories on the host of a GitHub Enterprise Server API count as hosted on GitHub
+  const repository = await resolveRepository(
+    source,
+    githubHostsFor(options.githubApiUrl ?? process.env.GITHUB_API_URL)
+  );
+  const writesToGitHub = commandName !== "analyze";
+
+  // GitHub integration is only available for repositories hosted on GitHub
+  let githubRepository: GitHubRepository | null = null;
+  if (writesToGitHub) {
+    if (!isGitHubRepository(repository)) {
+      throw new InputError(`${commandName} requires a repository hosted on GitHub`);
+    }
+    githubRepository = repository;
+  }
+
+  if (options.record && options.replay) {
+    throw new InputError("--record and --replay cannot be combined");
+  }
+  if (options.baseUrl && options.backend !== "messages-api") {
+    throw new InputError("--base-url only applies to --backend messages-api");
+  }
+  if (commandName === "review-pr" && options.pullRequest === undefined) {
+    throw new InputError("review-pr needs the number of the pull request to review");
+  }
+
+  // Only commands that write to GitHub need a token, and not when dry-running; replayed
+  // runs never call a model
+  const config = getConfig(options, writesToGitHub && !options.dryRun, !options.replay);
+
+  // Initialize services
+  const gitOps = new GitOperations(config.tempDirectory, signal);
+
+  // Fixes are committed on a new branch and reviews check out the pull request's head, so both
+  // work on a fresh clone rather than switching branches in a local checkout
+  const checkout: Repository =
+    commandName === "open-pr" || commandName === "review-pr"
+      ? { ...repository, source: "remote" }
+      : repository;
+
+  if (options.head && !options.base) {
+    throw new InputError("--head requires --base");
+  }
+
+  // Writing the baseline into a temporary clone would throw it away
+  if (options.updateBaseline && !options.baselinePath && checkout.source !== "local") {
+    throw new InputError("--update-baseline needs --baseline <path> when the repository is cloned");
+  }
+
+  // Clone remote repositories; local checkouts are used in place
+  signal?.throwIfAborted();
+  onProgress?.(
+    checkout.source === "local" && checkout.localPath
+      ? { type: "local-checkout", path: checkout.localPath }
+      : { type: "cloning", url: checkout.url, directory: config.tempDirectory }
+  );
+  const repoPath = await gitOps.prepareRepository(
+    checkout,
+    options.unattendedClone
+      ? { ...(config.githubToken ? { token: config.githubToken } : {}), noPrompt: true }
+      : {}
+  );
+
+  try {
+    // Merge the analyzed repository's config file, the given config file and overrides
+    const docsCheckConfig = await loadConfig(repoPath, {
+      ...(options.configPath ? { configPath: options.configPath } : {}),
+      ...(options.overrides ? { overrides: options.overrides } : {}),
+      onWarning: warn,
+    });
+
+    // The repository's own config can only lower the agent's turn and time limits
+    const backend = createAnalysisBackend({
+      backend: options.backend ?? "claude-code",
+      ...(config.anthropicApiKey ? { apiKey: config.anthropicApiKey } : {}),
+      ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+      ...(options.model ? { model: options.model } : {}),
+      agentTools: options.agentTools ?? true,
+      maxTurns: docsCheckConfig.limits.maxAgentTurns,
+      timeoutMs: docsCheckConfig.limits.agentTimeoutSeconds * 1000,
+      ...(options.record ? { record: resolve(options.record) } : {}),
+      ...(options.replay ? { replay: resolve(options.replay) } : {}),
+    });
+
+    // A missing baseline file simply means no issues have been accepted yet
+    const baselinePath = options.baselinePath
+      ? resolve(options.baselinePath)
+      : defaultBaselinePath(repoPath);
+    const baseline = await loadBaseline(baselinePath);
+
+    // A pull request review covers the pull request's own changes
+    let pullRequest: PullRequestInfo | undefined;
+    let range = options.base ? { base: options.base, head: options.head ?? "HEAD" } : undefined;
+    if (commandName === "review-pr" && githubRepository && options.pullRequest !== undefined) {
+      pullRequest = await new GitHubClient(
+        config.githubToken,
+        docsCheckConfig.github,
+        config.githubApiUrl ? { baseUrl: config.githubApiUrl } : {}
+      ).getPullRequest(githubRepository, options.pullRequest);
+      // Fork branches aren't in the base repository, but GitHub mirrors every head under refs/pull
+      range = { base: pullRequest.baseSha, head: `refs/pull/${pullRequest.number}/head` };
+    }
+
+    // Local checkouts are never fetched into or switched to another commit, so --base must be
+    // there already and --head must be checked out
+    let diff: DiffScope | undefined;
+    if (range) {
+      onProgress?.({ type: "diffing", ...range });
+      diff = await buildDiffScope(
+        gitOps,
+        repoPath,
+        range.base,
+        range.head,
+        checkout.source === "remote"
+      );
+    }
+
+    // Recording needs every prompt to reach the model, so it bypasses the cache
+    const cache =
+      (options.cache ?? true) && !options.record
+        ? new AnalysisCache(
+            options.cacheDirectory ? resolve(options.cacheDirectory) : defaultCacheDirectory()
+          )
+        : undefined;
+
+    const analyzer = new DocumentationAnalyzer(backend, {
+      config: docsCheckConfig,
+      ...(cache ? { cache } : {}),
+      ...(options.budget ? { budget: options.budget } : {}),
+      ...(baseline ? { baseline } : {}),
+      ...(diff ? { diff } : {}),
+      ...(options.checkExternalLinks ? { linkFetcher: createHttpLinkFetcher() } : {}),
+      ...(onProgress ? { onProgress } : {}),
+      ...(signal ? { signal } : {}),
+    });
+    const analysisResult = await analyzer.analyzeDocumentation(repoPath, repository);
+
+    if (options.updateBaseline) {
+      if (analysisResult.status === "failed") {
+        throw new Error("Analysis failed; the baseline was not updated");
+      }
+
+      // Entries in docs this run didn't review are carried over rather than dropped as fixed
+      const updatedBaseline = createBaseline(
+        [...analysisResult.issues, ...(analysisResult.baseline?.baselinedIssues ?? [])],
+        analysisResult.baseline?.unreviewedIssues ?? []
+      );
+      await writeBaseline(baselinePath, updatedBaseline);
+      onProgress?.({
+        type: "baseline-updated",
+        path: baselinePath,
+        issues: updatedBaseline.issues.length,
+      });
+    }
+
+    if (options.historyDirectory) {
+      // A history that can't be written doesn't make the analysis itself fail
+      const history = new RunHistory(resolve(options.historyDirectory));
+      try {
+        const run = await history.record(analysisResult);
+        if (run) {
+          onProgress?.({
+            type: "history-recorded",
+            path: history.filePath(run.repository),
+            runId: run.id,
+          });
+        }
+      } catch (error) {
+        warn(errorMessage(error));
+      }
+    }
+
+    return await performCommand(
+      commandName,
+      analysisResult,
+      githubRepository,
+      repoPath,
+      config,
+      docsCheckConfig,
+      options,
+      backend,
+      pullRequest && diff ? { pullRequest, diff } : undefined
+    );
+  } finally {
+    // Cleanup
+    try {
+      await gitOps.cleanup(repoPath);
+    } catch (error) {
+      warn(errorMessage(error));
+    }
+  }
+}
+
+// The library entry point: analyzes a local path or git remote URL and returns the report, with
+// the analysis and what `command` filed, opened or reviewed on GitHub
+export async function checkDocumentation(
+  source: string,
+  options: CheckDocumentationOptions = {}
+): Promise<AnalysisReport> {
+  return runDocsCheck(source, options);
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type DocumentSection,
+  mapLineToOriginal,
+  planChunks,
+  renderChunk,
+  splitIntoSections,
+} from "./chunk-planner.js";
+
+// Each four-character line counts as three tokens, one for the text and two for its line number
+const SECTIONS: DocumentSection[] = [
+  { file: "a.md", heading: "A", startLine: 1, endLine: 4, lines: Array(4).fill("aaaa") },
+  { file: "a.md", heading: "B", startLine: 5, endLine: 5, lines: ["bbbb"] },
+  { file: "b.md", startLine: 1, endLine: 2, lines: ["cccc", "cccc"] },
+];
+
+describe("splitIntoSections", () => {
+  it("splits Markdown at headings outside code fences", () => {
+    const sections = splitIntoSections(
+      "guide.md",
+      ["Intro", "# Install", "```sh", "# not a heading", "```", "## Usage", "Run it."].join("\n")
+    );
+    assert.deepEqual(
+      sections.map(({ heading, startLine, endLine }) => [heading, startLine, endLine]),
+      [
+        [undefined, 1, 1],
+        ["Install", 2, 5],
+        ["Usage", 6, 7],
+      ]
+    );
+  });
+
+  it("keeps other files whole", () => {
+    const sections = splitIntoSections("notes.txt", "# One\n# Two\n");
+    assert.deepEqual(
+      sections.map(({ heading, startLine, endLine }) => [heading, startLine, endLine]),
+      [[undefined, 1, 3]]
+    );
+  });
+});
+
+describe("planChunks", () => {
+  it("packs sections in order and splits those over the budget on line boundaries", () => {
+    const chunks = planChunks(SECTIONS, 10);
+    assert.deepEqual(
+      chunks.map((chunk) => [
+        chunk.index,
+        chunk.estimatedTokens,
+        chunk.sections.map(({ file, startLine, endLine }) => `${file}:${startLine}-${endLine}`),
+      ]),
+      [
+        [0, 9, ["a.md:1-3"]],
+        [1, 6, ["a.md:4-4", "a.md:5-5"]],
+        [2, 6, ["b.md:1-2"]],
+      ]
+    );
+    assert.equal(
+      renderChunk(chunks[1]),
+      '\n--- a.md (lines 4-4, section "A") ---\n4| aaaa\n\n--- a.md (lines 5-5, section "B") ---\n5| bbbb\n'
+    );
+  });
+});
+
+describe("mapLineToOriginal", () => {
+  it("keeps lines in a shown range and maps small ones from the file's first section", () => {
+    const [, chunk] = planChunks(SECTIONS, 10);
+    assert.equal(mapLineToOriginal(chunk, "a.md", 5), 5);
+    assert.equal(mapLineToOriginal(chunk, "a.md", 1), 4);
+    assert.equal(mapLineToOriginal(chunk, "a.md", 2), undefined);
+    assert.equal(mapLineToOriginal(chunk, "c.md", 7), 7);
+    assert.equal(mapLineToOriginal(chunk, "a.md", undefined), undefined);
+  });
+});
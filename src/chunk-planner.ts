@@ -0,0 +1,158 @@
+import { isMarkdownFile } from "./link-checker.js";
+import type { SectionCoverage } from "./types.js";
+
+export interface DocumentSection {
+  file: string;
+  heading?: string;
+  // 1-based, inclusive line range in the original file
+  startLine: number;
+  endLine: number;
+  lines: string[];
+}
+
+export interface AnalysisChunk {
+  index: number;
+  sections: DocumentSection[];
+  estimatedTokens: number;
+}
+
+// Rough heuristic: about four characters per token for English prose and code
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function sectionTokens(section: DocumentSection): number {
+  // Each line is rendered with a line-number prefix in the prompt
+  return section.lines.reduce((total, line) => total + estimateTokens(line) + 2, 0);
+}
+
+export function splitIntoSections(file: string, content: string): DocumentSection[] {
+  const lines = content.split(/\r?\n/);
+  const sections: DocumentSection[] = [];
+
+  if (!isMarkdownFile(file)) {
+    return [{ file, startLine: 1, endLine: lines.length, lines }];
+  }
+
+  let current: DocumentSection = { file, startLine: 1, endLine: 1, lines: [] };
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : line.match(/^ {0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (heading && current.lines.length > 0) {
+      sections.push(current);
+      current = { file, heading: heading[1], startLine: i + 1, endLine: i + 1, lines: [] };
+    } else if (heading) {
+      current.heading = heading[1];
+    }
+
+    current.lines.push(line);
+    current.endLine = i + 1;
+  }
+
+  sections.push(current);
+  return sections;
+}
+
+// Splits a section that is too large for one pass on line boundaries
+function splitOversizedSection(section: DocumentSection, tokenBudget: number): DocumentSection[] {
+  if (sectionTokens(section) <= tokenBudget) {
+    return [section];
+  }
+
+  const pieces: DocumentSection[] = [];
+  let piece: DocumentSection = { ...section, endLine: section.startLine, lines: [] };
+  let pieceTokens = 0;
+
+  section.lines.forEach((line, offset) => {
+    const lineTokens = estimateTokens(line) + 2;
+    if (pieceTokens + lineTokens > tokenBudget && piece.lines.length > 0) {
+      pieces.push(piece);
+      piece = { ...section, startLine: section.startLine + offset, lines: [] };
+      pieceTokens = 0;
+    }
+    piece.lines.push(line);
+    piece.endLine = section.startLine + offset;
+    pieceTokens += lineTokens;
+  });
+
+  pieces.push(piece);
+  return pieces;
+}
+
+// Greedily packs sections, in file order, into chunks that fit the token budget
+export function planChunks(sections: DocumentSection[], tokenBudget: number): AnalysisChunk[] {
+  const chunks: AnalysisChunk[] = [];
+  let current: AnalysisChunk = { index: 0, sections: [], estimatedTokens: 0 };
+
+  for (const section of sections.flatMap((s) => splitOversizedSection(s, tokenBudget))) {
+    const tokens = sectionTokens(section);
+
+    if (current.estimatedTokens + tokens > tokenBudget && current.sections.length > 0) {
+      chunks.push(current);
+      current = { index: chunks.length, sections: [], estimatedTokens: 0 };
+    }
+
+    current.sections.push(section);
+    current.estimatedTokens += tokens;
+  }
+
+  if (current.sections.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+export function renderChunk(chunk: AnalysisChunk): string {
+  return chunk.sections
+    .map((section) => {
+      const label = section.heading ? `, section "${section.heading}"` : "";
+      const numbered = section.lines
+        .map((line, offset) => `${section.startLine + offset}| ${line}`)
+        .join("\n");
+      return `\n--- ${section.file} (lines ${section.startLine}-${section.endLine}${label}) ---\n${numbered}\n`;
+    })
+    .join("");
+}
+
+// Maps a model-reported line back to the original file. Lines inside a shown range are
+// already original line numbers; small numbers outside every range are treated as
+// offsets within the file's first section in the chunk.
+export function mapLineToOriginal(
+  chunk: AnalysisChunk,
+  file: string | undefined,
+  line: number | undefined
+): number | undefined {
+  if (!file || line === undefined) {
+    return line;
+  }
+
+  const fileSections = chunk.sections.filter((section) => section.file === file);
+  if (fileSections.length === 0) {
+    return line;
+  }
+
+  if (fileSections.some((section) => line >= section.startLine && line <= section.endLine)) {
+    return line;
+  }
+
+  const first = fileSections[0];
+  const mapped = first.startLine + line - 1;
+  return line >= 1 && mapped <= first.endLine ? mapped : undefined;
+}
+
+export function describeSections(sections: DocumentSection[]): SectionCoverage[] {
+  return sections.map((section) => ({
+    file: section.file,
+    ...(section.heading ? { heading: section.heading } : {}),
+    startLine: section.startLine,
+    endLine: section.endLine,
+  }));
+}
@@ -0,0 +1,83 @@
+import type { AnalysisResult, IssueLevel } from "./types.js";
+
+export const EXIT_CODES = {
+  success: 0,
+  issuesOverThreshold: 1,
+  analysisFailed: 2,
+  invalidInput: 3,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export interface GateOptions {
+  // Fail when any issue at or above this severity is reported
+  failOn?: IssueLevel;
+  // Fail when more than this many issues are reported
+  maxIssues?: number;
+}
+
+export interface GateResult {
+  passed: boolean;
+  exitCode: ExitCode;
+  reasons: string[];
+}
+
+const SEVERITIES_AT_OR_ABOVE: Record<IssueLevel, IssueLevel[]> = {
+  high: ["high"],
+  medium: ["high", "medium"],
+  low: ["high", "medium", "low"],
+};
+
+const SUMMARY_KEYS: Record<IssueLevel, "highSeverity" | "mediumSeverity" | "lowSeverity"> = {
+  high: "highSeverity",
+  medium: "mediumSeverity",
+  low: "lowSeverity",
+};
+
+// Works from the summary counts, which already leave out baselined and suppressed issues
+export function evaluateGate(analysisResult: AnalysisResult, options: GateOptions): GateResult {
+  if (analysisResult.status === "failed") {
+    return { passed: false, exitCode: EXIT_CODES.analysisFailed, reasons: ["analysis failed"] };
+  }
+
+  const { summary } = analysisResult;
+  const reasons: string[] = [];
+
+  if (options.failOn) {
+    const count = SEVERITIES_AT_OR_ABOVE[options.failOn].reduce(
+      (total, severity) => total + summary[SUMMARY_KEYS[severity]],
+      0
+    );
+    if (count > 0) {
+      reasons.push(`${count} issues at or above ${options.failOn} severity`);
+    }
+  }
+
+  if (options.maxIssues !== undefined && summary.totalIssues > options.maxIssues) {
+    reasons.push(`${summary.totalIssues} issues exceed the maximum of ${options.maxIssues}`);
+  }
+
+  return reasons.length > 0
+    ? { passed: false, exitCode: EXIT_CODES.issuesOverThreshold, reasons }
+    : { passed: true, exitCode: EXIT_CODES.success, reasons };
+}
+
+// One line meant to be the last thing a CI log shows
+export function formatCiSummary(analysisResult: AnalysisResult, gate: GateResult): string {
+  const { summary, baseline } = analysisResult;
+  const verdict =
+    gate.exitCode === EXIT_CODES.analysisFailed ? "ERROR" : gate.passed ? "PASS" : "FAIL";
+
+  let line = `docs-check: ${verdict} - ${summary.totalIssues} ${baseline ? "new " : ""}issues (${summary.highSeverity} high, ${summary.mediumSeverity} medium, ${summary.lowSeverity} low)`;
+  if (baseline) {
+    line += `, ${baseline.baselinedIssues.length} baselined, ${baseline.fixedIssues.length} fixed`;
+  }
+  if (analysisResult.status === "partial") {
+    line += ", analysis incomplete";
+  }
+  if (gate.reasons.length > 0) {
+    line += `: ${gate.reasons.join("; ")}`;
+  }
+
+  return line;
+}
@@ -1,43 +1,551 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
-import { DocumentationAnalyzer } from "./doc-analyzer.js";
-import { GitOperations } from "./git-operations.js";
-import type { AppConfig, CliOptions, GitHubRepository } from "./types.js";
+import { promises as fs } from "node:fs";
+import { resolve } from "node:path";
+import { Command, InvalidArgumentError } from "commander";
+import { BACKEND_NAMES, type BackendName } from "./analysis-backends.js";
+import { defaultCacheDirectory } from "./analysis-cache.js";
+import { type CheckDocumentationOptions, runDocsCheck } from "./check-documentation.js";
+import { EXIT_CODES, evaluateGate, formatCiSummary } from "./ci-gate.js";
+import { InputError } from "./errors.js";
+import {
+  HISTORY_OUTPUT_FORMATS,
+  type HistoryOutputFormat,
+  renderComparisonJson,
+  renderComparisonText,
+  renderHistoryJson,
+  renderHistoryText,
+} from "./history-reporter.js";
+import { ISSUE_LEVELS } from "./issue-schema.js";
+import { ORGANIZATION_REPORTERS } from "./org-reporter.js";
+import {
+  DEFAULT_REPOSITORY_CONCURRENCY,
+  type OrganizationSource,
+  parseRepositoryList,
+  scanOrganization,
+} from "./org-scan.js";
+import { isOutputFormat, OUTPUT_FORMATS, REPORTERS } from "./reporters.js";
+import { formatRepositoryName, resolveRepository } from "./repository-source.js";
+import { compareRuns, defaultHistoryDirectory, RunHistory } from "./run-history.js";
+import type {
+  AnalysisReport,
+  AnalysisResult,
+  CliOptions,
+  CommandName,
+  IssueLevel,
+  IssueType,
+  OrganizationProgressEvent,
+  OutputFormat,
+  ProgressEvent,
+} from "./types.js";
 
-function parseGitHubUrl(url: string): GitHubRepository {
-  const githubUrlPattern = /^https:\/\/github\.com\/([^/]+)\/([^/]+?)(?:\.git)?(?:\/.*)?$/;
-  const match = url.match(githubUrlPattern);
+// Options shared by every command
+interface SharedOptions {
+  outputFormat: OutputFormat;
+  output?: string;
+  quiet: boolean;
+  checkExternalLinks: boolean;
+  config?: string;
+  include?: string[];
+  exclude?: string[];
+  maxDocFiles?: number;
+  issueTypes?: string[];
+  githubApiUrl?: string;
+  backend: BackendName;
+  baseUrl?: string;
+  model?: string;
+  record?: string;
+  replay?: string;
+  agentTools: boolean;
+  cache: boolean;
+  cacheDir?: string;
+  history: boolean;
+  historyDir?: string;
+  maxBudgetUsd?: number;
+  maxTokens?: number;
+}
+
+interface CommandOptions extends SharedOptions {
+  dryRun?: boolean;
+  baseline?: string;
+  updateBaseline: boolean;
+  failOn?: IssueLevel;
+  maxIssues?: number;
+  base?: string;
+  head?: string;
+  pr?: number;
+}
+
+interface HistoryCommandOptions {
+  outputFormat: HistoryOutputFormat;
+  output?: string;
+  historyDir?: string;
+  limit: number;
+}
+
+interface ScanOrgCommandOptions extends SharedOptions {
+  repos?: string;
+  topic?: string[];
+  language?: string;
+  includeArchived: boolean;
+  includeForks: boolean;
+  concurrency: number;
+}
 
-  if (!match) {
-    throw new Error(`Invalid GitHub URL: ${url}`);
+function parseInteger(value: string): number {
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    throw new InvalidArgumentError(`Expected a number, got "${value}"`);
   }
+  return parsed;
+}
+
+function parseNonNegativeInteger(value: string): number {
+  const parsed = parseInteger(value);
+  if (parsed < 0) {
+    throw new InvalidArgumentError(`Expected zero or more, got "${value}"`);
+  }
+  return parsed;
+}
 
-  const [, owner, repo] = match;
+function parsePositiveInteger(value: string): number {
+  const parsed = parseInteger(value);
+  if (parsed <= 0) {
+    throw new InvalidArgumentError(`Expected a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parsePositiveAmount(value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError(`Expected a positive amount, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseOutputFormat(value: string): OutputFormat {
+  if (!isOutputFormat(value)) {
+    throw new InvalidArgumentError(`Expected one of ${OUTPUT_FORMATS.join(", ")}, got "${value}"`);
+  }
+  return value;
+}
+
+function parseHistoryOutputFormat(value: string): HistoryOutputFormat {
+  if (!HISTORY_OUTPUT_FORMATS.includes(value as HistoryOutputFormat)) {
+    throw new InvalidArgumentError(
+      `Expected one of ${HISTORY_OUTPUT_FORMATS.join(", ")}, got "${value}"`
+    );
+  }
+  return value as HistoryOutputFormat;
+}
+
+function parseBackendName(value: string): BackendName {
+  if (!BACKEND_NAMES.includes(value as BackendName)) {
+    throw new InvalidArgumentError(`Expected one of ${BACKEND_NAMES.join(", ")}, got "${value}"`);
+  }
+  return value as BackendName;
+}
+
+function parseIssueLevel(value: string): IssueLevel {
+  if (!ISSUE_LEVELS.includes(value as IssueLevel)) {
+    throw new InvalidArgumentError(`Expected one of ${ISSUE_LEVELS.join(", ")}, got "${value}"`);
+  }
+  return value as IssueLevel;
+}
+
+function addReportOptions(command: Command): Command {
+  return command
+    .option(
+      "--output-format <format>",
+      `Output format (${OUTPUT_FORMATS.join("|")})`,
+      parseOutputFormat,
+      "text"
+    )
+    .option("--output <path>", "Write the report to this file instead of stdout")
+    .option("--quiet", "Disable verbose logging", false)
+    .option("--check-external-links", "Also check that external http(s) links resolve", false)
+    .option("--config <path>", "Path to a docs-check.config.json file")
+    .option("--include <globs...>", "Only scan files matching these globs")
+    .option("--exclude <globs...>", "Skip files matching these globs")
+    .option("--max-doc-files <n>", "Maximum number of documentation files to analyze", parseInteger)
+    .option(
+      "--issue-types <types>",
+      "Comma-separated issue types to report (missing,outdated,unclear,broken-link)",
+      (value: string) => value.split(",").map((type) => type.trim())
+    );
+}
+
+function addBackendOptions(command: Command): Command {
+  return command
+    .option(
+      "--github-api-url <url>",
+      "GitHub REST API URL for GitHub Enterprise Server (default: $GITHUB_API_URL or https://api.github.com)"
+    )
+    .option(
+      "--backend <name>",
+      `Model backend (${BACKEND_NAMES.join("|")})`,
+      parseBackendName,
+      "claude-code"
+    )
+    .option("--base-url <url>", "Messages API base URL for the messages-api backend")
+    .option("--model <model>", "Model to use instead of the backend's default")
+    .option(
+      "--no-agent-tools",
+      "Give Claude Code no tools, so it only sees the files included in the prompt"
+    )
+    .option("--record <dir>", "Save every model response to this directory")
+    .option(
+      "--replay <dir>",
+      "Answer from responses saved with --record instead of calling a model"
+    )
+    .option(
+      "--max-budget-usd <amount>",
+      "Stop starting analysis passes once they have cost this much, and report partial results",
+      parsePositiveAmount
+    )
+    .option(
+      "--max-tokens <n>",
+      "Stop starting analysis passes once they have used this many tokens, and report partial results",
+      parsePositiveInteger
+    )
+    .option("--no-cache", "Analyze every pass again instead of reusing cached results")
+    .option(
+      "--cache-dir <dir>",
+      `Directory for cached analysis results (default: ${defaultCacheDirectory()})`
+    )
+    .option("--no-history", "Don't record this run in the run history")
+    .option(
+      "--history-dir <dir>",
+      `Directory for the run history (default: ${defaultHistoryDirectory()})`
+    );
+}
+
+function addHistoryOptions(command: Command): Command {
+  return command
+    .option(
+      "--output-format <format>",
+      `Output format (${HISTORY_OUTPUT_FORMATS.join("|")})`,
+      parseHistoryOutputFormat,
+      "text"
+    )
+    .option("--output <path>", "Write the report to this file instead of stdout")
+    .option(
+      "--history-dir <dir>",
+      `Directory for the run history (default: ${defaultHistoryDirectory()})`
+    );
+}
+
+function addAnalysisOptions(command: Command): Command {
+  addReportOptions(
+    command.argument("<repository>", "Local path or git remote URL of the repository to analyze")
+  );
+  command
+    .option(
+      "--baseline <path>",
+      "Baseline file of accepted issues (default: .docs-check-baseline.json in the repository)"
+    )
+    .option(
+      "--update-baseline",
+      "Accept every issue found in this run into the baseline file",
+      false
+    )
+    .option(
+      "--fail-on <severity>",
+      "Exit with code 1 if any issue at or above this severity is found (high|medium|low)",
+      parseIssueLevel
+    )
+    .option(
+      "--max-issues <n>",
+      "Exit with code 1 if more than this many issues are found",
+      parseNonNegativeInteger
+    );
+  return addBackendOptions(command);
+}
+
+function addScanOrgOptions(command: Command): Command {
+  addReportOptions(
+    command.argument("[owner]", "GitHub organization or user whose repositories to scan")
+  );
+  command
+    .option("--repos <file>", "Scan the repositories listed in this file (owner/repo per line)")
+    .option("--topic <topics...>", "Only scan repositories that have all of these topics")
+    .option("--language <language>", "Only scan repositories with this primary language")
+    .option("--include-archived", "Also scan archived repositories", false)
+    .option("--include-forks", "Also scan forks", false)
+    .option(
+      "--concurrency <n>",
+      "Number of repositories analyzed at the same time",
+      parsePositiveInteger,
+      DEFAULT_REPOSITORY_CONCURRENCY
+    );
+  return addBackendOptions(command);
+}
+
+// What every command passes to the analysis of a repository
+function toCheckOptions(options: SharedOptions): CheckDocumentationOptions {
   return {
-    owner,
-    repo,
-    url: `https://github.com/${owner}/${repo}.git`,
+    backend: options.backend,
+    ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+    ...(options.model ? { model: options.model } : {}),
+    agentTools: options.agentTools,
+    ...(options.record ? { record: options.record } : {}),
+    ...(options.replay ? { replay: options.replay } : {}),
+    ...(options.githubApiUrl ? { githubApiUrl: options.githubApiUrl } : {}),
+    ...(options.config ? { configPath: options.config } : {}),
+    overrides: {
+      ...(options.include ? { include: options.include } : {}),
+      ...(options.exclude ? { exclude: options.exclude } : {}),
+      ...(options.issueTypes ? { issueTypes: options.issueTypes as IssueType[] } : {}),
+      ...(options.maxDocFiles ? { limits: { maxDocFiles: options.maxDocFiles } } : {}),
+    },
+    cache: options.cache,
+    ...(options.cacheDir ? { cacheDirectory: options.cacheDir } : {}),
+    ...(options.history
+      ? { historyDirectory: options.historyDir ?? defaultHistoryDirectory() }
+      : {}),
+    ...(options.maxBudgetUsd || options.maxTokens
+      ? {
+          budget: {
+            ...(options.maxBudgetUsd ? { maxCostUsd: options.maxBudgetUsd } : {}),
+            ...(options.maxTokens ? { maxTokens: options.maxTokens } : {}),
+          },
+        }
+      : {}),
+    checkExternalLinks: options.checkExternalLinks,
   };
 }
 
-function getConfig(): AppConfig {
-  const githubToken = process.env.GITHUB_TOKEN;
-  const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
+async function writeReport(
+  rendered: string,
+  options: Pick<SharedOptions, "output" | "outputFormat"> & { quiet?: boolean }
+): Promise<void> {
+  if (options.output) {
+    await fs.writeFile(resolve(options.output), `${rendered}\n`, "utf-8");
+    if (!options.quiet && options.outputFormat !== "ndjson") {
+      console.log(`Wrote ${options.outputFormat} report to ${options.output}`);
+    }
+  } else {
+    console.log(rendered);
+  }
+}
 
-  if (!githubToken) {
-    throw new Error("GITHUB_TOKEN environment variable is required");
+// Runs `task` with a signal that the first Ctrl-C aborts, so temporary clones are still removed;
+// a second one exits
+async function withInterrupt<T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const abortController = new AbortController();
+  const interrupt = () => abortController.abort(new Error("Interrupted"));
+  process.once("SIGINT", interrupt);
+  try {
+    return await task(abortController.signal);
+  } finally {
+    process.removeListener("SIGINT", interrupt);
   }
+}
 
-  if (!anthropicApiKey) {
-    throw new Error("ANTHROPIC_API_KEY environment variable is required");
+function describeProgress(event: ProgressEvent): string {
+  switch (event.type) {
+    case "cloning":
+      return `Cloning repository to ${event.directory}...`;
+    case "local-checkout":
+      return `Using local checkout at ${event.path}...`;
+    case "diffing":
+      return `Computing changes between ${event.base} and ${event.head}...`;
+    case "scanning":
+      return `Analyzing documentation with the ${event.backend} backend...`;
+    case "pass-started":
+      return `Analysis pass ${event.pass} of ${event.totalPasses}...`;
+    case "pass-finished":
+      return event.error
+        ? `Pass ${event.pass} of ${event.totalPasses} failed: ${event.error}`
+        : `Pass ${event.pass} of ${event.totalPasses} found ${event.issues} issues${event.cached ? " (cached)" : ""}`;
+    case "parsing":
+      return `Verifying ${event.issues} reported issues...`;
+    case "baseline-updated":
+      return `Wrote ${event.issues} issues to baseline ${event.path}`;
+    case "history-recorded":
+      return `Recorded run ${event.runId} in ${event.path}`;
+    case "filing":
+      return event.dryRun
+        ? `Planning what ${event.command} would send to GitHub...`
+        : `Sending results to GitHub (${event.command})...`;
+    case "warning":
+      return `Warning: ${event.message}`;
   }
+}
 
-  return {
-    githubToken,
-    anthropicApiKey,
-    tempDirectory: "/tmp/docs-check",
+function describeOrganizationProgress(event: OrganizationProgressEvent): string {
+  switch (event.type) {
+    case "listing":
+      return `Found ${event.repositories} repositories to scan${event.filteredOut > 0 ? ` (${event.filteredOut} filtered out)` : ""}`;
+    case "repository-started":
+      return `[${event.index}/${event.total}] Scanning ${event.repository}...`;
+    case "repository-progress":
+      return `[${event.repository}] ${describeProgress(event.event)}`;
+    case "repository-finished":
+      return event.error
+        ? `[${event.index}/${event.total}] ${event.repository} failed: ${event.error}`
+        : `[${event.index}/${event.total}] ${event.repository}: ${event.issues} issues (${event.status})`;
+  }
+}
+
+async function runCommand(
+  commandName: CommandName,
+  repositoryInput: string,
+  options: CommandOptions
+): Promise<AnalysisResult> {
+  const cliOptions: CliOptions = {
+    outputFormat: options.outputFormat,
+    verbose: !options.quiet,
+    dryRun: options.dryRun ?? false,
+  };
+
+  // ndjson streams progress as events; other formats log it as text unless --quiet
+  const streamsEvents = cliOptions.outputFormat === "ndjson";
+  if (cliOptions.verbose && !streamsEvents) {
+    console.log("Starting documentation analysis...");
+    console.log(`Repository: ${repositoryInput}`);
+    console.log(`Options:`, cliOptions);
+  }
+
+  // Warnings go to stderr even with --quiet
+  const onProgress = (event: ProgressEvent) => {
+    if (streamsEvents) {
+      console.log(JSON.stringify(event));
+    } else if (event.type === "warning") {
+      console.warn(describeProgress(event));
+    } else if (cliOptions.verbose) {
+      console.log(describeProgress(event));
+    }
   };
+
+  const report: AnalysisReport = await withInterrupt((signal) =>
+    runDocsCheck(repositoryInput, {
+      ...toCheckOptions(options),
+      command: commandName,
+      dryRun: cliOptions.dryRun,
+      ...(options.baseline ? { baselinePath: options.baseline } : {}),
+      updateBaseline: options.updateBaseline,
+      ...(options.base ? { base: options.base } : {}),
+      ...(options.head ? { head: options.head } : {}),
+      ...(options.pr !== undefined ? { pullRequest: options.pr } : {}),
+      onProgress,
+      signal,
+    })
+  );
+
+  await writeReport(REPORTERS[cliOptions.outputFormat](report), options);
+
+  if (cliOptions.verbose && cliOptions.outputFormat === "text") {
+    console.log("\n✨ Analysis complete!");
+  }
+
+  return report.analysis;
+}
+
+// Returns whether at least one repository could be analyzed
+async function runScanOrg(
+  owner: string | undefined,
+  options: ScanOrgCommandOptions
+): Promise<boolean> {
+  const reporter = ORGANIZATION_REPORTERS[options.outputFormat];
+  if (!reporter) {
+    throw new InputError(
+      `scan-org supports ${Object.keys(ORGANIZATION_REPORTERS).join(", ")} output, not ${options.outputFormat}`
+    );
+  }
+  if (owner && options.repos) {
+    throw new InputError("Pass either an owner or --repos <file>, not both");
+  }
+
+  let source: OrganizationSource;
+  if (owner) {
+    source = { owner };
+  } else if (options.repos) {
+    let content: string;
+    try {
+      content = await fs.readFile(resolve(options.repos), "utf-8");
+    } catch (error) {
+      throw new InputError(
+        `Could not read ${options.repos}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    source = { repositories: parseRepositoryList(content) };
+  } else {
+    throw new InputError("scan-org needs an owner or --repos <file>");
+  }
+
+  const streamsEvents = options.outputFormat === "ndjson";
+  const onProgress = (event: OrganizationProgressEvent) => {
+    if (streamsEvents) {
+      console.log(JSON.stringify(event));
+    } else if (event.type === "repository-progress" && event.event.type === "warning") {
+      console.warn(describeOrganizationProgress(event));
+    } else if (!options.quiet) {
+      console.log(describeOrganizationProgress(event));
+    }
+  };
+
+  const report = await withInterrupt((signal) =>
+    scanOrganization(source, {
+      ...toCheckOptions(options),
+      concurrency: options.concurrency,
+      filters: {
+        ...(options.topic ? { topics: options.topic } : {}),
+        ...(options.language ? { language: options.language } : {}),
+        includeArchived: options.includeArchived,
+        includeForks: options.includeForks,
+      },
+      onProgress,
+      signal,
+    })
+  );
+
+  await writeReport(reporter(report), options);
+  const { summary } = report;
+  return summary.repositories === 0 || summary.failedRepositories < summary.repositories;
+}
+
+async function runHistory(repositoryInput: string, options: HistoryCommandOptions) {
+  const repository = formatRepositoryName(await resolveRepository(repositoryInput));
+  const history = new RunHistory(resolve(options.historyDir ?? defaultHistoryDirectory()));
+  const runs = (await history.list(repository)).slice(-options.limit);
+
+  await writeReport(
+    options.outputFormat === "json"
+      ? renderHistoryJson(repository, runs)
+      : renderHistoryText(repository, runs),
+    options
+  );
+}
+
+async function runCompare(
+  fromReference: string,
+  toReference: string,
+  options: HistoryCommandOptions
+) {
+  const history = new RunHistory(resolve(options.historyDir ?? defaultHistoryDirectory()));
+  const comparison = compareRuns(
+    await history.find(fromReference),
+    await history.find(toReference)
+  );
+
+  await writeReport(
+    options.outputFormat === "json"
+      ? renderComparisonJson(comparison)
+      : renderComparisonText(comparison),
+    options
+  );
+}
+
+// Commands that only read local state fail with bad input or an unexpected error, never a failed analysis
+async function runLocalCommand(task: () => Promise<void>): Promise<void> {
+  try {
+    await task();
+  } catch (error) {
+    console.error("❌ Error:", error instanceof Error ? error.message : String(error));
+    process.exit(error instanceof InputError ? EXIT_CODES.invalidInput : EXIT_CODES.analysisFailed);
+  }
 }
 
 async function main() {
@@ -47,92 +555,125 @@ async function main() {
     .name("docs-check")
     .description("Check documentation quality using Claude Code SDK and GitHub integration")
     .version("1.0.0")
-    .argument("<github-url>", "GitHub repository URL to analyze")
-    .option("--output-format <format>", "Output format (json|text)", "text")
-    .option("--quiet", "Disable verbose logging", false)
-    .parse();
+    // Unknown options and invalid values are bad input, not a failed analysis
+    .exitOverride((error) =>
+      process.exit(error.exitCode === 0 ? EXIT_CODES.success : EXIT_CODES.invalidInput)
+    );
 
-  try {
-    const githubUrl = program.args[0];
-    const options = program.opts() as {
-      outputFormat: "json" | "text";
-      quiet: boolean;
-    };
-
-    const cliOptions: CliOptions = {
-      outputFormat: options.outputFormat,
-      verbose: !options.quiet,
-    };
-
-    if (cliOptions.verbose) {
-      console.log("Starting documentation analysis...");
-      console.log(`Repository: ${githubUrl}`);
-      console.log(`Options:`, cliOptions);
-    }
-
-    const config = getConfig();
-    const repository = parseGitHubUrl(githubUrl);
+  const commands: { name: CommandName; description: string; writesToGitHub: boolean }[] = [
+    {
+      name: "analyze",
+      description: "Analyze documentation and print the results",
+      writesToGitHub: false,
+    },
+    {
+      name: "file-issues",
+      description: "Analyze documentation and file the findings as GitHub issues",
+      writesToGitHub: true,
+    },
+    {
+      name: "open-pr",
+      description: "Analyze documentation and open a pull request with automatic fixes",
+      writesToGitHub: true,
+    },
+    {
+      name: "review-pr",
+      description: "Review the docs a pull request affects and post the findings as one review",
+      writesToGitHub: true,
+    },
+  ];
 
-    // Initialize services
-    const gitOps = new GitOperations(config.tempDirectory);
-    const analyzer = new DocumentationAnalyzer(config.anthropicApiKey);
+  for (const { name, description, writesToGitHub } of commands) {
+    // `analyze` is the default so `docs-check <repository>` keeps working
+    const command = addAnalysisOptions(
+      program.command(name, name === "analyze" ? { isDefault: true } : {}).description(description)
+    );
 
-    // Clone repository
-    if (cliOptions.verbose) {
-      console.log(`Cloning repository to ${config.tempDirectory}...`);
+    // open-pr commits on the default branch of a fresh clone, so it always reviews everything,
+    // and review-pr takes its range from the pull request
+    if (name === "review-pr") {
+      command.requiredOption("--pr <number>", "Number of the pull request to review", parseInteger);
+    } else if (name !== "open-pr") {
+      command
+        .option("--base <ref>", "Only review docs affected by changes since this ref")
+        .option("--head <ref>", "End of the change range for --base (default: HEAD)");
     }
-    const repoPath = await gitOps.cloneRepository(repository.url);
 
-    // Analyze documentation
-    if (cliOptions.verbose) {
-      console.log("Analyzing documentation with Claude Code SDK...");
+    if (writesToGitHub) {
+      command.option(
+        "--dry-run",
+        "Print what would be sent to GitHub instead of sending it (no token required)",
+        false
+      );
     }
-    const analysisResult = await analyzer.analyzeDocumentation(repoPath, repository);
-
-    // Output results
-    if (cliOptions.outputFormat === "json") {
-      console.log(JSON.stringify(analysisResult, null, 2));
-    } else {
-      console.log(`\n📊 Documentation Analysis Results for ${repository.owner}/${repository.repo}`);
-      console.log(`${"-".repeat(50)}`);
-      console.log(`Total Issues: ${analysisResult.summary.totalIssues}`);
-      console.log(`High Severity: ${analysisResult.summary.highSeverity}`);
-      console.log(`Medium Severity: ${analysisResult.summary.mediumSeverity}`);
-      console.log(`Low Severity: ${analysisResult.summary.lowSeverity}`);
-
-      if (analysisResult.issues.length > 0) {
-        console.log(`\n📋 Issues Found:`);
-        for (const issue of analysisResult.issues) {
-          console.log(`
-[${issue.severity.toUpperCase()}] [${issue.effort.toUpperCase()} EFFORT] ${issue.title}`);
-          console.log(`Type: ${issue.type}`);
-          console.log(`Description: ${issue.description}`);
-          if (issue.file) {
-            console.log(`File: ${issue.file}${issue.line ? `:${issue.line}` : ""}`);
-          }
-          if (issue.suggestion) {
-            console.log(`Suggestion: ${issue.suggestion}`);
-          }
+
+    command.action(async (repositoryInput: string, options: CommandOptions) => {
+      try {
+        const analysisResult = await runCommand(name, repositoryInput, options);
+        const gate = evaluateGate(analysisResult, {
+          ...(options.failOn ? { failOn: options.failOn } : {}),
+          ...(options.maxIssues !== undefined ? { maxIssues: options.maxIssues } : {}),
+        });
+
+        // The summary goes to stderr when stdout carries a report in another format
+        const summaryLine = formatCiSummary(analysisResult, gate);
+        if (options.outputFormat === "text" || options.output) {
+          console.log(`\n${summaryLine}`);
+        } else {
+          console.error(summaryLine);
         }
+        process.exitCode = gate.exitCode;
+      } catch (error) {
+        console.error("❌ Error:", error instanceof Error ? error.message : String(error));
+        process.exit(
+          error instanceof InputError ? EXIT_CODES.invalidInput : EXIT_CODES.analysisFailed
+        );
       }
+    });
+  }
+
+  addScanOrgOptions(
+    program
+      .command("scan-org")
+      .description("Analyze many repositories and rank them by documentation health")
+  ).action(async (owner: string | undefined, options: ScanOrgCommandOptions) => {
+    try {
+      const anySucceeded = await runScanOrg(owner, options);
+      process.exitCode = anySucceeded ? EXIT_CODES.success : EXIT_CODES.analysisFailed;
+    } catch (error) {
+      console.error("❌ Error:", error instanceof Error ? error.message : String(error));
+      process.exit(
+        error instanceof InputError ? EXIT_CODES.invalidInput : EXIT_CODES.analysisFailed
+      );
     }
+  });
 
+  addHistoryOptions(
+    program
+      .command("history")
+      .description("Show how a repository's issue counts changed over recorded runs")
+      .argument("<repository>", "Local path or git remote URL of the repository")
+      .option("--limit <n>", "Show at most this many of the latest runs", parsePositiveInteger, 20)
+  ).action((repositoryInput: string, options: HistoryCommandOptions) =>
+    runLocalCommand(() => runHistory(repositoryInput, options))
+  );
 
-    // Cleanup
-    await gitOps.cleanup(repoPath);
+  addHistoryOptions(
+    program
+      .command("compare")
+      .description("List the issues that are new, resolved and persisting between two runs")
+      .argument("<runA>", "Earlier run: a run id or analyzed commit SHA, or a prefix of either")
+      .argument("<runB>", "Later run: a run id or analyzed commit SHA, or a prefix of either")
+  ).action((fromReference: string, toReference: string, options: HistoryCommandOptions) =>
+    runLocalCommand(() => runCompare(fromReference, toReference, options))
+  );
 
-    if (cliOptions.verbose) {
-      console.log("\n✨ Analysis complete!");
-    }
-  } catch (error) {
-    console.error("❌ Error:", error instanceof Error ? error.message : String(error));
-    process.exit(1);
-  }
+  await program.parseAsync();
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch((error) => {
     console.error("❌ Unexpected error:", error);
-    process.exit(1);
+    process.exit(EXIT_CODES.analysisFailed);
   });
 }
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { DEFAULT_CONFIG, loadConfig, matchesAnyGlob } from "./config.js";
+
+describe("loadConfig", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "docs-check-config-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("lets the repository lower its sandbox and budget limits but not raise them", async () => {
+    await writeFile(
+      join(directory, "docs-check.config.json"),
+      JSON.stringify({ limits: { maxAgentTurns: 500, maxPasses: 3, maxDocFiles: 500 } })
+    );
+    const configPath = join(directory, "trusted.json");
+    await writeFile(configPath, JSON.stringify({ limits: { agentTimeoutSeconds: 1200 } }));
+
+    const warnings: string[] = [];
+    const { limits } = await loadConfig(directory, {
+      configPath,
+      overrides: { limits: { concurrency: 8 } },
+      onWarning: (message) => warnings.push(message),
+    });
+    assert.equal(limits.maxAgentTurns, DEFAULT_CONFIG.limits.maxAgentTurns);
+    assert.match(
+      warnings[0],
+      /^Ignoring "limits\.maxAgentTurns": 500 from docs-check\.config\.json/
+    );
+    assert.equal(limits.maxPasses, 3);
+    // Scan scope is the repository's own business
+    assert.equal(limits.maxDocFiles, 500);
+    assert.equal(limits.agentTimeoutSeconds, 1200);
+    assert.equal(limits.concurrency, 8);
+  });
+
+  it("reports invalid options with the file they came from", async () => {
+    await writeFile(
+      join(directory, "docs-check.config.json"),
+      JSON.stringify({ issueTypes: ["typo"], limits: { maxPasses: 0 } })
+    );
+    await assert.rejects(
+      loadConfig(directory),
+      /docs-check\.config\.json:\n {2}- "issueTypes" must only contain[^\n]*\n {2}- "limits\.maxPasses" must be a positive integer/
+    );
+  });
+});
+
+describe("matchesAnyGlob", () => {
+  it("matches globstars, groups and directory names", () => {
+    assert.ok(matchesAnyGlob("docs/api/index.md", ["docs/**/*.md"]));
+    assert.ok(matchesAnyGlob("docs/index.md", ["docs/**/*.md"]));
+    assert.ok(matchesAnyGlob("README.rst", ["*.{md,rst}"]));
+    assert.ok(matchesAnyGlob("docs/archive/old.md", ["./docs/archive"]));
+    assert.ok(!matchesAnyGlob("src/docs.md", ["docs/**"]));
+  });
+});
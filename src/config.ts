@@ -0,0 +1,585 @@
+import { promises as fs } from "node:fs";
+import { join, resolve } from "node:path";
+import { InputError } from "./errors.js";
+import { ISSUE_LEVELS, ISSUE_TYPES } from "./issue-schema.js";
+import { ISSUE_TEMPLATE_FIELDS, ISSUE_TEMPLATE_PLACEHOLDER } from "./issue-utils.js";
+import type {
+  DocsCheckConfig,
+  GitHubIssueConfig,
+  IssueLevel,
+  IssueType,
+  LabelDefinition,
+  SeverityIssueSettings,
+} from "./types.js";
+
+export const CONFIG_FILE_NAMES = ["docs-check.config.json", ".docscheckrc"];
+
+export const DEFAULT_CONFIG: DocsCheckConfig = {
+  include: [],
+  exclude: [],
+  docExtensions: [],
+  skipDirectories: [
+    "node_modules",
+    ".git",
+    "dist",
+    "build",
+    ".next",
+    "coverage",
+    "target",
+    "__pycache__",
+  ],
+  severityOverrides: {},
+  issueTypes: [...ISSUE_TYPES],
+  limits: {
+    maxDocFiles: 50, // Avoids E2BIG when passing content to the SDK
+    maxCodeFiles: 50,
+    maxCodeFilesInPrompt: 30,
+    maxSymbolsInPrompt: 100,
+    maxProjectFileChars: 1000,
+    maxFileBytes: 1024 * 1024,
+    chunkTokenBudget: 12000,
+    maxPasses: 10,
+    concurrency: 2,
+    maxRepairAttempts: 2,
+    maxFixes: 10,
+    maxAgentTurns: 25,
+    agentTimeoutSeconds: 600,
+  },
+  github: {
+    provisionLabels: true,
+    labels: {
+      always: ["documentation"],
+      severity: {
+        high: ["priority: high", "bug"],
+        medium: ["enhancement"],
+        low: ["good first issue"],
+      },
+      type: {
+        missing: ["enhancement"],
+        outdated: ["maintenance"],
+        unclear: ["enhancement"],
+        "broken-link": ["bug"],
+      },
+      effort: {
+        high: ["effort: high"],
+        medium: ["effort: medium"],
+        low: ["effort: low"],
+      },
+    },
+    labelDefinitions: {
+      documentation: { color: "0075ca", description: "Improvements or additions to documentation" },
+      "priority: high": { color: "b60205", description: "Needs attention soon" },
+      bug: { color: "d73a4a", description: "Something isn't working" },
+      enhancement: { color: "a2eeef", description: "New feature or request" },
+      maintenance: { color: "fbca04", description: "Keeping existing content up to date" },
+      "good first issue": { color: "7057ff", description: "Good for newcomers" },
+      "effort: high": { color: "5319e7", description: "Likely a larger piece of work" },
+      "effort: medium": { color: "8b6fe8", description: "A moderate amount of work" },
+      "effort: low": { color: "c5b8f5", description: "A quick fix" },
+    },
+    issues: {},
+  },
+};
+
+// The analyzed repository is untrusted, so its own config may tighten these but not raise them;
+// only --config and command line options can
+export const TRUSTED_LIMITS = [
+  "maxAgentTurns",
+  "agentTimeoutSeconds",
+  "maxPasses",
+  "concurrency",
+  "chunkTokenBudget",
+  "maxRepairAttempts",
+] as const satisfies readonly (keyof DocsCheckConfig["limits"])[];
+
+// Labels without a definition are created in this color rather than GitHub's default grey
+export const DEFAULT_LABEL_COLOR = "c5def5";
+
+export interface GitHubConfigOverrides {
+  provisionLabels?: boolean;
+  labels?: {
+    always?: string[];
+    severity?: Partial<Record<IssueLevel, string[]>>;
+    type?: Partial<Record<IssueType, string[]>>;
+    effort?: Partial<Record<IssueLevel, string[]>>;
+  };
+  labelDefinitions?: Record<string, LabelDefinition>;
+  issues?: Partial<Record<IssueLevel, SeverityIssueSettings>>;
+}
+
+export type ConfigOverrides = Partial<Omit<DocsCheckConfig, "limits" | "github">> & {
+  limits?: Partial<DocsCheckConfig["limits"]>;
+  github?: GitHubConfigOverrides;
+};
+
+// Converts a glob (supporting **, *, ? and {a,b}) into an anchored regular expression
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories
+        if (glob[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i += 1;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      pattern += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      pattern += ")";
+    } else if (char === "," && inGroup) {
+      pattern += "|";
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  // A trailing slash or bare directory name also matches everything below it
+  return new RegExp(`^${pattern.replace(/\/$/, "")}(?:/.*)?$`);
+}
+
+export function matchesAnyGlob(filePath: string, globs: string[]): boolean {
+  const normalizedPath = filePath.replace(/\\/g, "/");
+  return globs.some((glob) => globToRegExp(glob.replace(/^\.\//, "")).test(normalizedPath));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Reads a map whose keys must come from `allowed` and whose values are label lists
+function validateLabelMap<K extends string>(
+  value: unknown,
+  allowed: readonly K[],
+  path: string,
+  errors: string[]
+): Partial<Record<K, string[]>> | undefined {
+  if (!isPlainObject(value)) {
+    errors.push(`"${path}" must map ${allowed.join(", ")} to arrays of labels`);
+    return undefined;
+  }
+
+  const labels: Partial<Record<K, string[]>> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!allowed.includes(key as K)) {
+      errors.push(`"${path}.${key}" is not one of ${allowed.join(", ")}`);
+    } else if (!isStringArray(entry)) {
+      errors.push(`"${path}.${key}" must be an array of labels`);
+    } else {
+      labels[key as K] = entry;
+    }
+  }
+  return labels;
+}
+
+function validateGitHubConfig(value: unknown, errors: string[]): GitHubConfigOverrides {
+  const github: GitHubConfigOverrides = {};
+
+  if (!isPlainObject(value)) {
+    errors.push(`"github" must be an object`);
+    return github;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!(key in DEFAULT_CONFIG.github)) {
+      errors.push(`"github.${key}" is not a recognised option`);
+    }
+  }
+
+  if (value.provisionLabels !== undefined) {
+    if (typeof value.provisionLabels === "boolean") {
+      github.provisionLabels = value.provisionLabels;
+    } else {
+      errors.push(`"github.provisionLabels" must be true or false`);
+    }
+  }
+
+  if (value.labels !== undefined) {
+    const labels = value.labels;
+    if (!isPlainObject(labels)) {
+      errors.push(`"github.labels" must be an object`);
+    } else {
+      github.labels = {};
+      for (const key of Object.keys(labels)) {
+        if (!(key in DEFAULT_CONFIG.github.labels)) {
+          errors.push(`"github.labels.${key}" is not a recognised option`);
+        }
+      }
+      if (labels.always !== undefined) {
+        if (isStringArray(labels.always)) {
+          github.labels.always = labels.always;
+        } else {
+          errors.push(`"github.labels.always" must be an array of labels`);
+        }
+      }
+      const severity =
+        labels.severity !== undefined
+          ? validateLabelMap(labels.severity, ISSUE_LEVELS, "github.labels.severity", errors)
+          : undefined;
+      const type =
+        labels.type !== undefined
+          ? validateLabelMap(labels.type, ISSUE_TYPES, "github.labels.type", errors)
+          : undefined;
+      const effort =
+        labels.effort !== undefined
+          ? validateLabelMap(labels.effort, ISSUE_LEVELS, "github.labels.effort", errors)
+          : undefined;
+      github.labels = {
+        ...github.labels,
+        ...(severity ? { severity } : {}),
+        ...(type ? { type } : {}),
+        ...(effort ? { effort } : {}),
+      };
+    }
+  }
+
+  if (value.labelDefinitions !== undefined) {
+    const definitions = value.labelDefinitions;
+    if (!isPlainObject(definitions)) {
+      errors.push(`"github.labelDefinitions" must map label names to { color, description }`);
+    } else {
+      github.labelDefinitions = {};
+      for (const [label, definition] of Object.entries(definitions)) {
+        const path = `github.labelDefinitions.${label}`;
+        if (!isPlainObject(definition)) {
+          errors.push(`"${path}" must be an object with a color`);
+        } else if (
+          typeof definition.color !== "string" ||
+          !/^#?[0-9a-fA-F]{6}$/.test(definition.color)
+        ) {
+          errors.push(`"${path}.color" must be a hex color such as "0075ca"`);
+        } else if (
+          definition.description !== undefined &&
+          typeof definition.description !== "string"
+        ) {
+          errors.push(`"${path}.description" must be a string`);
+        } else {
+          github.labelDefinitions[label] = {
+            color: definition.color.replace(/^#/, "").toLowerCase(),
+            ...(definition.description !== undefined
+              ? { description: definition.description }
+              : {}),
+          };
+        }
+      }
+    }
+  }
+
+  if (value.issues !== undefined) {
+    const issues = value.issues;
+    if (!isPlainObject(issues)) {
+      errors.push(`"github.issues" must map ${ISSUE_LEVELS.join(", ")} to issue settings`);
+    } else {
+      github.issues = {};
+      for (const [severity, settings] of Object.entries(issues)) {
+        const path = `github.issues.${severity}`;
+        if (!ISSUE_LEVELS.includes(severity as IssueLevel)) {
+          errors.push(`"${path}" is not one of ${ISSUE_LEVELS.join(", ")}`);
+          continue;
+        }
+        if (!isPlainObject(settings)) {
+          errors.push(`"${path}" must be an object`);
+          continue;
+        }
+
+        const validated: SeverityIssueSettings = {};
+        for (const [key, setting] of Object.entries(settings)) {
+          if (key === "assignees" && isStringArray(setting)) {
+            validated.assignees = setting;
+          } else if (
+            key === "milestone" &&
+            ((typeof setting === "number" && Number.isInteger(setting) && setting > 0) ||
+              (typeof setting === "string" && setting.length > 0))
+          ) {
+            validated.milestone = setting;
+          } else if (key === "template" && typeof setting === "string") {
+            const unknownFields = [...setting.matchAll(ISSUE_TEMPLATE_PLACEHOLDER)]
+              .map((match) => match[1])
+              .filter(
+                (field) =>
+                  !ISSUE_TEMPLATE_FIELDS.includes(field as (typeof ISSUE_TEMPLATE_FIELDS)[number])
+              );
+            if (unknownFields.length > 0) {
+              errors.push(
+                `"${path}.template" uses unknown fields ${unknownFields.join(", ")}; available: ${ISSUE_TEMPLATE_FIELDS.join(", ")}`
+              );
+            } else {
+              validated.template = setting;
+            }
+          } else if (key === "assignees") {
+            errors.push(`"${path}.assignees" must be an array of GitHub usernames`);
+          } else if (key === "milestone") {
+            errors.push(`"${path}.milestone" must be a milestone number or title`);
+          } else if (key === "template") {
+            errors.push(`"${path}.template" must be a string`);
+          } else {
+            errors.push(`"${path}.${key}" is not a recognised option`);
+          }
+        }
+        github.issues[severity as IssueLevel] = validated;
+      }
+    }
+  }
+
+  return github;
+}
+
+function validateConfig(raw: unknown, source: string): ConfigOverrides {
+  const errors: string[] = [];
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new InputError(`Invalid configuration in ${source}: expected a JSON object`);
+  }
+
+  const input = raw as Record<string, unknown>;
+  const config: ConfigOverrides = {};
+  const knownKeys = new Set([...Object.keys(DEFAULT_CONFIG), "$schema"]);
+
+  for (const key of Object.keys(input)) {
+    if (!knownKeys.has(key)) {
+      errors.push(`"${key}" is not a recognised option`);
+    }
+  }
+
+  for (const key of ["include", "exclude", "skipDirectories"] as const) {
+    if (input[key] === undefined) continue;
+    if (isStringArray(input[key])) {
+      config[key] = input[key];
+    } else {
+      errors.push(`"${key}" must be an array of strings`);
+    }
+  }
+
+  if (input.docExtensions !== undefined) {
+    if (
+      isStringArray(input.docExtensions) &&
+      input.docExtensions.every((extension) => /^\.[\w.-]+$/.test(extension))
+    ) {
+      config.docExtensions = input.docExtensions;
+    } else {
+      errors.push(`"docExtensions" must be an array of extensions such as ".mdx"`);
+    }
+  }
+
+  if (input.issueTypes !== undefined) {
+    if (
+      isStringArray(input.issueTypes) &&
+      input.issueTypes.every((type) => ISSUE_TYPES.includes(type as IssueType))
+    ) {
+      config.issueTypes = input.issueTypes as IssueType[];
+    } else {
+      errors.push(`"issueTypes" must only contain ${ISSUE_TYPES.join(", ")}`);
+    }
+  }
+
+  if (input.severityOverrides !== undefined) {
+    const overrides = input.severityOverrides;
+    if (typeof overrides !== "object" || overrides === null || Array.isArray(overrides)) {
+      errors.push(`"severityOverrides" must map globs to ${ISSUE_LEVELS.join(", ")}`);
+    } else {
+      const entries = Object.entries(overrides);
+      const invalid = entries.filter(
+        ([, severity]) => !ISSUE_LEVELS.includes(severity as IssueLevel)
+      );
+      for (const [glob, severity] of invalid) {
+        errors.push(
+          `"severityOverrides.${glob}" must be one of ${ISSUE_LEVELS.join(", ")}, got ${JSON.stringify(severity)}`
+        );
+      }
+      if (invalid.length === 0) {
+        config.severityOverrides = Object.fromEntries(entries) as Record<string, IssueLevel>;
+      }
+    }
+  }
+
+  if (input.limits !== undefined) {
+    const limits = input.limits;
+    if (typeof limits !== "object" || limits === null || Array.isArray(limits)) {
+      errors.push(`"limits" must be an object`);
+    } else {
+      config.limits = {};
+      for (const [key, value] of Object.entries(limits)) {
+        if (!(key in DEFAULT_CONFIG.limits)) {
+          errors.push(`"limits.${key}" is not a recognised limit`);
+        } else if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+          errors.push(`"limits.${key}" must be a positive integer`);
+        } else {
+          config.limits[key as keyof DocsCheckConfig["limits"]] = value;
+        }
+      }
+    }
+  }
+
+  if (input.github !== undefined) {
+    config.github = validateGitHubConfig(input.github, errors);
+  }
+
+  if (errors.length > 0) {
+    throw new InputError(
+      `Invalid configuration in ${source}:\n${errors.map((error) => `  - ${error}`).join("\n")}`
+    );
+  }
+
+  return config;
+}
+
+async function readConfigFile(filePath: string): Promise<ConfigOverrides> {
+  const content = await fs.readFile(filePath, "utf-8");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new InputError(
+      `Invalid configuration in ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return validateConfig(raw, filePath);
+}
+
+function mergeGitHubConfig(
+  base: GitHubIssueConfig,
+  override: GitHubConfigOverrides | undefined
+): GitHubIssueConfig {
+  if (!override) {
+    return base;
+  }
+
+  const issues = { ...base.issues };
+  for (const severity of ISSUE_LEVELS) {
+    const settings = override.issues?.[severity];
+    if (settings) {
+      issues[severity] = { ...issues[severity], ...settings };
+    }
+  }
+
+  return {
+    provisionLabels: override.provisionLabels ?? base.provisionLabels,
+    labels: {
+      always: override.labels?.always ?? base.labels.always,
+      severity: { ...base.labels.severity, ...override.labels?.severity },
+      type: { ...base.labels.type, ...override.labels?.type },
+      effort: { ...base.labels.effort, ...override.labels?.effort },
+    },
+    labelDefinitions: { ...base.labelDefinitions, ...override.labelDefinitions },
+    issues,
+  };
+}
+
+export function mergeConfig(
+  base: DocsCheckConfig,
+  ...overrides: ConfigOverrides[]
+): DocsCheckConfig {
+  let merged = base;
+
+  for (const override of overrides) {
+    merged = {
+      ...merged,
+      ...Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined)),
+      severityOverrides: { ...merged.severityOverrides, ...override.severityOverrides },
+      limits: { ...merged.limits, ...override.limits },
+      github: mergeGitHubConfig(merged.github, override.github),
+    };
+  }
+
+  return merged;
+}
+
+function capRepositoryLimits(
+  config: ConfigOverrides,
+  source: string,
+  onWarning: ((message: string) => void) | undefined
+): ConfigOverrides {
+  if (!config.limits) {
+    return config;
+  }
+
+  const limits = { ...config.limits };
+  for (const key of TRUSTED_LIMITS) {
+    const value = limits[key];
+    if (value !== undefined && value > DEFAULT_CONFIG.limits[key]) {
+      onWarning?.(
+        `Ignoring "limits.${key}": ${value} from ${source}; the repository's config can only lower it below ${DEFAULT_CONFIG.limits[key]}`
+      );
+      limits[key] = DEFAULT_CONFIG.limits[key];
+    }
+  }
+  return { ...config, limits };
+}
+
+// Precedence, lowest to highest: defaults, the analyzed repo's config, --config, CLI flags
+export async function loadConfig(
+  repoPath: string,
+  options: {
+    configPath?: string;
+    overrides?: ConfigOverrides;
+    onWarning?: (message: string) => void;
+  } = {}
+): Promise<DocsCheckConfig> {
+  const layers: ConfigOverrides[] = [];
+
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = join(repoPath, fileName);
+    try {
+      await fs.access(filePath);
+    } catch {
+      continue;
+    }
+    layers.push(capRepositoryLimits(await readConfigFile(filePath), fileName, options.onWarning));
+    break;
+  }
+
+  if (options.configPath) {
+    try {
+      layers.push(await readConfigFile(resolve(options.configPath)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new InputError(`Configuration file not found: ${options.configPath}`);
+      }
+      throw error;
+    }
+  }
+
+  if (options.overrides) {
+    layers.push(validateConfig(options.overrides, "command line options"));
+  }
+
+  return mergeConfig(DEFAULT_CONFIG, ...layers);
+}
+
+export function resolveSeverityOverride(
+  config: DocsCheckConfig,
+  filePath: string | undefined
+): IssueLevel | undefined {
+  if (!filePath) {
+    return undefined;
+  }
+
+  // Later entries win, so specific globs can follow broad ones
+  let severity: IssueLevel | undefined;
+  for (const [glob, level] of Object.entries(config.severityOverrides)) {
+    if (matchesAnyGlob(filePath, [glob])) {
+      severity = level;
+    }
+  }
+  return severity;
+}
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { simpleGit } from "simple-git";
+import { buildDiffScope, parseCommentableLines, parseDiffLines } from "./diff-scope.js";
+import { GitOperations } from "./git-operations.js";
+
+const GIT_CONFIG = ["user.name=docs-check", "user.email=docs-check@example.com"];
+
+const PATCH = [
+  "diff --git a/README.md b/README.md",
+  "index 1111111..2222222 100644",
+  "--- a/README.md",
+  "+++ b/README.md",
+  "@@ -2,4 +2,5 @@ # Tool",
+  " ",
+  "-Run `tool --fast`.",
+  "+Run `tool --quick`.",
+  "++++ Not a file header",
+  " ",
+  " ## Options",
+  "@@ -20 +21 @@",
+  "-old",
+  "\\ No newline at end of file",
+  "+new",
+  "\\ No newline at end of file",
+  "diff --git a/docs/old.md b/docs/old.md",
+  "deleted file mode 100644",
+  "--- a/docs/old.md",
+  "+++ /dev/null",
+  "@@ -1,2 +0,0 @@",
+  "-# Old",
+  "--- Not a file header either",
+  "",
+].join("\n");
+
+describe("diff line mapping", () => {
+  it("numbers added and context lines on the head side of each hunk", () => {
+    assert.deepEqual(parseDiffLines(PATCH), {
+      added: { "README.md": [3, 4, 21] },
+      context: { "README.md": [2, 5, 6] },
+    });
+    assert.deepEqual(parseCommentableLines(PATCH), { "README.md": [2, 3, 4, 5, 6, 21] });
+  });
+});
+
+describe("buildDiffScope on a local checkout", () => {
+  let directory: string;
+  let checkout: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "docs-check-diff-"));
+    const upstream = join(directory, "upstream");
+    checkout = join(directory, "checkout");
+
+    const upstreamGit = simpleGit({ config: GIT_CONFIG });
+    await upstreamGit.init(["--initial-branch=main", upstream]);
+    await upstreamGit.cwd(upstream);
+    await writeFile(join(upstream, "README.md"), "# Tool\n\nRun `tool --fast`.\n");
+    await upstreamGit.add(".");
+    await upstreamGit.commit("Initial commit");
+
+    await simpleGit().clone(upstream, checkout);
+    const checkoutGit = simpleGit(checkout, { config: GIT_CONFIG });
+    await writeFile(join(checkout, "README.md"), "# Tool\n\nRun `tool --quick`.\n");
+    await checkoutGit.commit("Rename the flag", ["README.md"]);
+
+    // A branch the checkout has never fetched
+    await upstreamGit.checkoutLocalBranch("unfetched");
+    await writeFile(join(upstream, "CHANGELOG.md"), "# Changes\n");
+    await upstreamGit.add(".");
+    await upstreamGit.commit("Add a changelog");
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("diffs refs the checkout already has", async () => {
+    const scope = await buildDiffScope(
+      new GitOperations(directory),
+      checkout,
+      "HEAD~1",
+      "HEAD",
+      false
+    );
+    assert.deepEqual(scope.changedFiles, [{ path: "README.md", status: "modified" }]);
+    assert.deepEqual(scope.addedLines, { "README.md": [3] });
+  });
+
+  it("doesn't fetch missing refs or leave refs behind", async () => {
+    await assert.rejects(
+      buildDiffScope(new GitOperations(directory), checkout, "unfetched", "HEAD", false),
+      /Could not resolve unfetched; fetch it into the checkout first/
+    );
+
+    const refs = await simpleGit(checkout).raw(["for-each-ref", "--format=%(refname)"]);
+    assert.deepEqual(refs.trim().split("\n").sort(), [
+      "refs/heads/main",
+      "refs/remotes/origin/HEAD",
+      "refs/remotes/origin/main",
+    ]);
+  });
+});
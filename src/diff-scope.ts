@@ -0,0 +1,285 @@
+import { basename, extname } from "node:path";
+import { estimateTokens } from "./chunk-planner.js";
+import { InputError } from "./errors.js";
+import type { GitOperations } from "./git-operations.js";
+import type { AffectedDoc, ChangedFile, DiffScope, DocumentationIssue } from "./types.js";
+
+// Identifiers shorter than this match too much prose to be a useful signal
+const MIN_SYMBOL_LENGTH = 4;
+const MAX_SYMBOLS = 200;
+
+const DEFINITION_PATTERN =
+  /\b(?:function|class|interface|type|enum|def|func|fn|struct|trait|module|const|let|var)\s+([A-Za-z_$][\w$]*)/g;
+const FLAG_PATTERN = /(?<![\w-])(--[a-z][a-z0-9-]+)/g;
+
+const STATUS_CODES: Record<string, ChangedFile["status"]> = {
+  A: "added",
+  M: "modified",
+  D: "deleted",
+  R: "renamed",
+  C: "added",
+  T: "modified",
+};
+
+// Parses `git diff --name-status -M` output
+export function parseNameStatus(output: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const [code, ...paths] = line.split("\t");
+    const status = code ? STATUS_CODES[code[0]] : undefined;
+    if (!status || paths.length === 0) continue;
+
+    if (paths.length === 2) {
+      files.push(
+        status === "renamed"
+          ? { path: paths[1], status, previousPath: paths[0] }
+          : { path: paths[1], status }
+      );
+    } else {
+      files.push({ path: paths[0], status });
+    }
+  }
+
+  return files;
+}
+
+// Head-side line numbers in each hunk, by file
+export interface DiffLines {
+  // Added or modified lines
+  added: Record<string, number[]>;
+  // Unchanged lines shown around them
+  context: Record<string, number[]>;
+}
+
+// Walks the hunks of a unified diff, using their line counts so added lines that look like
+// file headers, such as "++ b", are still read as content
+export function parseDiffLines(patch: string): DiffLines {
+  const lines: DiffLines = { added: {}, context: {} };
+  let file: string | null = null;
+  let line = 0;
+  // Lines of the current hunk still to come on the base and head sides
+  let baseRemaining = 0;
+  let headRemaining = 0;
+
+  const record = (byFile: Record<string, number[]>) => {
+    if (!file) return;
+    const fileLines = byFile[file] ?? [];
+    fileLines.push(line);
+    byFile[file] = fileLines;
+  };
+
+  for (const text of patch.split("\n")) {
+    if (baseRemaining > 0 || headRemaining > 0) {
+      if (text.startsWith("+")) {
+        record(lines.added);
+        line++;
+        headRemaining--;
+      } else if (text.startsWith("-")) {
+        baseRemaining--;
+      } else if (!text.startsWith("\\")) {
+        record(lines.context);
+        line++;
+        baseRemaining--;
+        headRemaining--;
+      }
+      continue;
+    }
+
+    if (text.startsWith("+++ ")) {
+      file = text === "+++ /dev/null" ? null : text.slice(4).replace(/^b\//, "");
+      continue;
+    }
+
+    const hunk = text.match(/^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk) {
+      baseRemaining = hunk[1] === undefined ? 1 : Number.parseInt(hunk[1], 10);
+      line = Number.parseInt(hunk[2], 10);
+      headRemaining = hunk[3] === undefined ? 1 : Number.parseInt(hunk[3], 10);
+    }
+  }
+
+  return lines;
+}
+
+export function parseAddedLines(patch: string): Record<string, number[]> {
+  return parseDiffLines(patch).added;
+}
+
+// Head-side lines inside each hunk, added or context, which is where a pull request review
+// can place inline comments
+export function parseCommentableLines(patch: string): Record<string, number[]> {
+  const { added, context } = parseDiffLines(patch);
+  const commentableLines: Record<string, number[]> = {};
+  for (const file of new Set([...Object.keys(added), ...Object.keys(context)])) {
+    commentableLines[file] = [...(added[file] ?? []), ...(context[file] ?? [])].sort(
+      (a, b) => a - b
+    );
+  }
+  return commentableLines;
+}
+
+// Names defined or removed on changed lines of non-documentation files, plus CLI flags,
+// which are what docs most often quote
+export function extractChangedSymbols(
+  patch: string,
+  isDocumentationFile: (file: string) => boolean
+): string[] {
+  const symbols = new Set<string>();
+  let inCodeFile = false;
+
+  for (const text of patch.split("\n")) {
+    if (text.startsWith("diff --git ")) {
+      const file = text.split(" b/").pop() ?? "";
+      inCodeFile = !isDocumentationFile(file);
+      continue;
+    }
+    if (!inCodeFile || text.startsWith("+++ ") || text.startsWith("--- ")) continue;
+
+    // Hunk headers carry the enclosing function, which is often the changed symbol
+    const changed = text.startsWith("@@")
+      ? text.replace(/^@@[^@]*@@/, "")
+      : text.startsWith("+") || text.startsWith("-")
+        ? text.slice(1)
+        : "";
+
+    for (const match of changed.matchAll(DEFINITION_PATTERN)) {
+      if (match[1].length >= MIN_SYMBOL_LENGTH) symbols.add(match[1]);
+    }
+    for (const match of changed.matchAll(FLAG_PATTERN)) {
+      symbols.add(match[1]);
+    }
+  }
+
+  return [...symbols].slice(0, MAX_SYMBOLS);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function codePathReferences(file: ChangedFile): string[] {
+  const paths = [file.path, ...(file.previousPath ? [file.previousPath] : [])];
+  return paths.flatMap((path) => {
+    const withoutExtension = path.slice(0, path.length - extname(path).length);
+    return [path, withoutExtension, basename(path)].filter(
+      (reference) => reference.length >= MIN_SYMBOL_LENGTH
+    );
+  });
+}
+
+// Selects docs that were changed by the diff or mention a changed code path or symbol
+export function findAffectedDocs(
+  documentationContent: Record<string, string>,
+  scope: DiffScope,
+  isDocumentationFile: (file: string) => boolean
+): AffectedDoc[] {
+  const changedDocs = new Set(
+    scope.changedFiles
+      .filter((file) => file.status !== "deleted" && isDocumentationFile(file.path))
+      .map((file) => file.path)
+  );
+  const references = [
+    ...scope.changedFiles
+      .filter((file) => !isDocumentationFile(file.path))
+      .flatMap(codePathReferences),
+    ...extractChangedSymbols(scope.patch, isDocumentationFile),
+  ];
+  const patterns = [...new Set(references)].map((reference) => ({
+    reference,
+    pattern: new RegExp(`(?<![\\w/-])${escapeRegExp(reference)}(?![\\w-])`),
+  }));
+
+  const affected: AffectedDoc[] = [];
+  for (const [file, content] of Object.entries(documentationContent)) {
+    const reasons = changedDocs.has(file) ? ["changed in this diff"] : [];
+    for (const { reference, pattern } of patterns) {
+      if (pattern.test(content)) {
+        reasons.push(`references \`${reference}\``);
+      }
+    }
+    if (reasons.length > 0) {
+      affected.push({ file, reasons });
+    }
+  }
+
+  return affected;
+}
+
+// Keeps whole file diffs while they fit, so the model never sees half a hunk
+export function renderPatchForPrompt(patch: string, tokenBudget: number): string {
+  const fileDiffs = patch.split(/(?=^diff --git )/m);
+  const kept: string[] = [];
+  let used = 0;
+
+  for (const fileDiff of fileDiffs) {
+    const tokens = estimateTokens(fileDiff);
+    if (used + tokens > tokenBudget) {
+      kept.push(`[${fileDiffs.length - kept.length} more changed files omitted]\n`);
+      break;
+    }
+    kept.push(fileDiff);
+    used += tokens;
+  }
+
+  return kept.join("");
+}
+
+// An issue on a line the diff added, or a broken link to a path the diff removed, was caused
+// by the change regardless of what the model said
+export function markIntroducedIssues(
+  issues: DocumentationIssue[],
+  scope: DiffScope
+): DocumentationIssue[] {
+  const removedPaths = scope.changedFiles.flatMap((file) =>
+    file.status === "deleted" ? [file.path] : file.previousPath ? [file.previousPath] : []
+  );
+
+  return issues.map((issue) => {
+    const onAddedLine =
+      issue.file !== undefined &&
+      issue.line !== undefined &&
+      (scope.addedLines[issue.file] ?? []).includes(issue.line);
+    const linksRemovedPath =
+      issue.type === "broken-link" &&
+      removedPaths.some((path) => issue.title.includes(basename(path)));
+
+    return {
+      ...issue,
+      introducedByDiff: onAddedLine || linksRemovedPath || (issue.introducedByDiff ?? false),
+    };
+  });
+}
+
+// Resolves the range, fetching and checking out `head` only in fresh clones, and collects the
+// changed files and patch
+export async function buildDiffScope(
+  gitOps: GitOperations,
+  repoPath: string,
+  base: string,
+  head: string,
+  isFreshClone: boolean
+): Promise<DiffScope> {
+  const range = await gitOps.prepareDiffRange(repoPath, base, head, isFreshClone);
+
+  const current = await gitOps.getHeadCommit(repoPath);
+  if (range.head !== current) {
+    if (!isFreshClone) {
+      throw new InputError(
+        `${head} is not checked out; check it out first or pass the repository's remote URL`
+      );
+    }
+    await gitOps.checkoutCommit(repoPath, range.head);
+  }
+
+  const patch = await gitOps.getDiff(repoPath, range.mergeBase, range.head);
+
+  return {
+    ...range,
+    changedFiles: parseNameStatus(
+      await gitOps.getChangedFiles(repoPath, range.mergeBase, range.head)
+    ),
+    patch,
+    addedLines: parseAddedLines(patch),
+  };
+}
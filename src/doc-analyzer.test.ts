@@ -0,0 +1,259 @@
+import assert from "node:assert/strict";
+import { appendFile, cp, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { simpleGit } from "simple-git";
+import { ReplayBackend } from "./analysis-backends.js";
+import { AnalysisCache } from "./analysis-cache.js";
+import { DEFAULT_CONFIG, mergeConfig } from "./config.js";
+import { DocumentationAnalyzer } from "./doc-analyzer.js";
+import type { AnalysisBackend, ProgressEvent, Repository } from "./types.js";
+
+// Responses recorded with --record against src/__fixtures__/sample-repo. Any change to the
+// prompts needs a new recording, which replay reports as a missing response.
+const FIXTURES = fileURLToPath(new URL("./__fixtures__/", import.meta.url));
+const RECORDINGS = join(FIXTURES, "recordings");
+
+describe("DocumentationAnalyzer with replayed responses", () => {
+  let repoPath: string;
+  let repository: Repository;
+
+  // A copy outside this repository, so git doesn't report this repository's commit
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-test-"));
+    await cp(join(FIXTURES, "sample-repo"), repoPath, { recursive: true });
+    repository = {
+      source: "local",
+      host: "unknown",
+      repo: "sample-repo",
+      url: repoPath,
+      localPath: repoPath,
+    };
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("reports grounded issues from the response and the link checker", async () => {
+    const analyzer = new DocumentationAnalyzer(new ReplayBackend(RECORDINGS));
+    const result = await analyzer.analyzeDocumentation(repoPath, repository);
+
+    assert.equal(result.status, "complete");
+    assert.deepEqual(result.failures, []);
+    assert.deepEqual(result.summary, {
+      totalIssues: 3,
+      highSeverity: 1,
+      mediumSeverity: 2,
+      lowSeverity: 0,
+    });
+
+    const [flagExample] = result.issues;
+    assert.equal(flagExample.title, "Usage example uses the removed --loud flag");
+    assert.equal(flagExample.file, "README.md");
+    assert.equal(flagExample.line, 8);
+    assert.match(flagExample.snippet ?? "", /greet Ada --loud/);
+    assert.match(flagExample.fingerprint ?? "", /^[0-9a-f]{16}$/);
+
+    const brokenLink = result.issues.find((issue) => issue.type === "broken-link");
+    assert.equal(brokenLink?.file, "README.md");
+    assert.match(brokenLink?.title ?? "", /CHANGELOG\.md/);
+
+    // The response also names docs/usage.md, which doesn't exist
+    assert.equal(result.ungroundedIssues, 1);
+    assert.ok(result.issues.every((issue) => issue.file !== "docs/usage.md"));
+  });
+
+  it("repairs an unparseable response", async () => {
+    const analyzer = new DocumentationAnalyzer(new ReplayBackend(RECORDINGS), {
+      config: mergeConfig(DEFAULT_CONFIG, { issueTypes: ["outdated"] }),
+    });
+    const result = await analyzer.analyzeDocumentation(repoPath, repository);
+
+    assert.equal(result.status, "complete");
+    assert.deepEqual(
+      result.issues.map((issue) => issue.title),
+      ["Usage example uses the removed --loud flag"]
+    );
+  });
+
+  it("fails the analysis when no response was recorded for a prompt", async () => {
+    const analyzer = new DocumentationAnalyzer(new ReplayBackend(RECORDINGS), {
+      config: mergeConfig(DEFAULT_CONFIG, { issueTypes: ["unclear"] }),
+    });
+    const result = await analyzer.analyzeDocumentation(repoPath, repository);
+
+    assert.equal(result.status, "failed");
+    assert.match(result.failures[0]?.message ?? "", /No recorded response for prompt/);
+    assert.equal(result.summary.totalIssues, 0);
+  });
+
+  it("skips the remaining passes once the token budget is used up", async () => {
+    const backend: AnalysisBackend = {
+      name: "scripted",
+      model: "scripted",
+      async *query() {
+        yield { type: "usage", usage: { inputTokens: 900, outputTokens: 100, turns: 1 } };
+        yield { type: "result", text: "[]" };
+      },
+    };
+    // A tiny per-pass budget puts each section of the sample docs in a pass of its own
+    const analyzer = new DocumentationAnalyzer(backend, {
+      config: mergeConfig(DEFAULT_CONFIG, {
+        issueTypes: ["outdated"],
+        limits: { chunkTokenBudget: 50, concurrency: 1 },
+      }),
+      budget: { maxTokens: 1500 },
+    });
+    const result = await analyzer.analyzeDocumentation(repoPath, repository);
+
+    assert.equal(result.status, "partial");
+    assert.equal(result.usage.passes.length, 2);
+    assert.equal(result.usage.inputTokens + result.usage.outputTokens, 2000);
+    assert.match(result.usage.budgetExceeded ?? "", /2000 tokens of the 1500 token budget/);
+    assert.ok(result.coverage.passes > 2);
+    assert.match(result.failures[0]?.message ?? "", /analysis budget ran out/);
+  });
+
+  it("reports a run that left docs over after maxPasses as partial", async () => {
+    const backend: AnalysisBackend = {
+      name: "scripted",
+      model: "scripted",
+      async *query() {
+        yield { type: "result", text: "[]" };
+      },
+    };
+    const analyzer = new DocumentationAnalyzer(backend, {
+      config: mergeConfig(DEFAULT_CONFIG, {
+        issueTypes: ["outdated"],
+        limits: { chunkTokenBudget: 50, maxPasses: 1 },
+      }),
+    });
+    const result = await analyzer.analyzeDocumentation(repoPath, repository);
+
+    assert.equal(result.status, "partial");
+    assert.deepEqual(result.failures, []);
+    assert.equal(result.coverage.passes, 1);
+    assert.ok(result.coverage.unreviewedSections.length > 0);
+  });
+
+  it("scopes include globs to the docs and keeps the code as context", async () => {
+    const prompts: string[] = [];
+    const backend: AnalysisBackend = {
+      name: "scripted",
+      model: "scripted",
+      async *query({ prompt }) {
+        prompts.push(prompt);
+        yield { type: "result", text: "[]" };
+      },
+    };
+    const analyzer = new DocumentationAnalyzer(backend, {
+      config: mergeConfig(DEFAULT_CONFIG, { issueTypes: ["outdated"], include: ["docs/**"] }),
+    });
+    const result = await analyzer.analyzeDocumentation(repoPath, repository);
+
+    assert.deepEqual(result.coverage.narrowedBy, ["issueTypes", "include"]);
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0], /--- docs\/guide\.md/);
+    assert.doesNotMatch(prompts[0], /--- README\.md/);
+    assert.match(prompts[0], /Code Files:\n(.*\n)*lib\/cli\.js/);
+    assert.match(prompts[0], /\npackage\.json:\n/);
+  });
+
+  it("reuses cached passes without querying the backend again", async () => {
+    const cacheDirectory = await mkdtemp(join(tmpdir(), "docs-check-cache-"));
+    try {
+      const first = await new DocumentationAnalyzer(new ReplayBackend(RECORDINGS), {
+        cache: new AnalysisCache(cacheDirectory),
+      }).analyzeDocumentation(repoPath, repository);
+
+      // No recordings at all, so any query would fail the pass
+      const second = await new DocumentationAnalyzer(new ReplayBackend(cacheDirectory), {
+        cache: new AnalysisCache(cacheDirectory),
+      }).analyzeDocumentation(repoPath, repository);
+
+      assert.deepEqual(first.cache, { hits: 0, misses: 1 });
+      assert.deepEqual(second.cache, { hits: 1, misses: 0 });
+      assert.equal(second.status, "complete");
+      assert.deepEqual(second.issues, first.issues);
+    } finally {
+      await rm(cacheDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it("ties cached passes of a backend that reads files to the checkout's contents", async () => {
+    const workDirectory = await mkdtemp(join(tmpdir(), "docs-check-cache-"));
+    try {
+      const checkout = join(workDirectory, "checkout");
+      await cp(join(FIXTURES, "sample-repo"), checkout, { recursive: true });
+      const git = simpleGit(checkout, {
+        config: ["user.name=docs-check", "user.email=docs-check@example.com"],
+      });
+      await git.init();
+      await git.add(".");
+      await git.commit("Initial commit");
+
+      let queries = 0;
+      const agent: AnalysisBackend = {
+        name: "scripted",
+        model: "scripted",
+        readsRepository: true,
+        async *query() {
+          queries++;
+          yield { type: "result", text: "[]" };
+        },
+      };
+      const analyze = () =>
+        new DocumentationAnalyzer(agent, {
+          config: mergeConfig(DEFAULT_CONFIG, { issueTypes: ["outdated"] }),
+          cache: new AnalysisCache(join(workDirectory, "cache")),
+        }).analyzeDocumentation(checkout, { ...repository, url: checkout, localPath: checkout });
+
+      await analyze();
+      await analyze();
+      assert.equal(queries, 1);
+
+      // The prompt doesn't change, but the code the agent can read does
+      await appendFile(join(checkout, "lib", "cli.js"), "\n// changed\n");
+      assert.deepEqual((await analyze()).cache, { hits: 0, misses: 1 });
+      assert.equal(queries, 2);
+    } finally {
+      await rm(workDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it("reports skipped caching as a warning event", async () => {
+    const cacheDirectory = await mkdtemp(join(tmpdir(), "docs-check-cache-"));
+    try {
+      const events: ProgressEvent[] = [];
+      const agent: AnalysisBackend = {
+        name: "scripted",
+        model: "scripted",
+        readsRepository: true,
+        async *query() {
+          yield { type: "result", text: "[]" };
+        },
+      };
+      const result = await new DocumentationAnalyzer(agent, {
+        config: mergeConfig(DEFAULT_CONFIG, { issueTypes: ["outdated"] }),
+        cache: new AnalysisCache(cacheDirectory),
+        onProgress: (event) => events.push(event),
+      }).analyzeDocumentation(repoPath, repository);
+
+      assert.equal(result.status, "complete");
+      assert.deepEqual(
+        events.filter((event) => event.type === "warning"),
+        [
+          {
+            type: "warning",
+            message: "Not caching analysis passes for a directory that is not a git checkout",
+          },
+        ]
+      );
+    } finally {
+      await rm(cacheDirectory, { recursive: true, force: true });
+    }
+  });
+});
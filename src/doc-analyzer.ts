@@ -1,27 +1,222 @@
 import { promises as fs } from "node:fs";
 import { join, relative } from "node:path";
-import { query } from "@anthropic-ai/claude-code";
-import type { AnalysisResult, DocumentationIssue, GitHubRepository } from "./types.js";
+import { runQuery } from "./analysis-backends.js";
+import { analysisCacheKey } from "./analysis-cache.js";
+import {
+  apiCoverage,
+  describeApiSurface,
+  findEntryPoints,
+  findExportedSymbols,
+  isMentioned,
+  undocumentedSymbolToIssue,
+} from "./api-surface.js";
+import { applyBaseline, applyInlineIgnores } from "./baseline.js";
+import {
+  type AnalysisChunk,
+  describeSections,
+  estimateTokens,
+  mapLineToOriginal,
+  planChunks,
+  renderChunk,
+  splitIntoSections,
+} from "./chunk-planner.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { DEFAULT_CONFIG, matchesAnyGlob, resolveSeverityOverride } from "./config.js";
+import { findAffectedDocs, markIntroducedIssues, renderPatchForPrompt } from "./diff-scope.js";
+import { GitOperations } from "./git-operations.js";
+import { groundIssues } from "./issue-grounding.js";
+import { buildRepairPrompt, ISSUE_TYPES, parseIssueArray } from "./issue-schema.js";
+import { deduplicateIssues } from "./issue-utils.js";
+import { type BrokenLink, brokenLinkToIssue, LinkChecker } from "./link-checker.js";
+import { redactSecrets } from "./redaction.js";
+import {
+  checkSnippets,
+  type SnippetDiagnostic,
+  snippetDiagnosticToIssue,
+} from "./snippet-checker.js";
+import type {
+  AnalysisBackend,
+  AnalysisBudget,
+  AnalysisCacheStore,
+  AnalysisCoverage,
+  AnalysisFailure,
+  AnalysisResult,
+  AnalysisUsage,
+  AnalyzerOptions,
+  ApiSurface,
+  Baseline,
+  BaselineComparison,
+  BaselineEntry,
+  CachedAnalysisPass,
+  DiffScope,
+  DiffSummary,
+  DocsCheckConfig,
+  DocumentationIssue,
+  ExportedSymbol,
+  IssueType,
+  PassUsage,
+  ProgressEvent,
+  ProgressListener,
+  Repository,
+} from "./types.js";
+import { UsageMeter } from "./usage.js";
+
+const ISSUE_CATEGORY_DESCRIPTIONS: Record<IssueType, string> = {
+  missing: "**Missing**: Important documentation that should exist but doesn't",
+  outdated: "**Outdated**: Documentation that doesn't match the current code",
+  unclear: "**Unclear**: Documentation that is confusing or poorly written",
+  "broken-link": "**Broken Links**: Links that don't work or point to wrong locations",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
 export class DocumentationAnalyzer {
-  constructor(apiKey: string) {
-    // Claude Code SDK uses environment variables for configuration
-    process.env.ANTHROPIC_API_KEY = apiKey;
+  private backend: AnalysisBackend;
+  private linkChecker: LinkChecker;
+  private config: DocsCheckConfig;
+  private baseline: Baseline | undefined;
+  private diff: DiffScope | undefined;
+  private cache: AnalysisCacheStore | undefined;
+  private budget: AnalysisBudget | undefined;
+  private onProgress: ProgressListener | undefined;
+  private signal: AbortSignal | undefined;
+
+  constructor(backend: AnalysisBackend, options: AnalyzerOptions = {}) {
+    this.backend = backend;
+    this.linkChecker = new LinkChecker(options.linkFetcher);
+    this.config = options.config ?? DEFAULT_CONFIG;
+    this.baseline = options.baseline;
+    this.diff = options.diff;
+    this.cache = options.cache;
+    this.budget = options.budget;
+    this.onProgress = options.onProgress;
+    this.signal = options.signal;
   }
 
-  async analyzeDocumentation(
-    repoPath: string,
-    repository: GitHubRepository
-  ): Promise<AnalysisResult> {
+  private emit(event: ProgressEvent): void {
+    this.onProgress?.(event);
+  }
+
+  private warn(message: string): void {
+    this.emit({ type: "warning", message });
+  }
+
+  async analyzeDocumentation(repoPath: string, repository: Repository): Promise<AnalysisResult> {
+    // The cache may be shared with other analyses, so this run's hits and misses are the difference
+    const cacheBefore = this.cache?.stats;
+
     try {
+      // Record the analyzed commit so reports can link to the exact lines
+      let commit: string | undefined;
+      try {
+        commit = await new GitOperations(repoPath).getHeadCommit(repoPath);
+      } catch {
+        // Plain directories can still be analyzed, just without commit links
+      }
+
       // Scan for documentation files
-      const documentationFiles = await this.findDocumentationFiles(repoPath);
+      this.emit({ type: "scanning", repoPath, backend: this.backend.name });
+      const scannedDocumentationFiles = await this.findDocumentationFiles(repoPath);
+      const allDocumentationFiles = scannedDocumentationFiles.slice(
+        0,
+        this.config.limits.maxDocFiles
+      );
+      let documentationFiles = allDocumentationFiles;
+
+      // Globs and the file limit leave docs unscanned, whose issues this run can't speak for
+      const narrowedBy = [
+        ...(this.config.issueTypes.length < ISSUE_TYPES.length ? ["issueTypes"] : []),
+        ...(this.config.include.length > 0 ? ["include"] : []),
+        ...(this.config.exclude.length > 0 ? ["exclude"] : []),
+        ...(scannedDocumentationFiles.length > allDocumentationFiles.length
+          ? ["limits.maxDocFiles"]
+          : []),
+      ];
+      const scannedEveryDoc = narrowedBy.every((setting) => setting === "issueTypes");
+
+      // In diff-aware mode, only docs touched by or referring to the change are reviewed
+      let diffSummary: DiffSummary | undefined;
+      if (this.diff) {
+        const affectedDocs = findAffectedDocs(
+          await this.readFiles(repoPath, documentationFiles),
+          this.diff,
+          (file) => this.isDocumentationPath(file)
+        );
+        documentationFiles = affectedDocs.map((doc) => doc.file);
+        diffSummary = {
+          base: this.diff.base,
+          head: this.diff.head,
+          mergeBase: this.diff.mergeBase,
+          changedFiles: this.diff.changedFiles,
+          affectedDocs,
+        };
+      }
 
       // Scan for code files to understand the project structure
       const codeFiles = await this.findCodeFiles(repoPath);
 
-      // Analyze the repository using Claude
-      const issues = await this.performClaudeAnalysis(repoPath, documentationFiles, codeFiles);
+      // Check links deterministically before asking Claude
+      const brokenLinks = this.config.issueTypes.includes("broken-link")
+        ? await this.linkChecker.checkFiles(repoPath, documentationFiles)
+        : [];
+
+      // Type-check code examples against the project's sources
+      const snippetDiagnostics = this.config.issueTypes.includes("outdated")
+        ? await this.checkCodeExamples(repoPath, documentationFiles)
+        : [];
+
+      // A mention anywhere in the docs counts, so exports are checked against every doc; in
+      // diff-aware mode only exports declared in changed files are reported
+      const apiSurface = await this.analyzeApiSurface(repoPath, allDocumentationFiles);
+      const undocumentedSymbols = this.config.issueTypes.includes("missing")
+        ? (apiSurface?.symbols ?? []).filter(
+            (symbol) =>
+              !symbol.documented &&
+              (!this.diff || this.diff.changedFiles.some((file) => file.path === symbol.file))
+          )
+        : [];
+
+      // Analyze the repository using Claude, in as many passes as the docs need
+      const {
+        status,
+        failures,
+        issues: claudeIssues,
+        dropped,
+        coverage,
+        redacted,
+        usage,
+      } = await this.performClaudeAnalysis(
+        repoPath,
+        documentationFiles,
+        codeFiles,
+        apiSurface?.symbols ?? []
+      );
+
+      // Verify every reported file and line against the repository and attach snippets
+      this.emit({
+        type: "parsing",
+        issues:
+          brokenLinks.length +
+          snippetDiagnostics.length +
+          undocumentedSymbols.length +
+          claudeIssues.length,
+      });
+      const { issues: groundedIssues, dropped: ungroundedIssues } = await groundIssues(
+        repoPath,
+        this.mergeIssues(brokenLinks, snippetDiagnostics, undocumentedSymbols, claudeIssues)
+      );
+
+      // Honour inline <!-- docs-check-ignore --> comments before anything is counted
+      const { issues: unsuppressedIssues, suppressed } = await applyInlineIgnores(
+        repoPath,
+        this.applyConfig(
+          this.diff ? markIntroducedIssues(groundedIssues, this.diff) : groundedIssues
+        )
+      );
+
+      let issues = unsuppressedIssues;
 
       // Sort issues by severity (high -> low) and then by effort (low -> high)
       issues.sort((a, b) => {
@@ -35,25 +230,82 @@ export class DocumentationAnalyzer {
         return effortOrder[a.effort] - effortOrder[b.effort];
       });
 
+      // Accepted issues move out of `issues` so only new ones are counted and reported
+      let baseline: BaselineComparison | undefined;
+      if (this.baseline) {
+        const { newIssues, comparison } = applyBaseline(issues, this.baseline, (entry) =>
+          this.isReviewed(entry, coverage, documentationFiles, scannedEveryDoc)
+        );
+        issues = newIssues;
+        baseline = comparison;
+      }
+
       // Generate summary
-      const summary = this.generateSummary(issues);
+      const summary = {
+        ...this.generateSummary(issues),
+        ...(apiSurface ? { apiCoverage: apiCoverage(apiSurface.symbols) } : {}),
+      };
 
       return {
         repository,
+        ...(commit ? { commit } : {}),
+        status,
+        failures,
         issues,
+        droppedIssues: dropped,
+        ungroundedIssues,
+        suppressedIssues: suppressed,
+        redactedSecrets: redacted,
+        ...(baseline ? { baseline } : {}),
+        ...(diffSummary ? { diff: diffSummary } : {}),
+        ...(this.cache && cacheBefore
+          ? {
+              cache: {
+                hits: this.cache.stats.hits - cacheBefore.hits,
+                misses: this.cache.stats.misses - cacheBefore.misses,
+              },
+            }
+          : {}),
+        ...(apiSurface ? { apiSurface } : {}),
         summary,
+        coverage: narrowedBy.length > 0 ? { ...coverage, narrowedBy } : coverage,
+        usage,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      throw new Error(
-        `Failed to analyze documentation: ${error instanceof Error ? error.message : String(error)}`
-      );
+      // Cancellation is the caller's doing, so it surfaces unchanged
+      if (this.signal?.aborted) {
+        throw this.signal.reason;
+      }
+      throw new Error(`Failed to analyze documentation: ${errorMessage(error)}`);
     }
   }
 
-  private async findDocumentationFiles(repoPath: string): Promise<string[]> {
-    const documentationFiles: string[] = [];
+  // Whether this run looked where a baseline entry was reported, so its absence means it was fixed
+  private isReviewed(
+    entry: BaselineEntry,
+    coverage: AnalysisCoverage,
+    documentationFiles: string[],
+    scannedEveryDoc: boolean
+  ): boolean {
+    if (!this.config.issueTypes.includes(entry.type)) {
+      return false;
+    }
+    // Issues without a file may concern any of the docs
+    if (!entry.file) {
+      return coverage.unreviewedSections.length === 0 && !this.diff && scannedEveryDoc;
+    }
+    if (coverage.unreviewedSections.some((section) => section.file === entry.file)) {
+      return false;
+    }
+    // Only the scanned docs were looked at, and in diff-aware mode the changed files
+    return (
+      documentationFiles.includes(entry.file) ||
+      (this.diff?.changedFiles.some((file) => file.path === entry.file) ?? false)
+    );
+  }
 
+  private isDocumentationPath(relativePath: string): boolean {
     const docPatterns = [
       /\.md$/i,
       /\.rst$/i,
@@ -63,44 +315,23 @@ export class DocumentationAnalyzer {
       /contributing/i,
       /license/i,
       /docs?\//i,
+      ...this.config.docExtensions.map(
+        (extension) => new RegExp(`${extension.replace(/[.+^$()|[\]\\]/g, "\\$&")}$`, "i")
+      ),
     ];
 
-    async function scanDirectory(dirPath: string): Promise<void> {
-      try {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
-
-        for (const entry of entries) {
-          const fullPath = join(dirPath, entry.name);
-
-          if (entry.isDirectory()) {
-            // Skip common directories that don't contain user-facing documentation
-            if (
-              !["node_modules", ".git", "dist", "build", ".next", "coverage"].includes(entry.name)
-            ) {
-              await scanDirectory(fullPath);
-            }
-          } else if (entry.isFile()) {
-            const relativePath = relative(repoPath, fullPath);
-
-            // Check if file matches documentation patterns
-            if (docPatterns.some((pattern) => pattern.test(relativePath))) {
-              documentationFiles.push(relativePath);
-            }
-          }
-        }
-      } catch (_error) {
-        // Skip directories we can't read
-        console.warn(`Warning: Could not read directory ${dirPath}`);
-      }
-    }
+    return docPatterns.some((pattern) => pattern.test(relativePath));
+  }
 
-    await scanDirectory(repoPath);
-    return documentationFiles.slice(0, 50); // Limit to 50 files to avoid E2BIG
+  private async findDocumentationFiles(repoPath: string): Promise<string[]> {
+    return this.scanRepository(
+      repoPath,
+      (relativePath) => this.isDocumentationPath(relativePath),
+      true
+    );
   }
 
   private async findCodeFiles(repoPath: string): Promise<string[]> {
-    const codeFiles: string[] = [];
-
     const codePatterns = [
       /\.(js|jsx|ts|tsx|py|java|cpp|c|h|cs|php|rb|go|rust|rs)$/i,
       /package\.json$/i,
@@ -109,93 +340,248 @@ export class DocumentationAnalyzer {
       /pom\.xml$/i,
     ];
 
+    // Include and exclude globs scope the docs only; Claude checks them against all of the code
+    const codeFiles = await this.scanRepository(
+      repoPath,
+      (relativePath) => codePatterns.some((pattern) => pattern.test(relativePath)),
+      false
+    );
+    return codeFiles.slice(0, this.config.limits.maxCodeFiles); // Avoid overwhelming Claude
+  }
+
+  private async scanRepository(
+    repoPath: string,
+    matches: (relativePath: string) => boolean,
+    applyScope: boolean
+  ): Promise<string[]> {
+    const files: string[] = [];
+    const { skipDirectories, limits } = this.config;
+    const warn = (message: string) => this.warn(message);
+    const include = applyScope ? this.config.include : [];
+    const exclude = applyScope ? this.config.exclude : [];
+
     async function scanDirectory(dirPath: string): Promise<void> {
       try {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
+        // Sorted so prompts, and therefore recorded responses, don't depend on the filesystem
+        const entries = (await fs.readdir(dirPath, { withFileTypes: true })).sort((a, b) =>
+          a.name.localeCompare(b.name)
+        );
 
         for (const entry of entries) {
           const fullPath = join(dirPath, entry.name);
+          const relativePath = relative(repoPath, fullPath);
 
           if (entry.isDirectory()) {
-            // Skip common directories
-            if (
-              ![
-                "node_modules",
-                ".git",
-                "dist",
-                "build",
-                ".next",
-                "coverage",
-                "target",
-                "__pycache__",
-              ].includes(entry.name)
-            ) {
+            // Skip directories that don't contain user-facing documentation or source
+            if (!skipDirectories.includes(entry.name) && !matchesAnyGlob(relativePath, exclude)) {
               await scanDirectory(fullPath);
             }
           } else if (entry.isFile()) {
-            const relativePath = relative(repoPath, fullPath);
+            if (
+              !matches(relativePath) ||
+              (include.length > 0 && !matchesAnyGlob(relativePath, include)) ||
+              matchesAnyGlob(relativePath, exclude)
+            ) {
+              continue;
+            }
 
-            // Check if file matches code patterns
-            if (codePatterns.some((pattern) => pattern.test(relativePath))) {
-              codeFiles.push(relativePath);
+            const stats = await fs.stat(fullPath);
+            if (stats.size <= limits.maxFileBytes) {
+              files.push(relativePath);
             }
           }
         }
       } catch (_error) {
         // Skip directories we can't read
-        console.warn(`Warning: Could not read directory ${dirPath}`);
+        warn(`Could not read directory ${dirPath}`);
       }
     }
 
     await scanDirectory(repoPath);
-    return codeFiles.slice(0, 50); // Limit to 50 files to avoid overwhelming Claude
+    return files;
+  }
+
+  private async checkCodeExamples(
+    repoPath: string,
+    documentationFiles: string[]
+  ): Promise<SnippetDiagnostic[]> {
+    try {
+      return await checkSnippets(repoPath, await this.readFiles(repoPath, documentationFiles));
+    } catch (error) {
+      this.warn(`Could not check code examples: ${errorMessage(error)}`);
+      return [];
+    }
+  }
+
+  // Undefined unless the package.json entry points export values
+  private async analyzeApiSurface(
+    repoPath: string,
+    documentationFiles: string[]
+  ): Promise<ApiSurface | undefined> {
+    const entryPoints = await findEntryPoints(repoPath);
+    if (entryPoints.length === 0) {
+      return undefined;
+    }
+
+    let exported: Omit<ExportedSymbol, "documented">[];
+    try {
+      exported = findExportedSymbols(repoPath, entryPoints);
+    } catch (error) {
+      this.warn(`Could not read the exported API: ${errorMessage(error)}`);
+      return undefined;
+    }
+    if (exported.length === 0) {
+      return undefined;
+    }
+
+    const docs = Object.values(await this.readFiles(repoPath, documentationFiles));
+    return {
+      entryPoints,
+      symbols: exported.map((symbol) => ({
+        ...symbol,
+        documented: docs.some((content) => isMentioned(symbol.name, content)),
+      })),
+    };
   }
 
   private async performClaudeAnalysis(
     repoPath: string,
     documentationFiles: string[],
-    codeFiles: string[]
-  ): Promise<DocumentationIssue[]> {
-    // Prepare context for Claude
+    codeFiles: string[],
+    symbols: ExportedSymbol[]
+  ): Promise<{
+    status: AnalysisResult["status"];
+    failures: AnalysisFailure[];
+    issues: DocumentationIssue[];
+    dropped: number;
+    coverage: AnalysisCoverage;
+    redacted: number;
+    usage: AnalysisUsage;
+  }> {
+    // Prepare context for Claude: the change itself in diff-aware mode, else the project layout
+    const { chunkTokenBudget, maxPasses, concurrency } = this.config.limits;
     const documentationContent = await this.readFiles(repoPath, documentationFiles);
-    const codeStructure = await this.getCodeStructure(repoPath, codeFiles);
+    const codeContext = redactSecrets(
+      this.diff
+        ? renderPatchForPrompt(this.diff.patch, Math.floor(chunkTokenBudget / 2))
+        : await this.getCodeStructure(repoPath, codeFiles, symbols)
+    );
+    let redacted = codeContext.redactions;
+
+    // Secrets never reach the prompt; redaction keeps line breaks so line numbers still match
+    const sections = Object.entries(documentationContent).flatMap(([file, content]) => {
+      const { text, redactions } = redactSecrets(content);
+      redacted += redactions;
+      return splitIntoSections(file, text);
+    });
+    const documentationBudget = Math.max(
+      Math.floor(chunkTokenBudget / 4),
+      chunkTokenBudget - estimateTokens(codeContext.text)
+    );
+    const chunks = planChunks(sections, documentationBudget);
+    const plannedChunks = chunks.slice(0, maxPasses);
+    const skippedChunks = chunks.slice(maxPasses);
+
+    const repositoryState = await this.cacheRepositoryState(repoPath);
+
+    const started = Date.now();
+    const spent = new UsageMeter();
+    let budgetExceeded: string | null = null;
+
+    const analyzeChunk = async (chunk: AnalysisChunk) => {
+      // Passes already under way finish; the rest are skipped once the budget is used up
+      budgetExceeded ??= this.budget ? spent.checkBudget(this.budget) : null;
+      if (budgetExceeded) {
+        const error = new Error(`Skipped because the analysis budget ran out (${budgetExceeded})`);
+        return { chunk, issues: [], dropped: 0, error, usage: null };
+      }
+      if (this.signal?.aborted) {
+        return { chunk, issues: [], dropped: 0, error: this.signal.reason, usage: null };
+      }
 
-    const prompt = this.buildAnalysisPrompt(documentationContent, codeStructure);
+      this.emit({ type: "pass-started", pass: chunk.index + 1, totalPasses: plannedChunks.length });
 
-    try {
-      const response = query({
-        prompt,
-        options: {
-          cwd: repoPath,
-        },
+      const prompt = this.diff
+        ? this.buildDiffAnalysisPrompt(chunk, plannedChunks.length, codeContext.text)
+        : this.buildAnalysisPrompt(chunk, plannedChunks.length, codeContext.text);
+      const meter = new UsageMeter();
+      const usage = (cached: boolean): PassUsage => ({
+        pass: chunk.index + 1,
+        cached,
+        ...meter.totals,
       });
-
-      let fullResponse = "";
-      for await (const message of response) {
-        if (message.type === "assistant") {
-          // Extract text content from assistant message
-          const content = message.message.content;
-          if (Array.isArray(content)) {
-            for (const block of content) {
-              if (block.type === "text") {
-                fullResponse += block.text;
-              }
-            }
-          } else if (typeof content === "string") {
-            fullResponse += content;
-          }
-        } else if (message.type === "result" && message.subtype === "success") {
-          fullResponse += message.result;
-        }
+      try {
+        const { issues, dropped, cached } = await this.analyzePass(
+          repoPath,
+          prompt,
+          meter,
+          repositoryState
+        );
+        const mappedIssues = issues.map((issue) => {
+          const line = mapLineToOriginal(chunk, issue.file, issue.line);
+          const { line: _reportedLine, ...rest } = issue;
+          return line === undefined ? rest : { ...rest, line };
+        });
+        return { chunk, issues: mappedIssues, dropped, error: null, usage: usage(cached) };
+      } catch (error) {
+        return { chunk, issues: [], dropped: 0, error, usage: usage(false) };
+      } finally {
+        spent.add(meter.totals);
       }
+    };
 
-      // Parse Claude's response to extract structured issues
-      return this.parseClaudeResponse(fullResponse);
-    } catch (error) {
-      throw new Error(
-        `Claude analysis failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+    const passes = await mapWithConcurrency(plannedChunks, concurrency, async (chunk) => {
+      const pass = await analyzeChunk(chunk);
+      this.emit({
+        type: "pass-finished",
+        pass: chunk.index + 1,
+        totalPasses: plannedChunks.length,
+        issues: pass.issues.length,
+        cached: pass.usage?.cached ?? false,
+        ...(pass.error !== null ? { error: errorMessage(pass.error) } : {}),
+      });
+      return pass;
+    });
+    this.signal?.throwIfAborted();
+
+    const failedPasses = passes.filter((pass) => pass.error !== null);
+    const failures = failedPasses.map((pass) => ({
+      pass: pass.chunk.index + 1,
+      message: errorMessage(pass.error),
+    }));
+
+    // Docs left over after maxPasses weren't reviewed either, so the run is only partial
+    let status: AnalysisResult["status"] = "complete";
+    if (plannedChunks.length > 0 && failedPasses.length === plannedChunks.length) {
+      status = "failed";
+    } else if (failedPasses.length > 0 || skippedChunks.length > 0) {
+      status = "partial";
     }
+
+    return {
+      status,
+      failures,
+      issues: deduplicateIssues(passes.flatMap((pass) => pass.issues)),
+      dropped: passes.reduce((total, pass) => total + pass.dropped, 0),
+      coverage: {
+        passes: plannedChunks.length,
+        reviewedSections: describeSections(
+          passes.filter((pass) => pass.error === null).flatMap((pass) => pass.chunk.sections)
+        ),
+        unreviewedSections: describeSections(
+          [...failedPasses.map((pass) => pass.chunk), ...skippedChunks].flatMap(
+            (chunk) => chunk.sections
+          )
+        ),
+      },
+      redacted,
+      usage: {
+        ...spent.totals,
+        durationMs: Date.now() - started,
+        passes: passes.flatMap((pass) => (pass.usage ? [pass.usage] : [])),
+        ...(budgetExceeded ? { budgetExceeded } : {}),
+      },
+    };
   }
 
   private async readFiles(repoPath: string, filePaths: string[]): Promise<Record<string, string>> {
@@ -207,7 +593,7 @@ export class DocumentationAnalyzer {
         const fileContent = await fs.readFile(fullPath, "utf-8");
         content[filePath] = fileContent.replace(/\0/g, "");
       } catch (_error) {
-        console.warn(`Warning: Could not read file ${filePath}`);
+        this.warn(`Could not read file ${filePath}`);
         content[filePath] = "[Could not read file]";
       }
     }
@@ -215,7 +601,11 @@ export class DocumentationAnalyzer {
     return content;
   }
 
-  private async getCodeStructure(repoPath: string, codeFiles: string[]): Promise<string> {
+  private async getCodeStructure(
+    repoPath: string,
+    codeFiles: string[],
+    symbols: ExportedSymbol[]
+  ): Promise<string> {
     let structure = "Project Structure:\n";
 
     // Get package.json or similar project files for context
@@ -228,7 +618,7 @@ export class DocumentationAnalyzer {
     for (const file of projectFiles) {
       try {
         const content = await fs.readFile(join(repoPath, file), "utf-8");
-        structure += `\n${file}:\n${content.replace(/\0/g, "").slice(0, 1000)}...\n`;
+        structure += `\n${file}:\n${content.replace(/\0/g, "").slice(0, this.config.limits.maxProjectFileChars)}...\n`;
       } catch (_error) {
         // Skip files we can't read
       }
@@ -236,29 +626,43 @@ export class DocumentationAnalyzer {
 
     // Add directory structure
     structure += "\nCode Files:\n";
-    structure += codeFiles.slice(0, 30).join("\n");
+    structure += codeFiles.slice(0, this.config.limits.maxCodeFilesInPrompt).join("\n");
+
+    // Undocumented exports are already reported, but the list tells Claude what the public API is
+    if (symbols.length > 0) {
+      structure += "\n\nExported API (from the package.json entry points):\n";
+      structure += describeApiSurface(symbols, this.config.limits.maxSymbolsInPrompt);
+    }
 
     return structure;
   }
 
   private buildAnalysisPrompt(
-    documentationContent: Record<string, string>,
+    chunk: AnalysisChunk,
+    totalPasses: number,
     codeStructure: string
   ): string {
-    let prompt = `You are a documentation analysis expert. Please analyze the following repository's documentation for completeness, accuracy, and clarity.\n\nHere is the project structure:\n${codeStructure}\n\nHere are the documentation files:\n`;
+    const categories = this.config.issueTypes
+      .map((type, index) => `${index + 1}. ${ISSUE_CATEGORY_DESCRIPTIONS[type]}`)
+      .join("\n");
+    let prompt = `You are a documentation analysis expert. Please analyze the following repository's documentation for completeness, accuracy, and clarity.\n\nHere is the project structure:\n${codeStructure}\n\n`;
 
-    for (const [filePath, content] of Object.entries(documentationContent)) {
-      prompt += `\n--- ${filePath} ---\n${content.slice(0, 2000)}${content.length > 2000 ? "...[truncated]" : ""}\n`;
+    if (totalPasses > 1) {
+      prompt += `The documentation is reviewed in ${totalPasses} passes; this is pass ${chunk.index + 1}. Only report issues in, or missing from, the sections shown below.\n\n`;
     }
 
-    prompt += `\n\nPlease analyze the documentation and identify issues in the following categories:\n1. **Missing**: Important documentation that should exist but doesn't\n2. **Outdated**: Documentation that doesn't match the current code\n3. **Unclear**: Documentation that is confusing or poorly written\n4. **Broken Links**: Links that don't work or point to wrong locations\n\nFor each issue, provide:
-- Type (missing/outdated/unclear/broken-link)
+    prompt += `Here are the documentation files. Each line is prefixed with its line number in the original file; report those line numbers:\n`;
+    prompt += renderChunk(chunk);
+
+    prompt += `\n\nPlease analyze the documentation and identify issues in the following categories:\n${categories}\n\nFor each issue, provide:
+- Type (${this.config.issueTypes.join("/")})
 - Severity (high/medium/low)
 - Effort (high/medium/low) to fix
 - Title (brief description)
 - Description (detailed explanation)
 - File (if applicable)
 - Line number (if applicable)
+- Excerpt (the exact text at that line, quoted verbatim from the file, if applicable)
 - Suggestion (how to fix it)
 
 Please return your analysis as a JSON array of issues in this exact format:
@@ -270,6 +674,8 @@ Please return your analysis as a JSON array of issues in this exact format:
     "title": "Missing installation instructions",
     "description": "The README lacks clear installation instructions for new users",
     "file": "README.md",
+    "line": 12,
+    "excerpt": "## Usage",
     "suggestion": "Add a section with step-by-step installation instructions"
   }
 ]\n\nFocus on the most important issues that would help users understand and use this project effectively.`;
@@ -277,51 +683,171 @@ Please return your analysis as a JSON array of issues in this exact format:
     return prompt;
   }
 
-  private parseClaudeResponse(response: string): DocumentationIssue[] {
+  private buildDiffAnalysisPrompt(
+    chunk: AnalysisChunk,
+    totalPasses: number,
+    patch: string
+  ): string {
+    let prompt = `You are a documentation analysis expert reviewing a code change. Your job is to find documentation that this change made outdated: descriptions, examples, options, file paths or names that no longer match the code after the change.\n\nHere is the change, as a unified diff from the merge base to the new version:\n${patch}\n\n`;
+
+    if (totalPasses > 1) {
+      prompt += `The affected documentation is reviewed in ${totalPasses} passes; this is pass ${chunk.index + 1}. Only report issues in the sections shown below.\n\n`;
+    }
+
+    prompt += `Here is the documentation that was changed by, or refers to code changed by, this diff, as of the new version. Each line is prefixed with its line number in the file; report those line numbers:\n`;
+    prompt += renderChunk(chunk);
+
+    prompt += `\n\nReport only "outdated" issues: places where the documentation no longer matches the code because of this change, or where the change updated the docs incorrectly. Do not report general style or completeness problems. Set "introducedByDiff" to true when this change caused the issue, and false when the documentation was already wrong before it.
+
+Please return your analysis as a JSON array of issues in this exact format:
+[
+  {
+    "type": "outdated",
+    "severity": "high",
+    "effort": "low",
+    "title": "README still documents the removed --legacy flag",
+    "description": "The diff removes the --legacy option from the CLI, but the usage section still shows it",
+    "file": "README.md",
+    "line": 42,
+    "excerpt": "docs-check --legacy <repository>",
+    "suggestion": "Remove the --legacy example or replace it with the new option",
+    "introducedByDiff": true
+  }
+]\n\nReturn [] if the change does not make any of this documentation outdated.`;
+
+    return prompt;
+  }
+
+  // What besides the prompt a cached pass depends on: nothing for backends that only see the
+  // prompt, the checkout's contents for those that read files. Undefined turns caching off, also
+  // for checkouts that can't be fingerprinted.
+  private async cacheRepositoryState(repoPath: string): Promise<string | null | undefined> {
+    if (!this.cache) {
+      return undefined;
+    }
+    if (!this.backend.readsRepository) {
+      return null;
+    }
+
     try {
-      // Extract JSON from Claude's response (it might be wrapped in markdown)
-      const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/);
-
-      let issues: DocumentationIssue[];
-
-      if (jsonMatch?.[1]) {
-        issues = JSON.parse(jsonMatch[1]) as DocumentationIssue[];
-      } else {
-        // Fallback for responses that might not be in a markdown block
-        const plainJsonMatch = response.match(/\\\[[\\s\\S]*\\\\]/);
-        if (plainJsonMatch) {
-          issues = JSON.parse(plainJsonMatch[0]) as DocumentationIssue[];
-        } else {
-          throw new Error("No JSON array found in Claude's response");
-        }
-      }
+      return await new GitOperations(repoPath).getContentFingerprint(repoPath);
+    } catch {
+      this.warn("Not caching analysis passes for a directory that is not a git checkout");
+      return undefined;
+    }
+  }
+
+  // Reuses the result of an earlier pass with the same prompt, model and, for backends that read
+  // files, repository contents; failed passes throw before anything is cached
+  private async analyzePass(
+    repoPath: string,
+    prompt: string,
+    meter: UsageMeter,
+    repositoryState: string | null | undefined
+  ): Promise<CachedAnalysisPass & { cached: boolean }> {
+    if (!this.cache || repositoryState === undefined) {
+      return { ...(await this.queryForIssues(repoPath, prompt, meter)), cached: false };
+    }
+
+    const key = analysisCacheKey(this.backend.name, this.backend.model, prompt, repositoryState);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      return { ...cached, cached: true };
+    }
+
+    const result = await this.queryForIssues(repoPath, prompt, meter);
+    try {
+      await this.cache.set(key, result);
+    } catch (error) {
+      // The pass itself succeeded; it just has to be analyzed again next time
+      this.warn(errorMessage(error));
+    }
+    return { ...result, cached: false };
+  }
 
-      // Validate and sanitize the issues
-      return issues.filter(
-        (issue) =>
-          issue.type &&
-          issue.severity &&
-          issue.effort &&
-          issue.title &&
-          issue.description &&
-          ["missing", "outdated", "unclear", "broken-link"].includes(issue.type) &&
-          ["high", "medium", "low"].includes(issue.severity)
+  private async queryForIssues(
+    repoPath: string,
+    prompt: string,
+    meter: UsageMeter
+  ): Promise<{ issues: DocumentationIssue[]; dropped: number }> {
+    let response = await runQuery(this.backend, repoPath, prompt, {
+      meter,
+      ...(this.signal ? { signal: this.signal } : {}),
+    });
+    let parsed = parseIssueArray(response);
+
+    // Send unusable output back with the validation errors, a bounded number of times
+    for (let attempt = 0; !parsed.ok && attempt < this.config.limits.maxRepairAttempts; attempt++) {
+      response = await runQuery(
+        this.backend,
+        repoPath,
+        buildRepairPrompt(response, parsed.errors),
+        { meter, ...(this.signal ? { signal: this.signal } : {}) }
       );
-    } catch (_error) {
-      console.warn("Failed to parse Claude response as JSON, creating fallback issue");
-
-      // Fallback: create a general issue if parsing fails
-      return [
-        {
-          type: "unclear",
-          severity: "medium",
-          effort: "medium",
-          title: "Analysis completed with parsing issues",
-          description: `Claude provided analysis but response format was unexpected. Raw response: ${response}...`,
-          suggestion: "Manual review of documentation recommended",
-        },
-      ];
+      parsed = parseIssueArray(response);
+    }
+
+    if (!parsed.ok) {
+      throw new Error(
+        `Claude's response did not match the issue schema after ${this.config.limits.maxRepairAttempts} repair attempts: ${parsed.errors.slice(0, 5).join("; ")}`
+      );
+    }
+
+    if (parsed.dropped > 0) {
+      this.warn(`Dropped ${parsed.dropped} malformed issues from Claude's response`);
     }
+
+    return { issues: parsed.issues, dropped: parsed.dropped };
+  }
+
+  private mergeIssues(
+    brokenLinks: BrokenLink[],
+    snippetDiagnostics: SnippetDiagnostic[],
+    undocumentedSymbols: ExportedSymbol[],
+    claudeIssues: DocumentationIssue[]
+  ): DocumentationIssue[] {
+    // Drop Claude's broken-link guesses that the link checker already reported precisely, its
+    // reports of outdated examples that failed to compile, and its reports of undocumented
+    // exports that the API check already made
+    const remainingClaudeIssues = claudeIssues.filter((issue) => {
+      const text = `${issue.title} ${issue.description}`;
+      if (issue.type === "broken-link") {
+        return !brokenLinks.some(
+          (brokenLink) =>
+            brokenLink.file === issue.file &&
+            (brokenLink.line === issue.line || text.includes(brokenLink.target))
+        );
+      }
+      if (issue.type === "outdated" && issue.line) {
+        const { line } = issue;
+        return !snippetDiagnostics.some(
+          (diagnostic) =>
+            diagnostic.file === issue.file &&
+            line >= diagnostic.snippetLine &&
+            line <= diagnostic.snippetEndLine
+        );
+      }
+      if (issue.type === "missing") {
+        return !undocumentedSymbols.some((symbol) => text.includes(`\`${symbol.name}\``));
+      }
+      return true;
+    });
+
+    return deduplicateIssues([
+      ...brokenLinks.map(brokenLinkToIssue),
+      ...snippetDiagnostics.map(snippetDiagnosticToIssue),
+      ...undocumentedSymbols.map(undocumentedSymbolToIssue),
+      ...remainingClaudeIssues,
+    ]);
+  }
+
+  private applyConfig(issues: DocumentationIssue[]): DocumentationIssue[] {
+    return issues
+      .filter((issue) => this.config.issueTypes.includes(issue.type))
+      .map((issue) => {
+        const severity = resolveSeverityOverride(this.config, issue.file);
+        return severity ? { ...issue, severity } : issue;
+      });
   }
 
   private generateSummary(issues: DocumentationIssue[]) {
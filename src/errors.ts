@@ -0,0 +1,8 @@
+// Problems the user can fix in their arguments, configuration or baseline, as opposed to
+// failures while analyzing; the CLI exits with a distinct code for these
+export class InputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InputError";
+  }
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { applyEdits, FixEngine, parseSearchReplaceBlocks } from "./fix-engine.js";
+import type { AnalysisBackend, DocumentationIssue } from "./types.js";
+
+const FILES: Record<string, string> = {
+  "README.md": "# Tool\n\nInstall with `npm install tool`.\nSee [the guide](docs/gide.md).\n",
+  "docs/guide.md": "# Guide\n\nSee [the FAQ](faq.md) and [the FAQ](faq.md).\n",
+  "lib/cli.js": "console.log('tool');\n",
+};
+
+function block(search: string, replace: string): string {
+  return `<<<<<<< SEARCH\n${search}\n=======\n${replace}\n>>>>>>> REPLACE`;
+}
+
+// Edits proposed for each issue, by title
+const RESPONSES: Record<string, string> = {
+  "Install uses npm": block("npm install tool", "pnpm add tool"),
+  "Typo in guide link": `Here is the fix:\n\n${block("docs/gide.md", "docs/guide.md")}`,
+  "FAQ link": block("[the FAQ](faq.md).", "[the FAQ](questions.md)."),
+  "Ambiguous FAQ link": block("[the FAQ](faq.md)", "[the FAQ](questions.md)"),
+  "Logged name": block("'tool'", "'docs'"),
+};
+
+function issue(title: string, fields: Partial<DocumentationIssue> = {}): DocumentationIssue {
+  return {
+    type: "outdated",
+    severity: "medium",
+    effort: "low",
+    title,
+    description: "",
+    suggestion: "",
+    file: "README.md",
+    line: 3,
+    ...fields,
+  };
+}
+
+describe("search/replace edits", () => {
+  it("parses every block of a response", () => {
+    assert.deepEqual(parseSearchReplaceBlocks(`${block("a", "b")}\n\n${block("c\nd", "")}`), [
+      { search: "a", replace: "b" },
+      { search: "c\nd", replace: "" },
+    ]);
+  });
+
+  it("applies edits only where they match once, near the reported line", () => {
+    const content = `${Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join("\n")}\n`;
+    assert.deepEqual(applyEdits("a b a", [{ search: "b", replace: "c" }]), { content: "a c a" });
+    assert.deepEqual(applyEdits("a b a", [{ search: "a", replace: "c" }]), {
+      error: "edit 1 matches more than one location",
+    });
+    assert.deepEqual(applyEdits("a b a", [{ search: "", replace: "c" }]), {
+      error: "edit 1 has an empty search block",
+    });
+    assert.deepEqual(applyEdits(content, [{ search: "line 30\n", replace: "" }], 2), {
+      error: "edit 1 is not near line 2",
+    });
+  });
+});
+
+describe("FixEngine", () => {
+  let repoPath: string;
+
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-fixes-"));
+    for (const [file, content] of Object.entries(FILES)) {
+      await mkdir(join(repoPath, file, ".."), { recursive: true });
+      await writeFile(join(repoPath, file), content, "utf-8");
+    }
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("keeps fixes that apply cleanly and reverts links that stay broken", async () => {
+    const backend: AnalysisBackend = {
+      name: "scripted",
+      model: "scripted",
+      async *query({ prompt }) {
+        const title = prompt.match(/^Issue: (.*)$/m)?.[1] ?? "";
+        yield { type: "result", text: RESPONSES[title] ?? "No edit." };
+      },
+    };
+
+    const { applied, skipped } = await new FixEngine(backend).applyFixes(repoPath, [
+      issue("Install uses npm"),
+      issue("Typo in guide link", { type: "broken-link", line: 4 }),
+      issue("FAQ link", { type: "broken-link", file: "docs/guide.md" }),
+      issue("Ambiguous FAQ link", { file: "docs/guide.md" }),
+      issue("Logged name", { file: "lib/cli.js", line: 1 }),
+      issue("Unanswered"),
+    ]);
+
+    assert.deepEqual(
+      applied.map((fix) => [fix.issue.title, fix.file, fix.edits.length]),
+      [
+        ["Install uses npm", "README.md", 1],
+        ["Typo in guide link", "README.md", 1],
+      ]
+    );
+    assert.deepEqual(
+      skipped.map(({ issue, reason }) => [issue.title, reason]),
+      [
+        ["FAQ link", "link is still broken after the proposed edit"],
+        ["Ambiguous FAQ link", "proposed edit rejected: edit 1 matches more than one location"],
+        ["Logged name", "only documentation files are edited automatically"],
+        ["Unanswered", "Claude did not propose an edit"],
+      ]
+    );
+    assert.equal(
+      await readFile(join(repoPath, "README.md"), "utf-8"),
+      "# Tool\n\nInstall with `pnpm add tool`.\nSee [the guide](docs/guide.md).\n"
+    );
+    assert.equal(await readFile(join(repoPath, "docs/guide.md"), "utf-8"), FILES["docs/guide.md"]);
+  });
+});
@@ -0,0 +1,246 @@
+import { promises as fs } from "node:fs";
+import { extname, isAbsolute, join, normalize } from "node:path";
+import { runQuery } from "./analysis-backends.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { LinkChecker } from "./link-checker.js";
+import { REDACTION_PLACEHOLDER, redactSecrets } from "./redaction.js";
+import type {
+  AnalysisBackend,
+  AppliedFix,
+  DocsCheckConfig,
+  DocumentationIssue,
+  FileEdit,
+  SkippedFix,
+} from "./types.js";
+
+const DOCUMENTATION_EXTENSIONS = [".md", ".markdown", ".mdx", ".rst", ".txt", ".adoc"];
+
+// Edits must land within this many lines of the issue's reported line
+const EDIT_LINE_WINDOW = 20;
+
+// Context shown around the issue line when the whole file is too long to include
+const PROMPT_CONTEXT_LINES = 60;
+
+export interface FixResult {
+  applied: AppliedFix[];
+  skipped: SkippedFix[];
+}
+
+// A validated fix together with the file content before and after it
+export interface ProposedFix extends AppliedFix {
+  original: string;
+  updated: string;
+}
+
+export function parseSearchReplaceBlocks(response: string): FileEdit[] {
+  const edits: FileEdit[] = [];
+  const pattern = /<<<<<<< SEARCH\r?\n([\s\S]*?)\r?\n?=======\r?\n([\s\S]*?)\r?\n?>>>>>>> REPLACE/g;
+
+  for (const match of response.matchAll(pattern)) {
+    edits.push({ search: match[1], replace: match[2] });
+  }
+
+  return edits;
+}
+
+function lineOfOffset(content: string, offset: number): number {
+  return content.slice(0, offset).split("\n").length;
+}
+
+// Applies edits in order, failing unless every search block matches exactly once
+export function applyEdits(
+  content: string,
+  edits: FileEdit[],
+  nearLine?: number
+): { content: string } | { error: string } {
+  let updated = content;
+
+  for (const [index, edit] of edits.entries()) {
+    if (!edit.search) {
+      return { error: `edit ${index + 1} has an empty search block` };
+    }
+
+    const first = updated.indexOf(edit.search);
+    if (first === -1) {
+      return { error: `edit ${index + 1} does not match the file` };
+    }
+    if (updated.indexOf(edit.search, first + 1) !== -1) {
+      return { error: `edit ${index + 1} matches more than one location` };
+    }
+
+    if (nearLine !== undefined) {
+      const startLine = lineOfOffset(updated, first);
+      const endLine = startLine + edit.search.split("\n").length - 1;
+      if (endLine < nearLine - EDIT_LINE_WINDOW || startLine > nearLine + EDIT_LINE_WINDOW) {
+        return { error: `edit ${index + 1} is not near line ${nearLine}` };
+      }
+    }
+
+    updated = updated.slice(0, first) + edit.replace + updated.slice(first + edit.search.length);
+  }
+
+  return { content: updated };
+}
+
+export class FixEngine {
+  private backend: AnalysisBackend;
+  private config: DocsCheckConfig;
+
+  constructor(backend: AnalysisBackend, config: DocsCheckConfig = DEFAULT_CONFIG) {
+    this.backend = backend;
+    this.config = config;
+  }
+
+  isDocumentationFile(file: string): boolean {
+    const extension = extname(file).toLowerCase();
+    return (
+      DOCUMENTATION_EXTENSIONS.includes(extension) ||
+      this.config.docExtensions.map((ext) => ext.toLowerCase()).includes(extension)
+    );
+  }
+
+  async applyFixes(repoPath: string, issues: DocumentationIssue[]): Promise<FixResult> {
+    const applied: AppliedFix[] = [];
+    const skipped: SkippedFix[] = [];
+
+    for (const issue of issues) {
+      if (applied.length >= this.config.limits.maxFixes) {
+        skipped.push({ issue, reason: "fix limit reached" });
+        continue;
+      }
+
+      try {
+        const outcome = await this.fixIssue(repoPath, issue);
+        if ("reason" in outcome) {
+          skipped.push({ issue, reason: outcome.reason });
+        } else {
+          applied.push({ issue, file: outcome.file, edits: outcome.edits });
+        }
+      } catch (error) {
+        skipped.push({
+          issue,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { applied, skipped };
+  }
+
+  // Validates a fix like applyFixes does, but leaves the file as it was
+  async proposeFix(
+    repoPath: string,
+    issue: DocumentationIssue
+  ): Promise<ProposedFix | { reason: string }> {
+    const outcome = await this.fixIssue(repoPath, issue);
+    if (!("reason" in outcome)) {
+      await fs.writeFile(join(repoPath, outcome.file), outcome.original, "utf-8");
+    }
+    return outcome;
+  }
+
+  private async fixIssue(
+    repoPath: string,
+    issue: DocumentationIssue
+  ): Promise<ProposedFix | { reason: string }> {
+    if (!issue.file) {
+      return { reason: "issue has no file" };
+    }
+
+    const file = normalize(issue.file);
+    if (file.startsWith("..") || isAbsolute(file)) {
+      return { reason: "file is outside the repository" };
+    }
+    if (!this.isDocumentationFile(file)) {
+      return { reason: "only documentation files are edited automatically" };
+    }
+
+    const filePath = join(repoPath, file);
+    let original: string;
+    try {
+      original = await fs.readFile(filePath, "utf-8");
+    } catch {
+      return { reason: "file does not exist" };
+    }
+
+    const response = await runQuery(
+      this.backend,
+      repoPath,
+      // Claude sees the file with secrets redacted, so edits can't reproduce them
+      this.buildFixPrompt(file, redactSecrets(original).text, issue)
+    );
+    const edits = parseSearchReplaceBlocks(response);
+    if (edits.length === 0) {
+      return { reason: "Claude did not propose an edit" };
+    }
+
+    const result = applyEdits(original, edits, issue.line);
+    if ("error" in result) {
+      return { reason: `proposed edit rejected: ${result.error}` };
+    }
+    if (
+      result.content.split(REDACTION_PLACEHOLDER).length >
+      original.split(REDACTION_PLACEHOLDER).length
+    ) {
+      return { reason: "proposed edit would overwrite a redacted secret" };
+    }
+    if (result.content === original) {
+      return { reason: "proposed edit does not change the file" };
+    }
+
+    const brokenBefore =
+      issue.type === "broken-link" ? await new LinkChecker().checkFiles(repoPath, [file]) : [];
+
+    await fs.writeFile(filePath, result.content, "utf-8");
+
+    // A broken-link fix only counts if the link checker sees fewer broken links and no new ones.
+    // A fresh checker is used because anchors are cached per file.
+    if (issue.type === "broken-link") {
+      const brokenAfter = await new LinkChecker().checkFiles(repoPath, [file]);
+      const previousTargets = new Set(brokenBefore.map((brokenLink) => brokenLink.target));
+      if (
+        brokenAfter.length >= brokenBefore.length ||
+        brokenAfter.some((brokenLink) => !previousTargets.has(brokenLink.target))
+      ) {
+        await fs.writeFile(filePath, original, "utf-8");
+        return { reason: "link is still broken after the proposed edit" };
+      }
+    }
+
+    return { issue, file, edits, original, updated: result.content };
+  }
+
+  private buildFixPrompt(file: string, content: string, issue: DocumentationIssue): string {
+    const lines = content.split("\n");
+    let start = 1;
+    let end = lines.length;
+
+    if (issue.line !== undefined && lines.length > PROMPT_CONTEXT_LINES * 2) {
+      start = Math.max(1, issue.line - PROMPT_CONTEXT_LINES);
+      end = Math.min(lines.length, issue.line + PROMPT_CONTEXT_LINES);
+    }
+
+    const excerpt = lines
+      .slice(start - 1, end)
+      .map((line, offset) => `${start + offset}| ${line}`)
+      .join("\n");
+
+    return `You are fixing a single documentation issue in \`${file}\`. Do not use any tools.
+
+Issue: ${issue.title}
+Type: ${issue.type}
+Description: ${issue.description}
+${issue.line ? `Line: ${issue.line}\n` : ""}Suggested fix: ${issue.suggestion}
+
+Here is ${start === 1 && end === lines.length ? "the file" : `lines ${start}-${end} of the file`}, each prefixed with its line number:
+${excerpt}
+
+Respond with one or more search/replace blocks that fix only this issue. The SEARCH text must be copied exactly from the file (without the line-number prefixes) and must match exactly one location${issue.line ? ` near line ${issue.line}` : ""}. Use this format and nothing else:
+
+<<<<<<< SEARCH
+exact existing text
+=======
+replacement text
+>>>>>>> REPLACE`;
+  }
+}
@@ -1,17 +1,57 @@
+import { createHash } from "node:crypto";
 import { promises as fs } from "node:fs";
-import { basename, join } from "node:path";
+import { basename, isAbsolute, join, relative, resolve } from "node:path";
 import { type SimpleGit, simpleGit } from "simple-git";
+import type { Repository } from "./types.js";
+
+// Commits fetched per round when looking for the merge base of a change range
+const DIFF_FETCH_DEPTH = 100;
+const DIFF_DEEPEN_ATTEMPTS = 3;
+
+export interface CloneOptions {
+  // Authenticates an https clone; it is never written to .git/config
+  token?: string;
+  // Fail instead of asking for credentials, for runs nobody is watching
+  noPrompt?: boolean;
+}
+
+// The token reaches git as an http.extraHeader set through the environment, so it shows up in
+// neither the process list nor .git/config. Config the caller already passes this way is kept.
+function authenticatedEnv(token: string): NodeJS.ProcessEnv {
+  const index = Number(process.env.GIT_CONFIG_COUNT) || 0;
+  const credentials = Buffer.from(`x-access-token:${token}`).toString("base64");
+  return {
+    GIT_CONFIG_COUNT: String(index + 1),
+    [`GIT_CONFIG_KEY_${index}`]: "http.extraHeader",
+    [`GIT_CONFIG_VALUE_${index}`]: `AUTHORIZATION: basic ${credentials}`,
+  };
+}
 
 export class GitOperations {
   private git: SimpleGit;
   private baseDirectory: string;
+  private signal: AbortSignal | undefined;
 
-  constructor(baseDirectory: string) {
+  // `signal` cancels a clone that is still running
+  constructor(baseDirectory: string, signal?: AbortSignal) {
     this.baseDirectory = baseDirectory;
-    this.git = simpleGit();
+    this.signal = signal;
+    this.git = simpleGit(signal ? { abort: signal } : {});
+  }
+
+  async prepareRepository(repository: Repository, options: CloneOptions = {}): Promise<string> {
+    // Local checkouts are analyzed in place, including uncommitted changes
+    if (repository.source === "local" && repository.localPath) {
+      return repository.localPath;
+    }
+
+    return this.cloneRepository(repository.url, options);
   }
 
-  async cloneRepository(repoUrl: string): Promise<string> {
+  async cloneRepository(repoUrl: string, options: CloneOptions = {}): Promise<string> {
+    // Other protocols have their own authentication
+    const token = options.token && repoUrl.startsWith("https://") ? options.token : undefined;
+
     try {
       // Ensure base directory exists
       await fs.mkdir(this.baseDirectory, { recursive: true });
@@ -21,8 +61,17 @@ export class GitOperations {
       const timestamp = Date.now();
       const cloneDirectory = join(this.baseDirectory, `${repoName}-${timestamp}`);
 
+      const git =
+        options.noPrompt || token
+          ? simpleGit(this.signal ? { abort: this.signal } : {}).env({
+              ...process.env,
+              ...(options.noPrompt ? { GIT_TERMINAL_PROMPT: "0" } : {}),
+              ...(token ? authenticatedEnv(token) : {}),
+            })
+          : this.git;
+
       // Clone the repository
-      await this.git.clone(repoUrl, cloneDirectory, {
+      await git.clone(repoUrl, cloneDirectory, {
         "--depth": 1, // Shallow clone for faster operation
         "--single-branch": null,
       });
@@ -77,6 +126,183 @@ export class GitOperations {
     }
   }
 
+  async pushBranchWithToken(
+    repoPath: string,
+    branchName: string,
+    remoteUrl: string,
+    token: string
+  ): Promise<void> {
+    try {
+      // Push straight to the URL so no remote or credential is written to .git/config
+      const repoGit = simpleGit(repoPath).env({ ...process.env, ...authenticatedEnv(token) });
+      await repoGit.push(remoteUrl, `${branchName}:refs/heads/${branchName}`);
+    } catch (error) {
+      throw new Error(
+        `Failed to push branch ${branchName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getCurrentBranch(repoPath: string): Promise<string> {
+    try {
+      const repoGit = simpleGit(repoPath);
+      const branch = (await repoGit.revparse(["--abbrev-ref", "HEAD"])).trim();
+      if (!branch || branch === "HEAD") {
+        throw new Error("HEAD is detached");
+      }
+      return branch;
+    } catch (error) {
+      throw new Error(
+        `Failed to determine current branch: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getHeadCommit(repoPath: string): Promise<string> {
+    try {
+      const repoGit = simpleGit(repoPath);
+      return (await repoGit.revparse(["HEAD"])).trim();
+    } catch (error) {
+      throw new Error(
+        `Failed to determine HEAD commit: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // Identifies the checked-out contents, uncommitted and untracked files included, without
+  // writing anything to the repository
+  async getContentFingerprint(repoPath: string): Promise<string> {
+    try {
+      const repoGit = simpleGit(repoPath);
+      const hash = createHash("sha256");
+      hash.update(await repoGit.revparse(["HEAD^{tree}"]));
+      hash.update(await repoGit.raw(["diff", "HEAD", "--binary"]));
+
+      // Untracked paths are relative to the repository root
+      const root = (await repoGit.revparse(["--show-toplevel"])).trim();
+      const status = await repoGit.status(["--untracked-files=all"]);
+      for (const file of [...status.not_added].sort()) {
+        hash.update(`\0${file}\0`);
+        hash.update(await fs.readFile(join(root, file)));
+      }
+      return hash.digest("hex");
+    } catch (error) {
+      throw new Error(
+        `Failed to fingerprint the repository contents: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // Resolves both ends of a change range, fetching them (and enough history to find their
+  // merge base) when a shallow clone doesn't have them yet
+  // Refs and history are only fetched into a fresh clone; a local checkout is left as it is, so
+  // both ends of the range and their merge base must already be there
+  async prepareDiffRange(
+    repoPath: string,
+    base: string,
+    head: string,
+    canFetch: boolean
+  ): Promise<{ base: string; head: string; mergeBase: string }> {
+    const repoGit = simpleGit(repoPath);
+    const fetchedRefspecs: string[] = [];
+
+    const resolveCommit = async (ref: string): Promise<string | null> => {
+      try {
+        return (await repoGit.revparse(["--verify", "--quiet", `${ref}^{commit}`])).trim() || null;
+      } catch {
+        return null;
+      }
+    };
+
+    const resolveOrFetch = async (ref: string, name: string): Promise<string> => {
+      const local = await resolveCommit(ref);
+      if (local) {
+        return local;
+      }
+      if (!canFetch) {
+        throw new Error(`Could not resolve ${ref}; fetch it into the checkout first`);
+      }
+
+      const refspec = `+${ref}:refs/docs-check/${name}`;
+      await repoGit.fetch(["--no-tags", `--depth=${DIFF_FETCH_DEPTH}`, "origin", refspec]);
+      fetchedRefspecs.push(refspec);
+
+      const fetched = await resolveCommit(`refs/docs-check/${name}`);
+      if (!fetched) {
+        throw new Error(`Could not resolve ${ref}`);
+      }
+      return fetched;
+    };
+
+    try {
+      const baseCommit = await resolveOrFetch(base, "base");
+      const headCommit = await resolveOrFetch(head, "head");
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const mergeBase = (await repoGit.raw(["merge-base", baseCommit, headCommit])).trim();
+          return { base: baseCommit, head: headCommit, mergeBase };
+        } catch (error) {
+          const isShallow = (await repoGit.revparse(["--is-shallow-repository"])).trim() === "true";
+          if (!isShallow) {
+            throw new Error(`${base} and ${head} have no common history`, { cause: error });
+          }
+          if (!canFetch) {
+            throw new Error(
+              `the checkout is shallow and doesn't reach the merge base of ${base} and ${head}; deepen it first`,
+              { cause: error }
+            );
+          }
+
+          // Deepen a few times before falling back to the full history
+          await repoGit.fetch([
+            "--no-tags",
+            attempt < DIFF_DEEPEN_ATTEMPTS ? `--deepen=${DIFF_FETCH_DEPTH}` : "--unshallow",
+            "origin",
+            ...fetchedRefspecs,
+          ]);
+        }
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to prepare diff ${base}...${head}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async checkoutCommit(repoPath: string, commit: string): Promise<void> {
+    try {
+      const repoGit = simpleGit(repoPath);
+      await repoGit.checkout(["--detach", commit]);
+    } catch (error) {
+      throw new Error(
+        `Failed to check out ${commit}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getChangedFiles(repoPath: string, from: string, to: string): Promise<string> {
+    try {
+      const repoGit = simpleGit(repoPath);
+      return await repoGit.diff(["--name-status", "-M", from, to]);
+    } catch (error) {
+      throw new Error(
+        `Failed to list changed files ${from}..${to}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getDiff(repoPath: string, from: string, to: string): Promise<string> {
+    try {
+      const repoGit = simpleGit(repoPath);
+      return await repoGit.diff([from, to]);
+    } catch (error) {
+      throw new Error(
+        `Failed to diff ${from}..${to}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   async getRepositoryInfo(repoPath: string) {
     try {
       const repoGit = simpleGit(repoPath);
@@ -118,11 +344,17 @@ export class GitOperations {
   }
 
   async cleanup(repoPath: string): Promise<void> {
+    // Only remove clones we created; never delete a user's local checkout
+    const pathFromBase = relative(resolve(this.baseDirectory), resolve(repoPath));
+    if (pathFromBase === "" || pathFromBase.startsWith("..") || isAbsolute(pathFromBase)) {
+      return;
+    }
+
     try {
       await fs.rm(repoPath, { recursive: true, force: true });
     } catch (error) {
-      console.warn(
-        `Warning: Failed to cleanup directory ${repoPath}: ${error instanceof Error ? error.message : String(error)}`
+      throw new Error(
+        `Failed to clean up directory ${repoPath}: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
@@ -0,0 +1,345 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { DEFAULT_CONFIG } from "./config.js";
+import { FixEngine } from "./fix-engine.js";
+import { GitHubClient } from "./github-client.js";
+import type {
+  AnalysisBackend,
+  AnalysisResult,
+  DiffScope,
+  DocumentationIssue,
+  GitHubRepository,
+  PlannedReview,
+} from "./types.js";
+
+const REPOSITORY: GitHubRepository = {
+  source: "remote",
+  host: "github",
+  owner: "acme",
+  repo: "docs",
+  url: "https://github.com/acme/docs.git",
+};
+
+function issue(fingerprint: string): DocumentationIssue {
+  return {
+    type: "outdated",
+    severity: "high",
+    effort: "low",
+    title: `Issue ${fingerprint}`,
+    description: "",
+    suggestion: "",
+    file: "README.md",
+    fingerprint,
+  };
+}
+
+function analysisResult(
+  issues: DocumentationIssue[],
+  fields: Partial<AnalysisResult> = {}
+): AnalysisResult {
+  return {
+    repository: REPOSITORY,
+    status: "complete",
+    failures: [],
+    issues,
+    droppedIssues: 0,
+    ungroundedIssues: 0,
+    suppressedIssues: 0,
+    redactedSecrets: 0,
+    usage: { inputTokens: 0, outputTokens: 0, turns: 0, durationMs: 0, passes: [] },
+    summary: { totalIssues: 0, highSeverity: 0, mediumSeverity: 0, lowSeverity: 0 },
+    coverage: { passes: 1, reviewedSections: [], unreviewedSections: [] },
+    timestamp: new Date().toISOString(),
+    ...fields,
+  };
+}
+
+describe("GitHubClient.planIssueSync", () => {
+  const client = new GitHubClient(undefined, DEFAULT_CONFIG.github);
+  const [kept, reworded] = client.planIssues(analysisResult([issue("a1"), issue("b2")]));
+  let server: Server;
+  let planner: GitHubClient;
+
+  before(async () => {
+    const existingIssues = [
+      { number: 1, title: kept.title, body: kept.body },
+      { number: 2, title: "An older title", body: reworded.body },
+      { number: 3, title: "Issue c3", body: "<!-- docs-check:fingerprint=c3 -->" },
+      { number: 4, title: "Not from docs-check", body: "Something else" },
+      {
+        number: 5,
+        title: "A pull request",
+        body: kept.body,
+        pull_request: { url: "https://github.com/acme/docs/pull/5" },
+      },
+    ].map((existing) => ({
+      ...existing,
+      html_url: `https://github.com/acme/docs/issues/${existing.number}`,
+    }));
+
+    // Stands in for the GitHub REST API
+    server = createServer((request, response) => {
+      const found = (request.url ?? "").split("?")[0] === "/repos/acme/docs/issues";
+      response.writeHead(found ? 200 : 404, { "content-type": "application/json" });
+      response.end(JSON.stringify(found ? existingIssues : { message: "Not Found" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    planner = new GitHubClient(undefined, DEFAULT_CONFIG.github, {
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    });
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("plans each issue against the ones earlier runs filed", async () => {
+    const plan = await planner.planIssueSync(
+      REPOSITORY,
+      analysisResult([issue("a1"), issue("b2"), issue("d4")])
+    );
+
+    assert.deepEqual(
+      plan.created.map((plannedIssue) => plannedIssue.key),
+      ["fingerprint:d4"]
+    );
+    assert.deepEqual(
+      plan.updated.map((plannedIssue) => [plannedIssue.number, plannedIssue.title]),
+      [[2, "Issue b2"]]
+    );
+    assert.deepEqual(
+      plan.unchanged.map((plannedIssue) => plannedIssue.number),
+      [1]
+    );
+    assert.deepEqual(plan.closed, [
+      {
+        key: "fingerprint:c3",
+        number: 3,
+        url: "https://github.com/acme/docs/issues/3",
+        title: "Issue c3",
+      },
+    ]);
+  });
+
+  it("closes nothing unless every section was reviewed", async () => {
+    const plan = await planner.planIssueSync(
+      REPOSITORY,
+      analysisResult([issue("a1")], {
+        coverage: {
+          passes: 2,
+          reviewedSections: [],
+          unreviewedSections: [
+            { file: "docs/guide.md", heading: "Guide", startLine: 1, endLine: 9 },
+          ],
+        },
+      })
+    );
+
+    assert.deepEqual(
+      plan.unchanged.map((plannedIssue) => plannedIssue.number),
+      [1]
+    );
+    assert.deepEqual(plan.closed, []);
+  });
+
+  it("closes nothing after a run narrowed to some issue types or files", async () => {
+    for (const narrowedBy of [["issueTypes"], ["include"], ["limits.maxDocFiles"]]) {
+      const plan = await planner.planIssueSync(
+        REPOSITORY,
+        analysisResult([issue("a1")], {
+          coverage: { passes: 1, reviewedSections: [], unreviewedSections: [], narrowedBy },
+        })
+      );
+
+      assert.deepEqual(plan.closed, [], `narrowed by ${narrowedBy}`);
+    }
+  });
+});
+
+describe("GitHubClient.planPullRequestReview", () => {
+  const readme = [
+    "# Tool",
+    "",
+    "Install with `npm install tool`.",
+    "Run `tool --fast`.",
+    "",
+    "## Options",
+    "Use `--quiet` to hide progress.",
+    "",
+  ].join("\n");
+  const diff: DiffScope = {
+    base: "1".repeat(40),
+    head: "2".repeat(40),
+    mergeBase: "1".repeat(40),
+    changedFiles: [{ path: "README.md", status: "modified" }],
+    patch: [
+      "--- a/README.md",
+      "+++ b/README.md",
+      "@@ -2,3 +2,3 @@",
+      " ",
+      "-Install with `yarn add tool`.",
+      "+Install with `npm install tool`.",
+      " Run `tool --fast`.",
+    ].join("\n"),
+    addedLines: { "README.md": [3] },
+  };
+  // Edits proposed for each issue, by title
+  const responses: Record<string, string> = {
+    "Install uses npm": "<<<<<<< SEARCH\nnpm install tool\n=======\npnpm add tool\n>>>>>>> REPLACE",
+    "Fast flag renamed":
+      "<<<<<<< SEARCH\nRun `tool --fast`.\n\n## Options\n=======\nRun `tool --turbo`.\n\n## Flags\n>>>>>>> REPLACE",
+  };
+  let repoPath: string;
+
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-review-"));
+    await writeFile(join(repoPath, "README.md"), readme, "utf-8");
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("comments inline on lines the diff shows and summarizes the rest", async () => {
+    const backend: AnalysisBackend = {
+      name: "scripted",
+      model: "scripted",
+      async *query({ prompt }) {
+        const title = prompt.match(/^Issue: (.*)$/m)?.[1] ?? "";
+        yield { type: "result", text: responses[title] ?? "No edit." };
+      },
+    };
+    const finding = (title: string, fields: Partial<DocumentationIssue>): DocumentationIssue => ({
+      ...issue(title),
+      title,
+      ...fields,
+    });
+
+    const review = await new GitHubClient().planPullRequestReview(
+      analysisResult([
+        finding("Install uses npm", { line: 3 }),
+        finding("Fast flag renamed", { line: 4, suggestion: "Use `--turbo`." }),
+        finding("Quiet flag removed", { line: 7 }),
+        finding("No changelog", { file: undefined }),
+      ]),
+      diff,
+      42,
+      repoPath,
+      new FixEngine(backend),
+      10
+    );
+
+    assert.equal(review.commitId, diff.head);
+    assert.deepEqual(
+      review.inlineComments.map(({ path, line, startLine }) => [path, line, startLine]),
+      [
+        ["README.md", 3, undefined],
+        ["README.md", 4, undefined],
+      ]
+    );
+    assert.match(
+      review.inlineComments[0].body,
+      /```suggestion\nInstall with `pnpm add tool`\.\n```/
+    );
+    // A suggestion that reaches past the diff's lines falls back to the written suggestion
+    assert.match(review.inlineComments[1].body, /\*\*Suggested Fix:\*\* Use `--turbo`\./);
+    assert.deepEqual(
+      review.summaryIssues.map((summaryIssue) => summaryIssue.title),
+      ["Quiet flag removed", "No changelog"]
+    );
+    assert.equal(await readFile(join(repoPath, "README.md"), "utf-8"), readme);
+  });
+});
+
+describe("GitHubClient.submitPullRequestReview", () => {
+  const requests: string[] = [];
+  let server: Server;
+  let client: GitHubClient;
+
+  before(async () => {
+    const responses: Record<string, unknown> = {
+      "GET /repos/acme/docs/pulls/42/comments": [
+        { id: 7, line: 3, body: "**Old finding**\n\n<!-- docs-check:fingerprint=0123abcd -->" },
+      ],
+      "PATCH /repos/acme/docs/pulls/comments/7": { id: 7 },
+      "GET /repos/acme/docs/issues/42/comments": [],
+      "POST /repos/acme/docs/issues/42/comments": {
+        id: 1,
+        html_url: "https://github.com/acme/docs/pull/42#issuecomment-1",
+      },
+    };
+
+    // Stands in for the GitHub REST and GraphQL APIs
+    server = createServer(async (request, response) => {
+      const route = `${request.method} ${(request.url ?? "").split("?")[0]}`;
+      let body = "";
+      for await (const chunk of request) {
+        body += chunk;
+      }
+      requests.push(route === "POST /graphql" && body.includes("mutation") ? "resolve" : route);
+
+      const threads = {
+        nodes: [{ id: "T7", isResolved: false, comments: { nodes: [{ databaseId: 7 }] } }],
+      };
+      const payload =
+        route === "POST /graphql"
+          ? { data: { repository: { pullRequest: { reviewThreads: threads } } } }
+          : responses[route];
+      response.writeHead(payload ? 200 : 404, { "content-type": "application/json" });
+      response.end(JSON.stringify(payload ?? { message: "Not Found" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    client = new GitHubClient("token", DEFAULT_CONFIG.github, {
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    });
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function plannedReview(fields: Partial<PlannedReview>): PlannedReview {
+    return {
+      pullNumber: 42,
+      commitId: "2".repeat(40),
+      inlineComments: [],
+      summaryIssues: [],
+      summary: "Summary",
+      status: "complete",
+      coverage: { passes: 1, reviewedSections: [], unreviewedSections: [] },
+      ...fields,
+    };
+  }
+
+  it("leaves earlier comments alone after a partial run", async () => {
+    requests.length = 0;
+    const result = await client.submitPullRequestReview(
+      REPOSITORY,
+      plannedReview({ status: "partial" })
+    );
+
+    assert.equal(result.resolved, 0);
+    assert.deepEqual(requests, [
+      "GET /repos/acme/docs/pulls/42/comments",
+      "GET /repos/acme/docs/issues/42/comments",
+      "POST /repos/acme/docs/issues/42/comments",
+    ]);
+  });
+
+  it("resolves comments for findings a complete run no longer reports", async () => {
+    requests.length = 0;
+    const result = await client.submitPullRequestReview(REPOSITORY, plannedReview({}));
+
+    assert.equal(result.resolved, 1);
+    assert.deepEqual(requests.slice(1, 4), [
+      "PATCH /repos/acme/docs/pulls/comments/7",
+      "POST /graphql",
+      "resolve",
+    ]);
+  });
+});
@@ -1,78 +1,546 @@
-import { promises as fs } from "node:fs";
-import { join } from "node:path";
 import { Octokit } from "@octokit/rest";
+import { DEFAULT_CONFIG, DEFAULT_LABEL_COLOR } from "./config.js";
+import { parseCommentableLines } from "./diff-scope.js";
+import type { FixEngine } from "./fix-engine.js";
 import { GitOperations } from "./git-operations.js";
+import {
+  fenceSnippet,
+  fingerprintIssue,
+  ISSUE_TYPE_LABELS,
+  renderIssueTemplate,
+} from "./issue-utils.js";
 import type {
   AnalysisResult,
+  AppliedFix,
+  DiffScope,
   DocumentationIssue,
+  FiledIssue,
   GitHubActionResult,
+  GitHubIssueConfig,
   GitHubRepository,
+  IssueLevel,
+  IssueSyncPlan,
+  IssueSyncResult,
+  PlannedIssue,
+  PlannedPullRequest,
+  PlannedReview,
+  PlannedReviewComment,
+  PullRequestInfo,
+  PullRequestReviewResult,
+  RepositoryListing,
 } from "./types.js";
 
+// Hidden markers let a re-run find the issues and comments an earlier run posted
+const FINGERPRINT_MARKER_PATTERN = /<!-- docs-check:fingerprint=([0-9a-f]+) -->/;
+const GROUP_MARKER_PATTERN = /<!-- docs-check:group=(high|medium|low) -->/;
+const GROUPED_ITEM_PATTERN =
+  /<!-- docs-check:item=([0-9a-f]+) -->\n([\s\S]*?)<!-- \/docs-check:item -->/g;
+const GROUPED_ITEM_END_MARKER = "<!-- /docs-check:item -->";
+const RESOLVED_MARKER = "<!-- docs-check:resolved -->";
+const REVIEW_SUMMARY_MARKER = "<!-- docs-check:review-summary -->";
+
+// The key is "fingerprint:<fingerprint>" for a single issue, "group:<severity>" for a grouped one
+interface ExistingIssue extends FiledIssue {
+  body: string;
+}
+
+interface ReviewSuggestion {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+function fingerprintMarker(fingerprint: string): string {
+  return `<!-- docs-check:fingerprint=${fingerprint} -->`;
+}
+
+function groupMarker(severity: IssueLevel): string {
+  return `<!-- docs-check:group=${severity} -->`;
+}
+
+function groupedItemStartMarker(fingerprint: string): string {
+  return `<!-- docs-check:item=${fingerprint} -->`;
+}
+
+// Grouped issues are checked first because their entries carry fingerprints of their own
+function issueKeyFromBody(body: string): string | null {
+  const group = body.match(GROUP_MARKER_PATTERN);
+  if (group) {
+    return `group:${group[1]}`;
+  }
+  const fingerprint = body.match(FINGERPRINT_MARKER_PATTERN);
+  return fingerprint ? `fingerprint:${fingerprint[1]}` : null;
+}
+
+// Entries of a grouped issue body, with the position number stripped from their heading
+function parseGroupedItems(body: string): { fingerprint: string; text: string }[] {
+  return [...body.matchAll(GROUPED_ITEM_PATTERN)].map((match) => ({
+    fingerprint: match[1],
+    text: match[2].replace(/^## \d+\. /, "## "),
+  }));
+}
+
+// The smallest run of whole lines that turns the original file into the fixed one, since
+// a suggestion replaces entire lines
+function toSuggestion(original: string, updated: string): ReviewSuggestion {
+  const before = original.split("\n");
+  const after = updated.split("\n");
+
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  // A pure insertion has to be anchored to a neighbouring line
+  if (before.length - suffix === prefix) {
+    if (prefix > 0) {
+      prefix--;
+    } else {
+      suffix--;
+    }
+  }
+
+  return {
+    startLine: prefix + 1,
+    endLine: before.length - suffix,
+    text: after.slice(prefix, after.length - suffix).join("\n"),
+  };
+}
+
+// The fields of GitHub's repository responses that listings are built from
+interface RepositoryData {
+  name: string;
+  owner: { login: string };
+  clone_url?: string;
+  topics?: string[];
+  language?: string | null;
+  archived?: boolean;
+  fork: boolean;
+}
+
+function toRepositoryListing(data: RepositoryData): RepositoryListing {
+  return {
+    owner: data.owner.login,
+    repo: data.name,
+    cloneUrl: data.clone_url ?? `https://github.com/${data.owner.login}/${data.name}.git`,
+    topics: data.topics ?? [],
+    language: data.language ?? null,
+    archived: data.archived ?? false,
+    fork: data.fork,
+  };
+}
+
+export interface GitHubClientOptions {
+  // REST API root for GitHub Enterprise Server or a stub server (default: https://api.github.com)
+  baseUrl?: string;
+}
+
 export class GitHubClient {
   private octokit: Octokit;
+  private token: string | undefined;
+  private issueConfig: GitHubIssueConfig;
 
-  constructor(token: string) {
+  // Planning methods work without a token; only creating issues and PRs needs one
+  constructor(
+    token?: string,
+    issueConfig: GitHubIssueConfig = DEFAULT_CONFIG.github,
+    options: GitHubClientOptions = {}
+  ) {
+    this.token = token;
+    this.issueConfig = issueConfig;
     this.octokit = new Octokit({
-      auth: token,
+      ...(token ? { auth: token } : {}),
+      ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
     });
   }
 
-  async createIssuesFromAnalysis(
+  // Every repository of an organization, or of a user when `owner` is not an organization
+  async listRepositories(owner: string): Promise<RepositoryListing[]> {
+    try {
+      const repositories = await this.octokit.paginate(this.octokit.rest.repos.listForOrg, {
+        org: owner,
+        type: "all",
+        per_page: 100,
+      });
+      return repositories.map(toRepositoryListing);
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
+        throw new Error(
+          `Failed to list repositories of ${owner}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    try {
+      const repositories = await this.octokit.paginate(this.octokit.rest.repos.listForUser, {
+        username: owner,
+        type: "owner",
+        per_page: 100,
+      });
+      return repositories.map(toRepositoryListing);
+    } catch (error) {
+      throw new Error(
+        `Failed to list repositories of ${owner}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getRepository(owner: string, repo: string): Promise<RepositoryListing> {
+    try {
+      const { data } = await this.octokit.rest.repos.get({ owner, repo });
+      return toRepositoryListing(data);
+    } catch (error) {
+      throw new Error(
+        `Failed to load repository ${owner}/${repo}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // Files new findings, updates the docs-check issues that still apply and closes the ones that
+  // no longer do, so repeated runs don't open duplicates
+  async syncIssuesFromAnalysis(
     repository: GitHubRepository,
     analysisResult: AnalysisResult
-  ): Promise<GitHubActionResult[]> {
-    const results: GitHubActionResult[] = [];
+  ): Promise<IssueSyncResult> {
+    if (!this.token) {
+      throw new Error("A GitHub token is required to file issues");
+    }
+
+    const { owner, repo } = repository;
+    const result: IssueSyncResult = { created: [], updated: [], unchanged: [], closed: [] };
 
     try {
-      // Group issues by severity for better organization
-      const highSeverityIssues = analysisResult.issues.filter((issue) => issue.severity === "high");
-      const mediumSeverityIssues = analysisResult.issues.filter(
-        (issue) => issue.severity === "medium"
+      const plan = this.planIssueChanges(
+        analysisResult,
+        await this.findDocsCheckIssues(repository)
       );
-      const lowSeverityIssues = analysisResult.issues.filter((issue) => issue.severity === "low");
-
-      // Create high severity issues individually
-      for (const issue of highSeverityIssues) {
-        const result = await this.createSingleIssue(repository, issue);
-        results.push(result);
-      }
 
-      // Create grouped issues for medium and low severity
-      if (mediumSeverityIssues.length > 0) {
-        const result = await this.createGroupedIssue(
+      if (this.issueConfig.provisionLabels) {
+        await this.provisionLabels(
           repository,
-          "Medium Priority Documentation Issues",
-          mediumSeverityIssues,
-          "medium"
+          plan.created.flatMap((plannedIssue) => plannedIssue.labels)
         );
-        results.push(result);
       }
+      const milestones = await this.resolveMilestones(repository, plan.created);
+      const issueNumbers = new Map<string, number>();
 
-      if (lowSeverityIssues.length > 0) {
-        const result = await this.createGroupedIssue(
-          repository,
-          "Low Priority Documentation Issues",
-          lowSeverityIssues,
-          "low"
-        );
-        results.push(result);
+      for (const plannedIssue of plan.created) {
+        const milestone =
+          plannedIssue.milestone !== undefined ? milestones.get(plannedIssue.milestone) : undefined;
+        const response = await this.octokit.rest.issues.create({
+          owner,
+          repo,
+          title: plannedIssue.title,
+          body: plannedIssue.body,
+          labels: plannedIssue.labels,
+          ...(plannedIssue.assignees.length > 0 ? { assignees: plannedIssue.assignees } : {}),
+          ...(milestone !== undefined ? { milestone } : {}),
+        });
+        issueNumbers.set(plannedIssue.key, response.data.number);
+        result.created.push({
+          type: "issue",
+          url: response.data.html_url,
+          number: response.data.number,
+        });
+      }
+
+      for (const plannedIssue of plan.updated) {
+        // Labels, assignees and milestones are left alone so triage done on the issue survives
+        await this.octokit.rest.issues.update({
+          owner,
+          repo,
+          issue_number: plannedIssue.number,
+          title: plannedIssue.title,
+          body: plannedIssue.body,
+        });
+        issueNumbers.set(plannedIssue.key, plannedIssue.number);
+        result.updated.push({ type: "issue", url: plannedIssue.url, number: plannedIssue.number });
+      }
+
+      for (const plannedIssue of plan.unchanged) {
+        issueNumbers.set(plannedIssue.key, plannedIssue.number);
+        result.unchanged.push({
+          type: "issue",
+          url: plannedIssue.url,
+          number: plannedIssue.number,
+        });
+      }
+
+      const plannedIssues = [...plan.created, ...plan.updated, ...plan.unchanged];
+      for (const stale of plan.closed) {
+        await this.octokit.rest.issues.createComment({
+          owner,
+          repo,
+          issue_number: stale.number,
+          body: this.generateClosingComment(stale.key, plannedIssues, issueNumbers, analysisResult),
+        });
+        await this.octokit.rest.issues.update({
+          owner,
+          repo,
+          issue_number: stale.number,
+          state: "closed",
+          state_reason: "completed",
+        });
+        result.closed.push({ type: "issue", url: stale.url, number: stale.number });
       }
     } catch (error) {
       throw new Error(
-        `Failed to create GitHub issues: ${error instanceof Error ? error.message : String(error)}`
+        `Failed to sync GitHub issues: ${error instanceof Error ? error.message : String(error)}`
       );
     }
 
-    return results;
+    return result;
   }
 
-  private async createSingleIssue(
+  // What syncIssuesFromAnalysis would do, planned against the issues earlier runs filed. Reading
+  // them needs no token on public repositories.
+  async planIssueSync(
     repository: GitHubRepository,
-    issue: DocumentationIssue
-  ): Promise<GitHubActionResult> {
+    analysisResult: AnalysisResult
+  ): Promise<IssueSyncPlan> {
+    try {
+      return this.planIssueChanges(analysisResult, await this.findDocsCheckIssues(repository));
+    } catch (error) {
+      throw new Error(
+        `Failed to plan GitHub issues: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private planIssueChanges(
+    analysisResult: AnalysisResult,
+    existingIssues: ExistingIssue[]
+  ): IssueSyncPlan {
+    const plan: IssueSyncPlan = { created: [], updated: [], unchanged: [], closed: [] };
+
+    // Only a complete run over the whole repository and every issue type can tell that an issue
+    // went away
+    const reviewedEverything =
+      analysisResult.status === "complete" &&
+      analysisResult.coverage.unreviewedSections.length === 0 &&
+      !analysisResult.coverage.narrowedBy &&
+      !analysisResult.diff;
+    const claimedNumbers = new Set<number>();
+
+    for (const plannedIssue of this.planIssues(analysisResult)) {
+      const previous = existingIssues.find(
+        (existing) => existing.key === plannedIssue.key && !claimedNumbers.has(existing.number)
+      );
+      if (!previous) {
+        plan.created.push(plannedIssue);
+        continue;
+      }
+      claimedNumbers.add(previous.number);
+
+      // A partial run must not drop group entries it had no chance to re-check
+      const body =
+        plannedIssue.key.startsWith("group:") && !reviewedEverything
+          ? this.mergeGroupedIssueBody(plannedIssue, previous.body)
+          : plannedIssue.body;
+      const update = { ...plannedIssue, body, number: previous.number, url: previous.url };
+
+      if (previous.title === plannedIssue.title && previous.body === body) {
+        plan.unchanged.push(update);
+      } else {
+        plan.updated.push(update);
+      }
+    }
+
+    if (!reviewedEverything) {
+      return plan;
+    }
+
+    // Accepted issues stay open; the baseline only hides them from new reports
+    const baselinedKeys = new Set(
+      (analysisResult.baseline?.baselinedIssues ?? []).map(
+        (issue) => `fingerprint:${issue.fingerprint ?? fingerprintIssue(issue)}`
+      )
+    );
+    plan.closed = existingIssues
+      .filter((stale) => !claimedNumbers.has(stale.number) && !baselinedKeys.has(stale.key))
+      .map(({ key, number, url, title }) => ({ key, number, url, title }));
+
+    return plan;
+  }
+
+  // Creates labels the repository doesn't have yet, so GitHub doesn't add them in its default grey.
+  // Existing labels are never restyled.
+  async provisionLabels(repository: GitHubRepository, labels: string[]): Promise<string[]> {
+    const existing = await this.octokit.paginate(this.octokit.rest.issues.listLabelsForRepo, {
+      owner: repository.owner,
+      repo: repository.repo,
+      per_page: 100,
+    });
+    const existingNames = new Set(existing.map((label) => label.name.toLowerCase()));
+
+    const created: string[] = [];
+    for (const label of new Set(labels)) {
+      if (existingNames.has(label.toLowerCase())) {
+        continue;
+      }
+
+      const definition = this.issueConfig.labelDefinitions[label];
+      await this.octokit.rest.issues.createLabel({
+        owner: repository.owner,
+        repo: repository.repo,
+        name: label,
+        color: definition?.color ?? DEFAULT_LABEL_COLOR,
+        ...(definition?.description ? { description: definition.description } : {}),
+      });
+      existingNames.add(label.toLowerCase());
+      created.push(label);
+    }
+
+    return created;
+  }
+
+  // Milestones may be configured by title; the API only accepts numbers
+  private async resolveMilestones(
+    repository: GitHubRepository,
+    plannedIssues: PlannedIssue[]
+  ): Promise<Map<number | string, number>> {
+    const resolved = new Map<number | string, number>();
+    const titles = new Set<string>();
+
+    for (const { milestone } of plannedIssues) {
+      if (typeof milestone === "number") {
+        resolved.set(milestone, milestone);
+      } else if (milestone !== undefined) {
+        titles.add(milestone);
+      }
+    }
+    if (titles.size === 0) {
+      return resolved;
+    }
+
+    const milestones = await this.octokit.paginate(this.octokit.rest.issues.listMilestones, {
+      owner: repository.owner,
+      repo: repository.repo,
+      state: "open",
+      per_page: 100,
+    });
+    for (const title of titles) {
+      const match = milestones.find((milestone) => milestone.title === title);
+      if (!match) {
+        throw new Error(`Milestone "${title}" does not exist or is closed`);
+      }
+      resolved.set(title, match.number);
+    }
+
+    return resolved;
+  }
+
+  // Open issues created by earlier runs, oldest first, identified by the marker in their body
+  private async findDocsCheckIssues(repository: GitHubRepository): Promise<ExistingIssue[]> {
+    const issues = await this.octokit.paginate(this.octokit.rest.issues.listForRepo, {
+      owner: repository.owner,
+      repo: repository.repo,
+      state: "open",
+      sort: "created",
+      direction: "asc",
+      per_page: 100,
+    });
+
+    return issues.flatMap((issue) => {
+      // The issues endpoint also returns pull requests
+      const key = issue.pull_request || !issue.body ? null : issueKeyFromBody(issue.body);
+      return key && issue.body
+        ? [
+            {
+              key,
+              number: issue.number,
+              url: issue.html_url,
+              title: issue.title,
+              body: issue.body,
+            },
+          ]
+        : [];
+    });
+  }
+
+  private generateClosingComment(
+    key: string,
+    plannedIssues: PlannedIssue[],
+    issueNumbers: Map<string, number>,
+    analysisResult: AnalysisResult
+  ): string {
+    const fingerprint = key.startsWith("fingerprint:") ? key.slice("fingerprint:".length) : null;
+    const trackedIn = fingerprint
+      ? plannedIssues.find((plannedIssue) => plannedIssue.fingerprints.includes(fingerprint))
+      : undefined;
+    const trackedNumber = trackedIn ? issueNumbers.get(trackedIn.key) : undefined;
+
+    if (trackedNumber !== undefined) {
+      return `This issue is now tracked in #${trackedNumber}, so it is being closed.`;
+    }
+
+    const commit = analysisResult.commit ? ` as of ${analysisResult.commit.slice(0, 12)}` : "";
+    return `docs-check no longer reports ${fingerprint ? "this issue" : "any issues in this group"}${commit}, so it is being closed. Reopen it if the problem is still there.`;
+  }
+
+  // Builds the exact issues syncIssuesFromAnalysis would file, without calling GitHub
+  planIssues(analysisResult: AnalysisResult): PlannedIssue[] {
+    const plannedIssues: PlannedIssue[] = [];
+
+    // Group issues by severity for better organization
+    const highSeverityIssues = analysisResult.issues.filter((issue) => issue.severity === "high");
+    const mediumSeverityIssues = analysisResult.issues.filter(
+      (issue) => issue.severity === "medium"
+    );
+    const lowSeverityIssues = analysisResult.issues.filter((issue) => issue.severity === "low");
+
+    // High severity issues are filed individually
+    for (const issue of highSeverityIssues) {
+      plannedIssues.push(this.planSingleIssue(issue));
+    }
+
+    // Medium and low severity issues are grouped
+    if (mediumSeverityIssues.length > 0) {
+      plannedIssues.push(
+        this.planGroupedIssue(
+          "Medium Priority Documentation Issues",
+          mediumSeverityIssues,
+          "medium"
+        )
+      );
+    }
+
+    if (lowSeverityIssues.length > 0) {
+      plannedIssues.push(
+        this.planGroupedIssue("Low Priority Documentation Issues", lowSeverityIssues, "low")
+      );
+    }
+
+    return plannedIssues;
+  }
+
+  private planSingleIssue(issue: DocumentationIssue): PlannedIssue {
     const labels = this.getLabelsForIssue(issue);
+    const fingerprint = issue.fingerprint ?? fingerprintIssue(issue);
+    const { template } = this.issueConfig.issues[issue.severity] ?? {};
+    const body = template
+      ? `${renderIssueTemplate(template, issue).trimEnd()}\n\n`
+      : this.generateIssueBody(issue);
+
+    return {
+      key: `fingerprint:${fingerprint}`,
+      title: issue.title,
+      body: `${body}${fingerprintMarker(fingerprint)}`,
+      labels,
+      ...this.planIssueFields(issue.severity),
+      fingerprints: [fingerprint],
+    };
+  }
 
+  private generateIssueBody(issue: DocumentationIssue): string {
     let body = `**Type:** ${issue.type}\n**Severity:** ${issue.severity}\n\n`;
     body += `**Description:**\n${issue.description}\n\n`;
 
@@ -80,110 +548,146 @@ export class GitHubClient {
       body += `**File:** \`${issue.file}\`${issue.line ? ` (line ${issue.line})` : ""}\n\n`;
     }
 
+    if (issue.snippet) {
+      body += `${fenceSnippet(issue.snippet)}\n\n`;
+    }
+
     if (issue.suggestion) {
       body += `**Suggested Fix:**\n${issue.suggestion}\n\n`;
     }
 
-    body += "---\n*This issue was automatically generated by docs-check*";
+    body += "---\n*This issue was automatically generated by docs-check*\n";
 
-    const response = await this.octokit.rest.issues.create({
-      owner: repository.owner,
-      repo: repository.repo,
-      title: issue.title,
-      body,
-      labels,
-    });
+    return body;
+  }
 
+  private planIssueFields(severity: IssueLevel): Pick<PlannedIssue, "assignees" | "milestone"> {
+    const settings = this.issueConfig.issues[severity] ?? {};
     return {
-      type: "issue",
-      url: response.data.html_url,
-      number: response.data.number,
+      assignees: settings.assignees ?? [],
+      ...(settings.milestone !== undefined ? { milestone: settings.milestone } : {}),
     };
   }
 
-  private async createGroupedIssue(
-    repository: GitHubRepository,
+  private planGroupedIssue(
     title: string,
     issues: DocumentationIssue[],
-    severity: string
-  ): Promise<GitHubActionResult> {
-    let body = `This issue contains ${issues.length} ${severity} priority documentation issues found during automated analysis.\n\n`;
-
-    for (let i = 0; i < issues.length; i++) {
-      const issue = issues[i];
-      body += `## ${i + 1}. ${issue.title}\n\n`;
-      body += `**Type:** ${issue.type}\n\n`;
-      body += `**Description:** ${issue.description}\n\n`;
-
-      if (issue.file) {
-        body += `**File:** \`${issue.file}\`${issue.line ? ` (line ${issue.line})` : ""}\n\n`;
-      }
+    severity: IssueLevel
+  ): PlannedIssue {
+    const items = issues.map((issue) => ({
+      fingerprint: issue.fingerprint ?? fingerprintIssue(issue),
+      text: this.formatGroupedItem(issue),
+    }));
 
-      if (issue.suggestion) {
-        body += `**Suggested Fix:** ${issue.suggestion}\n\n`;
-      }
+    // Entries in a group differ in type and effort, so only the shared labels apply
+    const { labels } = this.issueConfig;
+    const groupLabels = [...new Set([...labels.always, ...labels.severity[severity]])];
 
-      body += "---\n\n";
+    return {
+      key: `group:${severity}`,
+      title,
+      body: this.generateGroupedIssueBody(severity, items),
+      labels: groupLabels,
+      ...this.planIssueFields(severity),
+      fingerprints: items.map((item) => item.fingerprint),
+    };
+  }
+
+  private formatGroupedItem(issue: DocumentationIssue): string {
+    const { template } = this.issueConfig.issues[issue.severity] ?? {};
+    if (template) {
+      return `## ${issue.title}\n\n${renderIssueTemplate(template, issue).trimEnd()}\n\n`;
     }
 
-    body += "*This issue was automatically generated by docs-check*";
+    let text = `## ${issue.title}\n\n`;
+    text += `**Type:** ${issue.type}\n\n`;
+    text += `**Description:** ${issue.description}\n\n`;
 
-    const labels = ["documentation", severity === "medium" ? "enhancement" : "good first issue"];
+    if (issue.file) {
+      text += `**File:** \`${issue.file}\`${issue.line ? ` (line ${issue.line})` : ""}\n\n`;
+    }
 
-    const response = await this.octokit.rest.issues.create({
-      owner: repository.owner,
-      repo: repository.repo,
-      title,
-      body,
-      labels,
-    });
+    if (issue.snippet) {
+      text += `${fenceSnippet(issue.snippet)}\n\n`;
+    }
 
-    return {
-      type: "issue",
-      url: response.data.html_url,
-      number: response.data.number,
-    };
+    if (issue.suggestion) {
+      text += `**Suggested Fix:** ${issue.suggestion}\n\n`;
+    }
+
+    return text;
+  }
+
+  // Each entry is wrapped in markers so a later run can tell the entries apart
+  private generateGroupedIssueBody(
+    severity: IssueLevel,
+    items: { fingerprint: string; text: string }[]
+  ): string {
+    let body = `This issue contains ${items.length} ${severity} priority documentation issues found during automated analysis.\n\n`;
+
+    for (const [index, item] of items.entries()) {
+      body += `${groupedItemStartMarker(item.fingerprint)}\n`;
+      body += item.text.replace(/^## /, `## ${index + 1}. `);
+      body += `${GROUPED_ITEM_END_MARKER}\n\n---\n\n`;
+    }
+
+    body += "*This issue was automatically generated by docs-check*\n";
+    body += groupMarker(severity);
+
+    return body;
+  }
+
+  // Keeps entries of the previous body that this run didn't report, after the current ones
+  private mergeGroupedIssueBody(plannedIssue: PlannedIssue, previousBody: string): string {
+    const severity = plannedIssue.key.slice("group:".length) as IssueLevel;
+    const items = parseGroupedItems(plannedIssue.body);
+    const current = new Set(plannedIssue.fingerprints);
+
+    for (const item of parseGroupedItems(previousBody)) {
+      if (!current.has(item.fingerprint)) {
+        items.push(item);
+      }
+    }
+
+    return this.generateGroupedIssueBody(severity, items);
   }
 
   async createPullRequestWithFixes(
     repository: GitHubRepository,
     analysisResult: AnalysisResult,
-    repoPath: string
+    repoPath: string,
+    fixEngine: FixEngine
   ): Promise<GitHubActionResult | null> {
-    try {
-      const gitOps = new GitOperations(repoPath);
-      const branchName = `docs-check-fixes-${Date.now()}`;
-
-      // Create a new branch
-      await gitOps.createBranch(repoPath, branchName);
+    if (!this.token) {
+      throw new Error("A GitHub token is required to open pull requests");
+    }
 
-      // Apply fixes for simple issues
-      const fixedIssues = await this.applyAutomaticFixes(repoPath, analysisResult.issues);
+    try {
+      const plannedPullRequest = await this.preparePullRequest(analysisResult, repoPath, fixEngine);
 
-      if (fixedIssues.length === 0) {
-        console.log("No automatic fixes could be applied.");
+      // Null tells the caller there was nothing to open; reporters say so
+      if (!plannedPullRequest) {
         return null;
       }
 
-      // Commit changes
-      const commitMessage = `docs: Fix ${fixedIssues.length} documentation issues\n\nAutomatic fixes applied for:\n${fixedIssues.map((issue) => `- ${issue.title}`).join("\n")}`;
-
-      await gitOps.commitChanges(repoPath, commitMessage);
-
-      // Push branch (this would require authentication setup)
-      // await gitOps.pushBranch(repoPath, branchName);
-
-      // Create pull request
-      const prTitle = `📚 Fix documentation issues (${fixedIssues.length} fixes)`;
-      const prBody = this.generatePullRequestBody(fixedIssues, analysisResult);
+      // The branch must exist on GitHub before a pull request can reference it. The API knows
+      // the clone URL on GitHub Enterprise Server hosts too.
+      const { cloneUrl } = await this.getRepository(repository.owner, repository.repo);
+      const gitOps = new GitOperations(repoPath);
+      await gitOps.pushBranchWithToken(
+        repoPath,
+        plannedPullRequest.branchName,
+        cloneUrl,
+        this.token
+      );
 
       const response = await this.octokit.rest.pulls.create({
         owner: repository.owner,
         repo: repository.repo,
-        title: prTitle,
-        head: branchName,
-        base: "main", // Assuming main branch, could be made configurable
-        body: prBody,
+        title: plannedPullRequest.title,
+        head: plannedPullRequest.branchName,
+        base: plannedPullRequest.base,
+        body: plannedPullRequest.body,
       });
 
       return {
@@ -198,67 +702,67 @@ export class GitHubClient {
     }
   }
 
-  private async applyAutomaticFixes(
+  // Applies fixes on a new local branch and commits them, without pushing or calling GitHub
+  async preparePullRequest(
+    analysisResult: AnalysisResult,
     repoPath: string,
-    issues: DocumentationIssue[]
-  ): Promise<DocumentationIssue[]> {
-    const fixableIssues = issues.filter(
-      (issue) =>
-        issue.type === "broken-link" || (issue.type === "missing" && issue.suggestion && issue.file)
-    );
+    fixEngine: FixEngine
+  ): Promise<PlannedPullRequest | null> {
+    const gitOps = new GitOperations(repoPath);
+    const branchName = `docs-check-fixes-${Date.now()}`;
 
-    const fixedIssues: DocumentationIssue[] = [];
+    // The checked-out branch of a fresh clone is the repository's default branch
+    const base = await gitOps.getCurrentBranch(repoPath);
 
-    for (const issue of fixableIssues) {
-      try {
-        if (issue.file && issue.suggestion) {
-          const filePath = join(repoPath, issue.file);
+    // Create a new branch
+    await gitOps.createBranch(repoPath, branchName);
 
-          // Read file content
-          const content = await fs.readFile(filePath, "utf-8");
+    // Ask Claude for scoped edits and keep only those that apply cleanly
+    const { applied, skipped } = await fixEngine.applyFixes(repoPath, analysisResult.issues);
 
-          // Apply simple text replacements (this is a basic implementation)
-          // In a real scenario, you'd want more sophisticated fixing logic
-          let fixedContent = content;
+    if (applied.length === 0) {
+      return null;
+    }
 
-          if (issue.type === "missing" && issue.suggestion.includes("add")) {
-            // For missing content, append at the end of file
-            fixedContent += `\n\n${issue.suggestion}\n`;
-          }
+    // Commit only the files that were fixed
+    const fixedFiles = [...new Set(applied.map((fix) => fix.file))];
+    const commitMessage = `docs: Fix ${applied.length} documentation issues\n\nAutomatic fixes applied for:\n${applied.map((fix) => `- ${fix.issue.title}`).join("\n")}`;
 
-          // Write back to file
-          await fs.writeFile(filePath, fixedContent, "utf-8");
-          fixedIssues.push(issue);
-        }
-      } catch (error) {
-        console.warn(`Failed to apply fix for issue "${issue.title}": ${error}`);
-      }
-    }
+    await gitOps.commitChanges(repoPath, commitMessage, fixedFiles);
 
-    return fixedIssues;
+    return {
+      branchName,
+      base,
+      title: `📚 Fix documentation issues (${applied.length} fixes)`,
+      body: this.generatePullRequestBody(applied, analysisResult),
+      diff: await gitOps.getDiff(repoPath, base, "HEAD"),
+      appliedFixes: applied,
+      skippedFixes: skipped,
+    };
   }
 
   private generatePullRequestBody(
-    fixedIssues: DocumentationIssue[],
+    appliedFixes: AppliedFix[],
     analysisResult: AnalysisResult
   ): string {
     let body = `## 📚 Documentation Fixes\n\n`;
-    body += `This PR automatically fixes ${fixedIssues.length} documentation issues identified during analysis.\n\n`;
+    body += `This PR automatically fixes ${appliedFixes.length} documentation issues identified during analysis.\n\n`;
 
     body += `### Fixed Issues:\n\n`;
-    for (const issue of fixedIssues) {
+    for (const { issue, file, edits } of appliedFixes) {
       body += `- **${issue.title}** (${issue.type})\n`;
-      body += `  - File: \`${issue.file}\`\n`;
+      body += `  - File: \`${file}\`\n`;
       if (issue.line) {
         body += `  - Line: ${issue.line}\n`;
       }
+      body += `  - Edits: ${edits.length}\n`;
       body += `  - Description: ${issue.description}\n\n`;
     }
 
-    const remainingIssues = analysisResult.issues.length - fixedIssues.length;
+    const remainingIssues = analysisResult.issues.length - appliedFixes.length;
     if (remainingIssues > 0) {
       body += `### Remaining Issues:\n\n`;
-      body += `${remainingIssues} issues require manual attention and will be created as separate GitHub issues.\n\n`;
+      body += `${remainingIssues} issues couldn't be fixed automatically and need manual attention. Run \`docs-check file-issues\` to track them as GitHub issues.\n\n`;
     }
 
     body += `---\n*This PR was automatically generated by docs-check*`;
@@ -266,36 +770,399 @@ export class GitHubClient {
     return body;
   }
 
+  async getPullRequest(repository: GitHubRepository, pullNumber: number): Promise<PullRequestInfo> {
+    try {
+      const { data } = await this.octokit.rest.pulls.get({
+        owner: repository.owner,
+        repo: repository.repo,
+        pull_number: pullNumber,
+      });
+
+      return {
+        number: data.number,
+        url: data.html_url,
+        baseSha: data.base.sha,
+        headSha: data.head.sha,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to load pull request #${pullNumber}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // Splits findings into inline comments on lines the pull request's diff shows and a summary
+  // for everything else, without calling GitHub
+  async planPullRequestReview(
+    analysisResult: AnalysisResult,
+    diff: DiffScope,
+    pullNumber: number,
+    repoPath: string,
+    fixEngine: FixEngine,
+    maxSuggestions: number
+  ): Promise<PlannedReview> {
+    const commentableLines = parseCommentableLines(diff.patch);
+    const inlineComments: PlannedReviewComment[] = [];
+    const summaryIssues: DocumentationIssue[] = [];
+    let suggestionsRequested = 0;
+
+    for (const issue of analysisResult.issues) {
+      const lines = issue.file ? (commentableLines[issue.file] ?? []) : [];
+      if (!issue.file || !issue.line || !lines.includes(issue.line)) {
+        summaryIssues.push(issue);
+        continue;
+      }
+
+      let suggestion: ReviewSuggestion | null = null;
+      if (suggestionsRequested < maxSuggestions) {
+        suggestionsRequested++;
+        suggestion = await this.proposeSuggestion(repoPath, issue, fixEngine, lines);
+      }
+
+      inlineComments.push(this.planReviewComment(issue, issue.file, issue.line, suggestion));
+    }
+
+    return {
+      pullNumber,
+      commitId: diff.head,
+      inlineComments,
+      summaryIssues,
+      summary: this.generateReviewSummary(analysisResult, diff, inlineComments, summaryIssues),
+      status: analysisResult.status,
+      coverage: analysisResult.coverage,
+    };
+  }
+
+  private async proposeSuggestion(
+    repoPath: string,
+    issue: DocumentationIssue,
+    fixEngine: FixEngine,
+    commentableLines: number[]
+  ): Promise<ReviewSuggestion | null> {
+    try {
+      const fix = await fixEngine.proposeFix(repoPath, issue);
+      if ("reason" in fix) {
+        return null;
+      }
+
+      // GitHub rejects suggestions that reach outside the lines shown in the diff
+      const suggestion = toSuggestion(fix.original, fix.updated);
+      for (let line = suggestion.startLine; line <= suggestion.endLine; line++) {
+        if (!commentableLines.includes(line)) {
+          return null;
+        }
+      }
+      return suggestion;
+    } catch {
+      return null;
+    }
+  }
+
+  private planReviewComment(
+    issue: DocumentationIssue,
+    path: string,
+    line: number,
+    suggestion: ReviewSuggestion | null
+  ): PlannedReviewComment {
+    const fingerprint = issue.fingerprint ?? fingerprintIssue(issue);
+
+    let body = `**${issue.title}**\n\n`;
+    body += `*${ISSUE_TYPE_LABELS[issue.type]} · ${issue.severity} severity${issue.introducedByDiff ? " · introduced by this change" : ""}*\n\n`;
+    body += `${issue.description}\n\n`;
+
+    if (suggestion) {
+      body += `${fenceSnippet(suggestion.text, "suggestion")}\n\n`;
+    } else if (issue.suggestion) {
+      body += `**Suggested Fix:** ${issue.suggestion}\n\n`;
+    }
+
+    body += fingerprintMarker(fingerprint);
+
+    return {
+      fingerprint,
+      path,
+      ...(suggestion
+        ? {
+            line: suggestion.endLine,
+            ...(suggestion.startLine < suggestion.endLine
+              ? { startLine: suggestion.startLine }
+              : {}),
+          }
+        : { line }),
+      body,
+      issue,
+    };
+  }
+
+  private generateReviewSummary(
+    analysisResult: AnalysisResult,
+    diff: DiffScope,
+    inlineComments: PlannedReviewComment[],
+    summaryIssues: DocumentationIssue[]
+  ): string {
+    const { summary } = analysisResult;
+
+    let body = `## 📚 Documentation Review\n\n`;
+
+    if (summary.totalIssues === 0) {
+      body += `No documentation issues found in the docs affected by this change. ✅\n\n`;
+    } else {
+      body += `Found ${summary.totalIssues} documentation issues (${summary.highSeverity} high, ${summary.mediumSeverity} medium, ${summary.lowSeverity} low severity); ${inlineComments.length} are commented inline.\n\n`;
+    }
+
+    if (analysisResult.status !== "complete") {
+      body += `> ⚠️ Analysis was incomplete, so some documentation was not reviewed.\n\n`;
+    }
+
+    if (summaryIssues.length > 0) {
+      body += `### Outside this diff\n\n`;
+      for (const issue of summaryIssues) {
+        const location = issue.file
+          ? ` (\`${issue.file}\`${issue.line ? ` line ${issue.line}` : ""})`
+          : "";
+        body += `- **${issue.title}**${location} · ${issue.severity} severity${issue.introducedByDiff ? " · introduced by this change" : ""}\n`;
+        body += `  ${issue.description}\n`;
+        if (issue.suggestion) {
+          body += `  **Suggested Fix:** ${issue.suggestion}\n`;
+        }
+      }
+      body += "\n";
+    }
+
+    if (analysisResult.baseline && analysisResult.baseline.baselinedIssues.length > 0) {
+      body += `${analysisResult.baseline.baselinedIssues.length} issues accepted in the baseline are not shown.\n\n`;
+    }
+
+    body += `---\n*This review was automatically generated by docs-check for ${diff.head.slice(0, 12)}*\n`;
+    body += REVIEW_SUMMARY_MARKER;
+
+    return body;
+  }
+
+  // Posts new findings as one review, updates comments that are still reported, resolves the
+  // ones that no longer are, and keeps a single summary comment up to date
+  async submitPullRequestReview(
+    repository: GitHubRepository,
+    plannedReview: PlannedReview
+  ): Promise<PullRequestReviewResult> {
+    if (!this.token) {
+      throw new Error("A GitHub token is required to review pull requests");
+    }
+
+    const { owner, repo } = repository;
+    const pullNumber = plannedReview.pullNumber;
+
+    try {
+      const existingComments = await this.octokit.paginate(
+        this.octokit.rest.pulls.listReviewComments,
+        { owner, repo, pull_number: pullNumber, per_page: 100 }
+      );
+
+      // Replies in a thread belong to whoever wrote them; only top-level comments are ours
+      const previousComments = existingComments.flatMap((comment) => {
+        const match = comment.in_reply_to_id
+          ? null
+          : comment.body.match(FINGERPRINT_MARKER_PATTERN);
+        return match ? [{ comment, fingerprint: match[1] }] : [];
+      });
+
+      const newComments: PlannedReviewComment[] = [];
+      const keptCommentIds = new Set<number>();
+      let updated = 0;
+      let unchanged = 0;
+
+      for (const plannedComment of plannedReview.inlineComments) {
+        // An outdated comment (no line in the current diff) or a resolved one is replaced
+        // with a fresh comment rather than revived
+        const previous = previousComments.find(
+          ({ comment, fingerprint }) =>
+            fingerprint === plannedComment.fingerprint &&
+            !keptCommentIds.has(comment.id) &&
+            comment.line &&
+            !comment.body.includes(RESOLVED_MARKER)
+        );
+
+        if (!previous) {
+          newComments.push(plannedComment);
+          continue;
+        }
+
+        keptCommentIds.add(previous.comment.id);
+        if (previous.comment.body === plannedComment.body) {
+          unchanged++;
+        } else {
+          await this.octokit.rest.pulls.updateReviewComment({
+            owner,
+            repo,
+            comment_id: previous.comment.id,
+            body: plannedComment.body,
+          });
+          updated++;
+        }
+      }
+
+      // A finding missing from an incomplete or narrowed run may just not have been re-checked
+      const { status, coverage } = plannedReview;
+      const reviewedEverything =
+        status === "complete" && coverage.unreviewedSections.length === 0 && !coverage.narrowedBy;
+      const staleComments = reviewedEverything
+        ? previousComments.filter(
+            ({ comment }) =>
+              !keptCommentIds.has(comment.id) && !comment.body.includes(RESOLVED_MARKER)
+          )
+        : [];
+      for (const { comment } of staleComments) {
+        await this.octokit.rest.pulls.updateReviewComment({
+          owner,
+          repo,
+          comment_id: comment.id,
+          body: `✅ **Resolved:** docs-check no longer reports this issue.\n\n<details>\n<summary>Original comment</summary>\n\n${comment.body}\n\n</details>\n${RESOLVED_MARKER}`,
+        });
+      }
+      await this.resolveReviewThreads(
+        repository,
+        pullNumber,
+        staleComments.map(({ comment }) => comment.id)
+      );
+
+      let reviewUrl: string | undefined;
+      if (newComments.length > 0) {
+        const response = await this.octokit.rest.pulls.createReview({
+          owner,
+          repo,
+          pull_number: pullNumber,
+          commit_id: plannedReview.commitId,
+          event: "COMMENT",
+          body: `📚 docs-check found ${newComments.length} new documentation issues in this change. See the summary comment for the full report.`,
+          comments: newComments.map((plannedComment) => ({
+            path: plannedComment.path,
+            line: plannedComment.line,
+            side: "RIGHT",
+            ...(plannedComment.startLine
+              ? { start_line: plannedComment.startLine, start_side: "RIGHT" }
+              : {}),
+            body: plannedComment.body,
+          })),
+        });
+        reviewUrl = response.data.html_url;
+      }
+
+      const summaryCommentUrl = await this.upsertReviewSummary(
+        repository,
+        pullNumber,
+        plannedReview.summary
+      );
+
+      return {
+        ...(reviewUrl ? { reviewUrl } : {}),
+        summaryCommentUrl,
+        created: newComments.length,
+        updated,
+        unchanged,
+        resolved: staleComments.length,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to review pull request #${pullNumber}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async upsertReviewSummary(
+    repository: GitHubRepository,
+    pullNumber: number,
+    body: string
+  ): Promise<string> {
+    const comments = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
+      owner: repository.owner,
+      repo: repository.repo,
+      issue_number: pullNumber,
+      per_page: 100,
+    });
+    const previous = comments.find((comment) => comment.body?.includes(REVIEW_SUMMARY_MARKER));
+
+    const response = previous
+      ? await this.octokit.rest.issues.updateComment({
+          owner: repository.owner,
+          repo: repository.repo,
+          comment_id: previous.id,
+          body,
+        })
+      : await this.octokit.rest.issues.createComment({
+          owner: repository.owner,
+          repo: repository.repo,
+          issue_number: pullNumber,
+          body,
+        });
+
+    return response.data.html_url;
+  }
+
+  // Resolving a thread is only exposed through the GraphQL API
+  private async resolveReviewThreads(
+    repository: GitHubRepository,
+    pullNumber: number,
+    commentIds: number[]
+  ): Promise<void> {
+    if (commentIds.length === 0) {
+      return;
+    }
+
+    // Only the first 100 threads are considered, which covers all but the largest reviews
+    const response = await this.octokit.graphql<{
+      repository: {
+        pullRequest: {
+          reviewThreads: {
+            nodes: {
+              id: string;
+              isResolved: boolean;
+              comments: { nodes: { databaseId: number }[] };
+            }[];
+          };
+        };
+      };
+    }>(
+      `query($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            reviewThreads(first: 100) {
+              nodes { id isResolved comments(first: 1) { nodes { databaseId } } }
+            }
+          }
+        }
+      }`,
+      { owner: repository.owner, repo: repository.repo, number: pullNumber }
+    );
+
+    for (const thread of response.repository.pullRequest.reviewThreads.nodes) {
+      const firstCommentId = thread.comments.nodes[0]?.databaseId;
+      if (
+        thread.isResolved ||
+        firstCommentId === undefined ||
+        !commentIds.includes(firstCommentId)
+      ) {
+        continue;
+      }
+
+      await this.octokit.graphql(
+        `mutation($threadId: ID!) {
+          resolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+        }`,
+        { threadId: thread.id }
+      );
+    }
+  }
+
   private getLabelsForIssue(issue: DocumentationIssue): string[] {
-    const labels = ["documentation"];
-
-    switch (issue.severity) {
-      case "high":
-        labels.push("priority: high", "bug");
-        break;
-      case "medium":
-        labels.push("enhancement");
-        break;
-      case "low":
-        labels.push("good first issue");
-        break;
-    }
-
-    switch (issue.type) {
-      case "broken-link":
-        labels.push("bug");
-        break;
-      case "missing":
-        labels.push("enhancement");
-        break;
-      case "unclear":
-        labels.push("enhancement");
-        break;
-      case "outdated":
-        labels.push("maintenance");
-        break;
-    }
-
-    return labels;
+    const { labels } = this.issueConfig;
+
+    return [
+      ...new Set([
+        ...labels.always,
+        ...labels.severity[issue.severity],
+        ...labels.type[issue.type],
+        ...labels.effort[issue.effort],
+      ]),
+    ];
   }
 }
@@ -0,0 +1,128 @@
+import type { HistoryIssue, HistoryRun, RunComparison } from "./types.js";
+
+export const HISTORY_OUTPUT_FORMATS = ["text", "json"] as const;
+export type HistoryOutputFormat = (typeof HISTORY_OUTPUT_FORMATS)[number];
+
+const COLUMNS = [
+  "Run",
+  "Date",
+  "Commit",
+  "Total",
+  "High",
+  "Medium",
+  "Low",
+  "Missing",
+  "Outdated",
+  "Unclear",
+  "Links",
+];
+
+function formatDate(timestamp: string): string {
+  return timestamp.slice(0, 16).replace("T", " ");
+}
+
+function formatRun(run: HistoryRun): string {
+  return `${run.id}${run.commit ? ` (commit ${run.commit.slice(0, 12)}, ${formatDate(run.timestamp)})` : ` (${formatDate(run.timestamp)})`}`;
+}
+
+function formatIssue(marker: string, issue: HistoryIssue): string {
+  const location = issue.file ? ` (${issue.file}${issue.line ? `:${issue.line}` : ""})` : "";
+  return `  ${marker} [${issue.severity}] ${issue.title}${location}${issue.baselined ? " [baselined]" : ""}`;
+}
+
+function formatTable(rows: string[][]): string[] {
+  const widths = COLUMNS.map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  // Text columns are left-aligned, counts right-aligned
+  return rows.map((row) =>
+    row
+      .map((cell, column) =>
+        column < 3 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+      )
+      .join("  ")
+      .trimEnd()
+  );
+}
+
+// Oldest run first, with the change between the first and the last run
+export function renderHistoryText(repository: string, runs: HistoryRun[]): string {
+  const lines: string[] = [];
+  lines.push(`\n📈 Documentation History for ${repository}`);
+  lines.push(`${"-".repeat(50)}`);
+
+  if (runs.length === 0) {
+    lines.push("No runs recorded yet.");
+    return lines.join("\n");
+  }
+
+  const rows = runs.map((run) => [
+    `${run.id}${run.status === "partial" ? "*" : ""}`,
+    formatDate(run.timestamp),
+    run.commit?.slice(0, 12) ?? "-",
+    String(run.summary.totalIssues),
+    String(run.summary.highSeverity),
+    String(run.summary.mediumSeverity),
+    String(run.summary.lowSeverity),
+    String(run.byType.missing),
+    String(run.byType.outdated),
+    String(run.byType.unclear),
+    String(run.byType["broken-link"]),
+  ]);
+  lines.push(...formatTable([COLUMNS, ...rows]));
+
+  if (runs.some((run) => run.status === "partial")) {
+    lines.push("* Some docs were not reviewed in this run, so it may have missed issues");
+  }
+
+  const first = runs[0];
+  const last = runs[runs.length - 1];
+  if (runs.length > 1) {
+    const change = last.summary.totalIssues - first.summary.totalIssues;
+    lines.push(
+      `\nTrend: ${first.summary.totalIssues} → ${last.summary.totalIssues} issues (${change > 0 ? "+" : ""}${change}) since ${formatDate(first.timestamp)}`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export function renderComparisonText(comparison: RunComparison): string {
+  const { from, to } = comparison;
+  const lines: string[] = [];
+  lines.push(`\n🔀 Comparing Runs for ${to.repository}`);
+  lines.push(`${"-".repeat(50)}`);
+  lines.push(`From: ${formatRun(from)}`);
+  lines.push(`To:   ${formatRun(to)}`);
+
+  const sections = [
+    ["New issues", "+", comparison.newIssues],
+    ["Resolved issues", "-", comparison.resolvedIssues],
+    ["Persisting issues", "=", comparison.persistingIssues],
+  ] as const;
+  for (const [label, marker, issues] of sections) {
+    lines.push(`\n${label} (${issues.length}):`);
+    for (const issue of issues) {
+      lines.push(formatIssue(marker, issue));
+    }
+  }
+
+  if (from.status === "partial" || to.status === "partial") {
+    lines.push(
+      "\n⚠️  Some docs were not reviewed in one of these runs, so new and resolved issues may be incomplete"
+    );
+  }
+
+  return lines.join("\n");
+}
+
+// Counts only; `compare` lists the issues of a run
+export function renderHistoryJson(repository: string, runs: HistoryRun[]): string {
+  return JSON.stringify(
+    { repository, runs: runs.map(({ issues: _issues, ...run }) => run) },
+    null,
+    2
+  );
+}
+
+export function renderComparisonJson(comparison: RunComparison): string {
+  return JSON.stringify(comparison, null, 2);
+}
@@ -0,0 +1,189 @@
+import { groupIssuesByFileAndType, ISSUE_TYPE_LABELS } from "./issue-utils.js";
+import { formatRepositoryName, sourceFileUrl } from "./repository-source.js";
+import type { AnalysisReport, AnalysisResult, DocumentationIssue, IssueLevel } from "./types.js";
+
+// Inlined so the report is a single file that can be attached or emailed
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+h1 { border-bottom: 1px solid #d1d9e0; padding-bottom: 0.5rem; }
+h2 { margin-top: 2rem; border-bottom: 1px solid #d1d9e0; padding-bottom: 0.25rem; }
+code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+pre { background: #f6f8fa; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d1d9e0; padding: 0.25rem 0.75rem; text-align: left; }
+details { border: 1px solid #d1d9e0; border-radius: 6px; padding: 0.5rem 0.75rem; margin: 0.5rem 0; }
+summary { cursor: pointer; }
+.badge { display: inline-block; border-radius: 1em; padding: 0 0.6em; font-size: 0.8em; font-weight: 600; margin-right: 0.25rem; }
+.severity-high { background: #ffebe9; color: #cf222e; }
+.severity-medium { background: #fff1e5; color: #bc4c00; }
+.severity-low { background: #fff8c5; color: #7d4e00; }
+.effort { background: #ddf4ff; color: #0969da; }
+.introduced { background: #fbefff; color: #8250df; }
+.location { color: #59636e; font-size: 0.9em; }
+.notice { background: #fff8c5; border-left: 4px solid #d4a72c; padding: 0.5rem 0.75rem; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function severityBadge(severity: IssueLevel): string {
+  return `<span class="badge severity-${severity}">${severity} severity</span>`;
+}
+
+function effortBadge(effort: IssueLevel): string {
+  return `<span class="badge effort">${effort} effort</span>`;
+}
+
+function formatLocation(analysis: AnalysisResult, issue: DocumentationIssue): string {
+  if (!issue.file) {
+    return "Repository-wide";
+  }
+
+  const label = escapeHtml(`${issue.file}${issue.line ? `:${issue.line}` : ""}`);
+  const url = sourceFileUrl(analysis.repository, analysis.commit, issue.file, issue.line);
+  return url ? `<a href="${escapeHtml(url)}"><code>${label}</code></a>` : `<code>${label}</code>`;
+}
+
+function formatIssue(analysis: AnalysisResult, issue: DocumentationIssue): string {
+  let html = "<details>\n";
+  html += `<summary>${severityBadge(issue.severity)}${effortBadge(issue.effort)}${issue.introducedByDiff ? '<span class="badge introduced">introduced by this change</span>' : ""} <strong>${escapeHtml(issue.title)}</strong> <span class="location">${formatLocation(analysis, issue)}</span></summary>\n`;
+  html += `<p>${escapeHtml(issue.description)}</p>\n`;
+  if (issue.snippet) {
+    html += `<pre>${escapeHtml(issue.snippet)}</pre>\n`;
+  }
+  if (issue.suggestion) {
+    html += `<p><strong>Suggestion:</strong> ${escapeHtml(issue.suggestion)}</p>\n`;
+  }
+  html += "</details>\n";
+  return html;
+}
+
+function formatSummary(analysis: AnalysisResult): string {
+  const { summary } = analysis;
+
+  let html = "<table>\n<tr><th>Severity</th><th>Issues</th></tr>\n";
+  html += `<tr><td>${severityBadge("high")}</td><td>${summary.highSeverity}</td></tr>\n`;
+  html += `<tr><td>${severityBadge("medium")}</td><td>${summary.mediumSeverity}</td></tr>\n`;
+  html += `<tr><td>${severityBadge("low")}</td><td>${summary.lowSeverity}</td></tr>\n`;
+  html += `<tr><th>Total</th><th>${summary.totalIssues}</th></tr>\n</table>\n`;
+
+  if (analysis.apiSurface) {
+    const { symbols } = analysis.apiSurface;
+    const documented = symbols.filter((symbol) => symbol.documented).length;
+    html += `<p><strong>API coverage:</strong> ${summary.apiCoverage}% of exported symbols are mentioned in the docs (${documented} of ${symbols.length}).</p>\n`;
+  }
+
+  const typeCounts = new Map<string, number>();
+  for (const issue of analysis.issues) {
+    const label = ISSUE_TYPE_LABELS[issue.type];
+    typeCounts.set(label, (typeCounts.get(label) ?? 0) + 1);
+  }
+  if (typeCounts.size > 0) {
+    html += "<table>\n<tr><th>Type</th><th>Issues</th></tr>\n";
+    for (const [label, count] of typeCounts) {
+      html += `<tr><td>${label}</td><td>${count}</td></tr>\n`;
+    }
+    html += "</table>\n";
+  }
+
+  return html;
+}
+
+export function renderHtml(report: AnalysisReport): string {
+  const { analysis } = report;
+  const title = `Documentation Report for ${formatRepositoryName(analysis.repository)}`;
+
+  let body = `<h1>📚 ${escapeHtml(title)}</h1>\n`;
+  body += `<p>Analyzed ${analysis.commit ? `commit <code>${escapeHtml(analysis.commit.slice(0, 12))}</code>` : "working directory"} on ${escapeHtml(analysis.timestamp)}.</p>\n`;
+
+  if (analysis.status !== "complete") {
+    body += `<div class="notice"><strong>${analysis.status === "failed" ? "❌ Analysis failed." : "⚠️ Analysis incomplete."}</strong> Some passes did not produce usable output:<ul>\n`;
+    for (const failure of analysis.failures) {
+      body += `<li>Pass ${failure.pass}: ${escapeHtml(failure.message)}</li>\n`;
+    }
+    body += "</ul></div>\n";
+  }
+  if (analysis.coverage.unreviewedSections.length > 0) {
+    body += `<div class="notice">⚠️ ${analysis.coverage.unreviewedSections.length} documentation sections were not reviewed.</div>\n`;
+  }
+
+  body += formatSummary(analysis);
+
+  // Repository-wide issues first, then files alphabetically
+  const groups = [...groupIssuesByFileAndType(analysis.issues)].sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  for (const [file, byType] of groups) {
+    body += file
+      ? `<h2>📄 <code>${escapeHtml(file)}</code></h2>\n`
+      : "<h2>📁 Repository-wide</h2>\n";
+    for (const [type, issues] of byType) {
+      body += `<h3>${ISSUE_TYPE_LABELS[type]} (${issues.length})</h3>\n`;
+      for (const issue of issues) {
+        body += formatIssue(analysis, issue);
+      }
+    }
+  }
+
+  const { baseline } = analysis;
+  if (baseline && baseline.baselinedIssues.length > 0) {
+    body += "<h2>🗂️ Baselined Issues</h2>\n<ul>\n";
+    for (const issue of baseline.baselinedIssues) {
+      body += `<li>${escapeHtml(issue.title)} (${formatLocation(analysis, issue)})</li>\n`;
+    }
+    body += "</ul>\n";
+  }
+  if (baseline && baseline.fixedIssues.length > 0) {
+    body += "<h2>✅ Fixed Since Baseline</h2>\n<ul>\n";
+    for (const entry of baseline.fixedIssues) {
+      body += `<li>${escapeHtml(entry.title)}${entry.file ? ` (<code>${escapeHtml(entry.file)}</code>)` : ""}</li>\n`;
+    }
+    body += "</ul>\n";
+  }
+
+  const { issueSync } = report;
+  if (issueSync) {
+    body += "<h2>🐙 GitHub Issues</h2>\n<ul>\n";
+    const actions = [
+      ["Created", issueSync.created],
+      ["Updated", issueSync.updated],
+      ["Unchanged", issueSync.unchanged],
+      ["Closed", issueSync.closed],
+    ] as const;
+    for (const [label, results] of actions) {
+      if (results.length > 0) {
+        body += `<li>${label}: ${results.map((result) => `<a href="${escapeHtml(result.url)}">#${result.number}</a>`).join(", ")}</li>\n`;
+      }
+    }
+    body += "</ul>\n";
+  }
+  if (report.pullRequest) {
+    body += `<p>🐙 Fixes were opened as pull request <a href="${escapeHtml(report.pullRequest.url)}">#${report.pullRequest.number}</a>.</p>\n`;
+  } else if (report.pullRequest === null) {
+    body += "<p>No automatic fixes could be applied, so no pull request was opened.</p>\n";
+  }
+
+  if (report.review) {
+    body += `<p>🐙 Posted a pull request review: ${report.review.created} new, ${report.review.updated} updated and ${report.review.resolved} resolved inline comments (<a href="${escapeHtml(report.review.summaryCommentUrl)}">summary</a>).</p>\n`;
+  }
+
+  body += "<hr>\n<p><em>Generated by docs-check</em></p>\n";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}</body>
+</html>`;
+}
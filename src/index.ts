@@ -0,0 +1,22 @@
+// Public API for calling docs-check from code; the CLI in cli.ts is a wrapper around it
+export { BACKEND_NAMES, type BackendName } from "./analysis-backends.js";
+export {
+  type CheckDocumentationOptions,
+  checkDocumentation,
+  runDocsCheck,
+} from "./check-documentation.js";
+export { EXIT_CODES, evaluateGate, formatCiSummary, type GateOptions } from "./ci-gate.js";
+export type { ConfigOverrides } from "./config.js";
+export { InputError } from "./errors.js";
+export { GitHubClient, type GitHubClientOptions } from "./github-client.js";
+export { ORGANIZATION_REPORTERS } from "./org-reporter.js";
+export {
+  type OrganizationSource,
+  type RepositoryLister,
+  type ScanOrganizationOptions,
+  SEVERITY_WEIGHTS,
+  scanOrganization,
+} from "./org-scan.js";
+export { OUTPUT_FORMATS, REPORTERS } from "./reporters.js";
+export { compareRuns, defaultHistoryDirectory, RunHistory } from "./run-history.js";
+export type * from "./types.js";
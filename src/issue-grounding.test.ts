@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { groundIssues, locateExcerpt } from "./issue-grounding.js";
+import type { DocumentationIssue } from "./types.js";
+
+const README_LINES = [
+  "# Tool",
+  "",
+  "Install with `npm install tool`.",
+  "",
+  "Run `tool --fast` to start.",
+  "Run `tool --fast` to start.",
+];
+
+function issue(title: string, fields: Partial<DocumentationIssue> = {}): DocumentationIssue {
+  return {
+    type: "outdated",
+    severity: "high",
+    effort: "low",
+    title,
+    description: "",
+    suggestion: "",
+    file: "README.md",
+    ...fields,
+  };
+}
+
+describe("locateExcerpt", () => {
+  it("matches loosely and prefers the line nearest the reported one", () => {
+    assert.equal(locateExcerpt(README_LINES, "Install with npm install tool"), 3);
+    assert.equal(locateExcerpt(README_LINES, "**Run** tool --fast", 1), 5);
+    assert.equal(locateExcerpt(README_LINES, "Run tool --fast", 6), 6);
+    assert.equal(locateExcerpt(README_LINES, "Configure the proxy"), undefined);
+  });
+});
+
+describe("groundIssues", () => {
+  let repoPath: string;
+
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-grounding-"));
+    await writeFile(join(repoPath, "README.md"), README_LINES.join("\n"), "utf-8");
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("moves issues to the quoted line and drops those about files that don't exist", async () => {
+    const { issues, dropped } = await groundIssues(repoPath, [
+      issue("Quoted", { file: "./README.md", line: 1, excerpt: "npm install tool" }),
+      issue("Reported line", { line: 5 }),
+      issue("Line past the end", { line: 99 }),
+      issue("Missing file", { file: "docs/gone.md" }),
+      issue("Outside the repository", { file: "../README.md" }),
+      issue("Should exist", { type: "missing", file: "docs/faq.md" }),
+      issue("Whole project", { file: undefined }),
+    ]);
+
+    assert.equal(dropped, 2);
+    assert.deepEqual(
+      issues.map(({ title, file, line, severity }) => [title, file, line, severity]),
+      [
+        ["Quoted", "README.md", 3, "high"],
+        ["Reported line", "README.md", 5, "high"],
+        ["Line past the end", "README.md", undefined, "medium"],
+        ["Should exist", "docs/faq.md", undefined, "high"],
+        ["Whole project", undefined, undefined, "high"],
+      ]
+    );
+    assert.equal(
+      issues[0].snippet,
+      "  1 | # Tool\n  2 | \n> 3 | Install with `npm install tool`.\n  4 | \n  5 | Run `tool --fast` to start."
+    );
+    assert.ok(issues.every((grounded) => grounded.fingerprint && !("excerpt" in grounded)));
+  });
+});
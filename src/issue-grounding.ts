@@ -0,0 +1,174 @@
+import { promises as fs } from "node:fs";
+import { isAbsolute, join, normalize } from "node:path";
+import { fingerprintIssue } from "./issue-utils.js";
+import type { DocumentationIssue, IssueLevel } from "./types.js";
+
+const SNIPPET_CONTEXT_LINES = 2;
+const SNIPPET_MAX_LINE_LENGTH = 200;
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
+export interface GroundingResult {
+  issues: DocumentationIssue[];
+  // Issues dropped because the file they reference does not exist
+  dropped: number;
+}
+
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[`*_>#|[\]()]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient over character bigrams: 1 for identical strings, 0 for nothing in common
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const aPairs = bigrams(a);
+  const bPairs = bigrams(b);
+  let overlap = 0;
+  for (const [pair, count] of aPairs) {
+    overlap += Math.min(count, bPairs.get(pair) ?? 0);
+  }
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+}
+
+// Finds the line that best matches the model's quoted excerpt, preferring the one nearest
+// the reported line when several match equally well
+export function locateExcerpt(
+  lines: string[],
+  excerpt: string,
+  reportedLine?: number
+): number | undefined {
+  const needle = normalizeForMatch(
+    excerpt.split(/\r?\n/).find((line) => line.trim().length > 0) ?? ""
+  );
+  if (!needle) {
+    return undefined;
+  }
+
+  let bestLine: number | undefined;
+  let bestScore = 0;
+
+  lines.forEach((line, index) => {
+    const haystack = normalizeForMatch(line);
+    if (!haystack) return;
+
+    const score = haystack.includes(needle) ? 1 : similarity(needle, haystack);
+    const lineNumber = index + 1;
+    const isCloser =
+      reportedLine !== undefined &&
+      bestLine !== undefined &&
+      Math.abs(lineNumber - reportedLine) < Math.abs(bestLine - reportedLine);
+
+    if (score > bestScore || (score === bestScore && isCloser)) {
+      bestScore = score;
+      bestLine = lineNumber;
+    }
+  });
+
+  return bestScore >= FUZZY_MATCH_THRESHOLD ? bestLine : undefined;
+}
+
+export function buildSnippet(lines: string[], line: number): string {
+  const start = Math.max(1, line - SNIPPET_CONTEXT_LINES);
+  const end = Math.min(lines.length, line + SNIPPET_CONTEXT_LINES);
+  const width = String(end).length;
+
+  const snippet: string[] = [];
+  for (let current = start; current <= end; current++) {
+    const text = lines[current - 1];
+    const truncated =
+      text.length > SNIPPET_MAX_LINE_LENGTH ? `${text.slice(0, SNIPPET_MAX_LINE_LENGTH)}…` : text;
+    snippet.push(
+      `${current === line ? ">" : " "} ${String(current).padStart(width)} | ${truncated}`
+    );
+  }
+  return snippet.join("\n");
+}
+
+// The line's text stands in for "nearby content" so fingerprints survive lines moving
+function withFingerprint(issue: DocumentationIssue, lineText?: string): DocumentationIssue {
+  return { ...issue, fingerprint: fingerprintIssue(issue, lineText) };
+}
+
+function downgrade(level: IssueLevel): IssueLevel {
+  return level === "high" ? "medium" : "low";
+}
+
+export async function groundIssues(
+  repoPath: string,
+  issues: DocumentationIssue[]
+): Promise<GroundingResult> {
+  const fileCache = new Map<string, string[] | null>();
+  const grounded: DocumentationIssue[] = [];
+  let dropped = 0;
+
+  async function readLines(file: string): Promise<string[] | null> {
+    if (!fileCache.has(file)) {
+      try {
+        const content = await fs.readFile(join(repoPath, file), "utf-8");
+        fileCache.set(file, content.split(/\r?\n/));
+      } catch {
+        fileCache.set(file, null);
+      }
+    }
+    return fileCache.get(file) ?? null;
+  }
+
+  for (const issue of issues) {
+    const { excerpt, line: reportedLine, file: reportedFile, ...rest } = issue;
+
+    if (!reportedFile) {
+      grounded.push(withFingerprint(rest));
+      continue;
+    }
+
+    const file = normalize(reportedFile.replace(/^\/+/, ""));
+    const lines = file.startsWith("..") || isAbsolute(file) ? null : await readLines(file);
+
+    if (!lines) {
+      // A "missing" issue may legitimately name a file that should exist but doesn't
+      if (issue.type === "missing") {
+        grounded.push(withFingerprint({ ...rest, file }));
+      } else {
+        dropped++;
+      }
+      continue;
+    }
+
+    let line = excerpt ? locateExcerpt(lines, excerpt, reportedLine) : undefined;
+    if (line === undefined && reportedLine !== undefined && reportedLine <= lines.length) {
+      line = reportedLine;
+    }
+
+    if (line === undefined) {
+      // The model pointed at a line that doesn't exist; keep the file but trust it less
+      grounded.push(
+        withFingerprint(
+          reportedLine !== undefined
+            ? { ...rest, file, severity: downgrade(rest.severity) }
+            : { ...rest, file }
+        )
+      );
+      continue;
+    }
+
+    grounded.push(
+      withFingerprint({ ...rest, file, line, snippet: buildSnippet(lines, line) }, lines[line - 1])
+    );
+  }
+
+  return { issues: grounded, dropped };
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildRepairPrompt, parseIssueArray, validateIssue } from "./issue-schema.js";
+
+const VALID = {
+  type: "outdated",
+  severity: "high",
+  effort: "low",
+  title: " Install command uses npm ",
+  description: "The project uses pnpm.",
+  suggestion: "",
+  file: "./README.md",
+  line: 3,
+  note: "unknown keys are ignored",
+};
+
+describe("validateIssue", () => {
+  it("trims strings and strips a leading ./ from paths", () => {
+    assert.deepEqual(validateIssue(VALID), {
+      issue: {
+        type: "outdated",
+        severity: "high",
+        effort: "low",
+        title: "Install command uses npm",
+        description: "The project uses pnpm.",
+        suggestion: "",
+        file: "README.md",
+        line: 3,
+      },
+    });
+  });
+
+  it("lists every problem with an item", () => {
+    assert.deepEqual(validateIssue({ ...VALID, type: "typo", line: 0, title: " " }).errors, [
+      '"type" must be one of missing, outdated, unclear, broken-link',
+      '"title" must be a non-empty string',
+      '"line" must be a positive integer when present',
+    ]);
+    assert.deepEqual(validateIssue([]).errors, ["expected an object"]);
+  });
+});
+
+describe("parseIssueArray", () => {
+  it("prefers a fenced JSON block and drops invalid items", () => {
+    const result = parseIssueArray(
+      `Checked [two] files.\n\n\`\`\`json\n${JSON.stringify([VALID, { type: "outdated" }])}\n\`\`\`\n`
+    );
+    assert.ok(result.ok);
+    assert.deepEqual(
+      result.issues.map((issue) => issue.title),
+      ["Install command uses npm"]
+    );
+    assert.equal(result.dropped, 1);
+    assert.match(result.itemErrors[0], /^Item 1: "severity" must be one of/);
+  });
+
+  it("finds a bare array after prose that contains brackets", () => {
+    const result = parseIssueArray(`Looked at [README.md]: ${JSON.stringify([VALID])}`);
+    assert.ok(result.ok);
+    assert.equal(result.issues.length, 1);
+  });
+
+  it("fails responses worth repairing", () => {
+    assert.deepEqual(parseIssueArray("No issues found."), {
+      ok: false,
+      errors: ["No JSON array found in the response"],
+    });
+    assert.deepEqual(parseIssueArray('[{"type": "outdated"}]'), {
+      ok: false,
+      errors: [
+        'Item 0: "severity" must be one of high, medium, low',
+        'Item 0: "effort" must be one of high, medium, low',
+        'Item 0: "title" must be a non-empty string',
+        'Item 0: "description" must be a non-empty string',
+        'Item 0: "suggestion" must be a string',
+      ],
+    });
+    assert.deepEqual(parseIssueArray("[]"), { ok: true, issues: [], dropped: 0, itemErrors: [] });
+  });
+
+  it("asks for a repair that quotes the errors and the previous response", () => {
+    const prompt = buildRepairPrompt("No issues found.", ["No JSON array found in the response"]);
+    assert.match(prompt, /Validation errors:\n- No JSON array found in the response\n/);
+    assert.match(prompt, /Previous response:\nNo issues found\.\n/);
+  });
+});
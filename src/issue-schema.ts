@@ -0,0 +1,166 @@
+import type { DocumentationIssue, IssueLevel, IssueType } from "./types.js";
+
+export const ISSUE_TYPES: IssueType[] = ["missing", "outdated", "unclear", "broken-link"];
+export const ISSUE_LEVELS: IssueLevel[] = ["high", "medium", "low"];
+
+export type IssueArrayParseResult =
+  | { ok: true; issues: DocumentationIssue[]; dropped: number; itemErrors: string[] }
+  | { ok: false; errors: string[] };
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// Validates one model-reported issue; unknown keys are ignored rather than rejected
+export function validateIssue(
+  raw: unknown
+): { issue: DocumentationIssue; errors?: never } | { issue?: never; errors: string[] } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { errors: ["expected an object"] };
+  }
+
+  const item = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!ISSUE_TYPES.includes(item.type as IssueType)) {
+    errors.push(`"type" must be one of ${ISSUE_TYPES.join(", ")}`);
+  }
+  if (!ISSUE_LEVELS.includes(item.severity as IssueLevel)) {
+    errors.push(`"severity" must be one of ${ISSUE_LEVELS.join(", ")}`);
+  }
+  if (!ISSUE_LEVELS.includes(item.effort as IssueLevel)) {
+    errors.push(`"effort" must be one of ${ISSUE_LEVELS.join(", ")}`);
+  }
+  for (const key of ["title", "description"] as const) {
+    if (!isNonEmptyString(item[key])) {
+      errors.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  if (typeof item.suggestion !== "string") {
+    errors.push(`"suggestion" must be a string`);
+  }
+  if (item.file !== undefined && item.file !== null && !isNonEmptyString(item.file)) {
+    errors.push(`"file" must be a non-empty string when present`);
+  }
+  if (
+    item.line !== undefined &&
+    item.line !== null &&
+    (typeof item.line !== "number" || !Number.isInteger(item.line) || item.line < 1)
+  ) {
+    errors.push(`"line" must be a positive integer when present`);
+  }
+  if (item.excerpt !== undefined && item.excerpt !== null && typeof item.excerpt !== "string") {
+    errors.push(`"excerpt" must be a string when present`);
+  }
+  if (
+    item.introducedByDiff !== undefined &&
+    item.introducedByDiff !== null &&
+    typeof item.introducedByDiff !== "boolean"
+  ) {
+    errors.push(`"introducedByDiff" must be a boolean when present`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    issue: {
+      type: item.type as IssueType,
+      severity: item.severity as IssueLevel,
+      effort: item.effort as IssueLevel,
+      title: (item.title as string).trim(),
+      description: (item.description as string).trim(),
+      suggestion: (item.suggestion as string).trim(),
+      ...(isNonEmptyString(item.file) ? { file: item.file.trim().replace(/^\.\//, "") } : {}),
+      ...(typeof item.line === "number" ? { line: item.line } : {}),
+      ...(isNonEmptyString(item.excerpt) ? { excerpt: item.excerpt } : {}),
+      ...(typeof item.introducedByDiff === "boolean"
+        ? { introducedByDiff: item.introducedByDiff }
+        : {}),
+    },
+  };
+}
+
+function parseJsonArray(response: string): { value: unknown } | { error: string } {
+  // Prefer a fenced ```json block, then fall back to a bare [...] in the text
+  const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+  const candidates = fenced?.[1]?.trim().startsWith("[") ? [fenced[1]] : [];
+
+  const end = response.lastIndexOf("]");
+  for (let start = response.indexOf("["); start !== -1 && start < end; ) {
+    candidates.push(response.slice(start, end + 1));
+    start = response.indexOf("[", start + 1);
+  }
+
+  if (candidates.length === 0) {
+    return { error: "No JSON array found in the response" };
+  }
+
+  let firstError = "";
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch (error) {
+      firstError ||= error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return { error: `The JSON array is not valid JSON: ${firstError}` };
+}
+
+export function parseIssueArray(response: string): IssueArrayParseResult {
+  const parsed = parseJsonArray(response);
+  if ("error" in parsed) {
+    return { ok: false, errors: [parsed.error] };
+  }
+
+  const raw = parsed.value;
+
+  if (!Array.isArray(raw)) {
+    return { ok: false, errors: ["The response must be a JSON array of issues"] };
+  }
+
+  const issues: DocumentationIssue[] = [];
+  const itemErrors: string[] = [];
+
+  raw.forEach((item, index) => {
+    const result = validateIssue(item);
+    if (result.issue) {
+      issues.push(result.issue);
+    } else {
+      itemErrors.push(...result.errors.map((error) => `Item ${index}: ${error}`));
+    }
+  });
+
+  // A non-empty array with no usable items is treated as a failed response worth repairing
+  if (raw.length > 0 && issues.length === 0) {
+    return { ok: false, errors: itemErrors };
+  }
+
+  return { ok: true, issues, dropped: raw.length - issues.length, itemErrors };
+}
+
+export function buildRepairPrompt(previousResponse: string, errors: string[]): string {
+  return `Your previous response could not be used because it did not match the required format.
+
+Validation errors:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Previous response:
+${previousResponse}
+
+Return ONLY a JSON array of issues, with no other text. Each issue must be an object with:
+- "type": one of ${ISSUE_TYPES.join(", ")}
+- "severity": one of ${ISSUE_LEVELS.join(", ")}
+- "effort": one of ${ISSUE_LEVELS.join(", ")}
+- "title": non-empty string
+- "description": non-empty string
+- "suggestion": string
+- "file" (optional): path relative to the repository root
+- "line" (optional): positive integer
+- "excerpt" (optional): the exact text at that line, quoted verbatim from the file
+- "introducedByDiff" (optional): true if the change under review caused the issue
+
+Return [] if there are no issues.`;
+}
@@ -0,0 +1,112 @@
+import { createHash } from "node:crypto";
+import type { DocumentationIssue, IssueType } from "./types.js";
+
+export const ISSUE_TYPE_LABELS: Record<IssueType, string> = {
+  missing: "Missing documentation",
+  outdated: "Outdated documentation",
+  unclear: "Unclear documentation",
+  "broken-link": "Broken links",
+};
+
+export function normalizeIssueText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function issueKey(issue: DocumentationIssue): string {
+  return [issue.type, issue.file ?? "", issue.line ?? "", normalizeIssueText(issue.title)].join(
+    "|"
+  );
+}
+
+// Keeps the first occurrence of each issue, so callers should pass the most trusted source first
+export function deduplicateIssues(issues: DocumentationIssue[]): DocumentationIssue[] {
+  const seen = new Set<string>();
+  const unique: DocumentationIssue[] = [];
+
+  for (const issue of issues) {
+    const key = issueKey(issue);
+    if (!seen.has(key)) {
+      seen.add(key);
+      unique.push(issue);
+    }
+  }
+
+  return unique;
+}
+
+// Leaves out line numbers and severity so an issue keeps its fingerprint when lines move above
+// it or a severity override changes
+export function fingerprintIssue(issue: DocumentationIssue, nearbyContent = ""): string {
+  return createHash("sha256")
+    .update(
+      [
+        issue.type,
+        issue.file ?? "",
+        normalizeIssueText(issue.title),
+        normalizeIssueText(nearbyContent),
+      ].join("\n")
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Issues without a file are grouped under "". Order within each group is preserved.
+export function groupIssuesByFileAndType(
+  issues: DocumentationIssue[]
+): Map<string, Map<IssueType, DocumentationIssue[]>> {
+  const groups = new Map<string, Map<IssueType, DocumentationIssue[]>>();
+
+  for (const issue of issues) {
+    const file = issue.file ?? "";
+    let byType = groups.get(file);
+    if (!byType) {
+      byType = new Map();
+      groups.set(file, byType);
+    }
+    byType.set(issue.type, [...(byType.get(issue.type) ?? []), issue]);
+  }
+
+  return groups;
+}
+
+// Uses a fence longer than any backtick run in the snippet so it can't close early
+export function fenceSnippet(snippet: string, infoString = ""): string {
+  const longestRun = Math.max(0, ...(snippet.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}${infoString}\n${snippet}\n${fence}`;
+}
+
+export const ISSUE_TEMPLATE_FIELDS = [
+  "title",
+  "type",
+  "severity",
+  "effort",
+  "description",
+  "location",
+  "snippet",
+  "suggestion",
+] as const;
+
+export const ISSUE_TEMPLATE_PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Fills {{field}} placeholders; fields an issue doesn't have render as empty text
+export function renderIssueTemplate(template: string, issue: DocumentationIssue): string {
+  const fields: Record<(typeof ISSUE_TEMPLATE_FIELDS)[number], string> = {
+    title: issue.title,
+    type: issue.type,
+    severity: issue.severity,
+    effort: issue.effort,
+    description: issue.description,
+    location: issue.file ? `${issue.file}${issue.line ? `:${issue.line}` : ""}` : "Repository-wide",
+    snippet: issue.snippet ? fenceSnippet(issue.snippet) : "",
+    suggestion: issue.suggestion,
+  };
+
+  return template.replace(
+    ISSUE_TEMPLATE_PLACEHOLDER,
+    (placeholder, field: string) => fields[field as keyof typeof fields] ?? placeholder
+  );
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { collectMarkdownAnchors, githubSlug, LinkChecker } from "./link-checker.js";
+
+const FILES: Record<string, string> = {
+  "README.md": [
+    "# Tool",
+    "",
+    "See [the guide](docs/guide.md#getting-started), [its setup](docs/guide.md#setup-1)",
+    "and [a missing section](docs/guide.md#removed).",
+    "[Mixed case](docs/guide.md#Getting-Started) [HTML](docs/guide.md#MyAnchor) [Wrong case](docs/guide.md#myanchor)",
+    "",
+    "![Logo](assets/logo.png) [Changelog](CHANGELOG.md) [Docs](docs/) [Root](/docs/guide.md)",
+    "",
+    "`[not a link](nowhere.md)` [Outside](../elsewhere.md) [Mail](mailto:team@example.com)",
+    "",
+    "[Source](lib/cli.js#L10) [Down](https://down.example.com) [Up](https://up.example.com)",
+    "",
+    "```md",
+    "[in a fence](fenced.md)",
+    "```",
+    "",
+    "[ref]: docs/missing.md",
+  ].join("\n"),
+  "docs/guide.md":
+    '# Guide\n\n## Getting Started\n\n## Setup\n\n## Setup\n\n<a id="MyAnchor"></a>\n',
+  "lib/cli.js": "console.log('hi');\n",
+};
+
+describe("githubSlug", () => {
+  it("drops punctuation and link targets, keeping letters, digits, hyphens and underscores", () => {
+    assert.equal(githubSlug("Install `docs-check` (v2)!"), "install-docs-check-v2");
+    assert.equal(githubSlug("What's new?"), "whats-new");
+    assert.equal(githubSlug("[Options](#options) & flags"), "options--flags");
+    assert.equal(githubSlug("snake_case <em>and</em> Ünïcode"), "snake_case-and-ünïcode");
+  });
+});
+
+describe("collectMarkdownAnchors", () => {
+  it("numbers repeated headings and skips fenced code", () => {
+    const anchors = collectMarkdownAnchors(
+      [
+        "# Usage",
+        "## Usage",
+        "Setext heading",
+        "---",
+        "```sh",
+        "# not a heading",
+        "```",
+        '<a name="custom-anchor"></a> <span id="MyAnchor"></span>',
+      ].join("\n")
+    );
+    assert.deepEqual([...anchors.headings], ["usage", "usage-1", "setext-heading"]);
+    assert.deepEqual([...anchors.htmlAnchors], ["custom-anchor", "MyAnchor"]);
+  });
+});
+
+describe("LinkChecker", () => {
+  let repoPath: string;
+
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-links-"));
+    for (const [file, content] of Object.entries(FILES)) {
+      await mkdir(join(repoPath, file, ".."), { recursive: true });
+      await writeFile(join(repoPath, file), content, "utf-8");
+    }
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("reports missing files, anchors and unreachable URLs", async () => {
+    const fetched: string[] = [];
+    const checker = new LinkChecker(async (url) => {
+      fetched.push(url);
+      return url.includes("down") ? { ok: false, status: 404 } : { ok: true, status: 200 };
+    });
+
+    const brokenLinks = await checker.checkFiles(repoPath, Object.keys(FILES));
+    assert.deepEqual(
+      brokenLinks.map(({ line, target, kind }) => [line, target, kind]),
+      [
+        [4, "docs/guide.md#removed", "anchor"],
+        [5, "docs/guide.md#myanchor", "anchor"],
+        [7, "assets/logo.png", "image"],
+        [7, "CHANGELOG.md", "link"],
+        [9, "../elsewhere.md", "link"],
+        [11, "https://down.example.com", "external"],
+        [17, "docs/missing.md", "link"],
+      ]
+    );
+    assert.equal(brokenLinks[4].reason, "it points outside the repository");
+    assert.deepEqual(fetched, ["https://down.example.com", "https://up.example.com"]);
+  });
+
+  it("leaves external links alone without a fetcher", async () => {
+    const brokenLinks = await new LinkChecker().checkFiles(repoPath, ["README.md"]);
+    assert.ok(brokenLinks.every((brokenLink) => brokenLink.kind !== "external"));
+  });
+});
@@ -0,0 +1,386 @@
+import { promises as fs } from "node:fs";
+import { dirname, extname, isAbsolute, join, normalize } from "node:path";
+import type { DocumentationIssue, LinkFetcher, LinkFetchResult } from "./types.js";
+
+export interface BrokenLink {
+  file: string;
+  line: number;
+  target: string;
+  kind: "link" | "image" | "anchor" | "external";
+  reason: string;
+}
+
+// Heading slugs are lowercase and matched case-insensitively; explicit HTML anchors match exactly
+export interface MarkdownAnchors {
+  headings: Set<string>;
+  htmlAnchors: Set<string>;
+}
+
+interface LinkReference {
+  line: number;
+  target: string;
+  isImage: boolean;
+}
+
+const MARKDOWN_EXTENSIONS = [".md", ".markdown", ".mdown", ".mkd"];
+const RST_EXTENSIONS = [".rst"];
+
+const INLINE_IMAGE_PATTERN = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+const INLINE_LINK_PATTERN = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+
+export function isMarkdownFile(filePath: string): boolean {
+  return MARKDOWN_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+export function isLinkCheckableFile(filePath: string): boolean {
+  return isMarkdownFile(filePath) || RST_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+// Mirrors the anchor generation GitHub uses when rendering Markdown headings
+export function githubSlug(heading: string): string {
+  return heading
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\s-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+export function collectMarkdownAnchors(content: string): MarkdownAnchors {
+  const anchors: MarkdownAnchors = { headings: new Set(), htmlAnchors: new Set() };
+  const slugCounts = new Map<string, number>();
+  const lines = content.split(/\r?\n/);
+  let inFence = false;
+
+  const addHeading = (text: string) => {
+    const slug = githubSlug(text);
+    const count = slugCounts.get(slug) ?? 0;
+    slugCounts.set(slug, count + 1);
+    anchors.headings.add(count === 0 ? slug : `${slug}-${count}`);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      continue;
+    }
+
+    const atxMatch = line.match(/^ {0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (atxMatch) {
+      addHeading(atxMatch[1]);
+    } else if (i + 1 < lines.length && line.trim() && /^ {0,3}(=+|-+)\s*$/.test(lines[i + 1])) {
+      // Setext heading: text underlined with === or ---
+      addHeading(line);
+    }
+
+    // Explicit HTML anchors such as <a name="install"></a> or <h2 id="usage">
+    for (const match of line.matchAll(/<[a-z][^>]*\s(?:id|name)=["']([^"']+)["']/gi)) {
+      anchors.htmlAnchors.add(match[1]);
+    }
+  }
+
+  return anchors;
+}
+
+function extractMarkdownLinks(content: string): LinkReference[] {
+  const references: LinkReference[] = [];
+  const lines = content.split(/\r?\n/);
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      continue;
+    }
+
+    // Ignore inline code spans so examples like `[a](b)` are not checked
+    const line = lines[i].replace(/`[^`]*`/g, "");
+    const lineNumber = i + 1;
+
+    // Images first, so badges such as [![alt](badge.svg)](url) leave a plain link behind
+    const withoutImages = line.replace(INLINE_IMAGE_PATTERN, (_match, target: string) => {
+      references.push({ line: lineNumber, target, isImage: true });
+      return "image";
+    });
+
+    for (const match of withoutImages.matchAll(INLINE_LINK_PATTERN)) {
+      references.push({ line: lineNumber, target: match[1], isImage: false });
+    }
+
+    const definition = line.match(/^ {0,3}\[[^\]]+\]:\s*<?([^\s>]+)>?/);
+    if (definition) {
+      references.push({ line: lineNumber, target: definition[1], isImage: false });
+    }
+
+    for (const match of line.matchAll(/<(a|img)\s[^>]*(?:href|src)=["']([^"']+)["']/gi)) {
+      references.push({
+        line: lineNumber,
+        target: match[2],
+        isImage: match[1].toLowerCase() === "img",
+      });
+    }
+  }
+
+  return references;
+}
+
+function extractRstLinks(content: string): LinkReference[] {
+  const references: LinkReference[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+
+    for (const match of line.matchAll(/`[^`<]*<([^>]+)>`__?/g)) {
+      references.push({ line: lineNumber, target: match[1], isImage: false });
+    }
+
+    const image = line.match(/^\s*\.\.\s+(?:image|figure)::\s*(\S+)/);
+    if (image) {
+      references.push({ line: lineNumber, target: image[1], isImage: true });
+    }
+
+    const target = line.match(/^\s*\.\.\s+_[^:]+:\s*(\S+)/);
+    if (target) {
+      references.push({ line: lineNumber, target: target[1], isImage: false });
+    }
+  }
+
+  return references;
+}
+
+export function createHttpLinkFetcher(timeoutMs = 10000): LinkFetcher {
+  return async (url: string): Promise<LinkFetchResult> => {
+    try {
+      let response = await fetch(url, {
+        method: "HEAD",
+        redirect: "follow",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      // Some servers reject HEAD requests outright
+      if (response.status === 405 || response.status === 501) {
+        response = await fetch(url, {
+          method: "GET",
+          redirect: "follow",
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      }
+
+      return { ok: response.ok, status: response.status };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+}
+
+export class LinkChecker {
+  private fetcher: LinkFetcher | undefined;
+  private anchorCache = new Map<string, MarkdownAnchors | null>();
+  private externalCache = new Map<string, Promise<LinkFetchResult>>();
+
+  constructor(fetcher?: LinkFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  async checkFiles(repoPath: string, files: string[]): Promise<BrokenLink[]> {
+    const brokenLinks: BrokenLink[] = [];
+
+    for (const file of files.filter(isLinkCheckableFile)) {
+      let content: string;
+      try {
+        content = await fs.readFile(join(repoPath, file), "utf-8");
+      } catch (_error) {
+        continue;
+      }
+
+      const references = isMarkdownFile(file)
+        ? extractMarkdownLinks(content)
+        : extractRstLinks(content);
+
+      for (const reference of references) {
+        const broken = await this.checkReference(repoPath, file, reference);
+        if (broken) {
+          brokenLinks.push(broken);
+        }
+      }
+    }
+
+    return brokenLinks;
+  }
+
+  private async checkReference(
+    repoPath: string,
+    file: string,
+    reference: LinkReference
+  ): Promise<BrokenLink | null> {
+    const { target, line } = reference;
+
+    // Skip templated or placeholder targets
+    if (/[{}<>]/.test(target)) {
+      return null;
+    }
+
+    if (/^https?:\/\//i.test(target) || target.startsWith("//")) {
+      return this.checkExternal(file, reference);
+    }
+
+    // Other schemes (mailto:, tel:, ftp:, ...) are not checked
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+      return null;
+    }
+
+    const [rawPath, fragment] = splitTarget(target);
+    let targetFile = file;
+
+    if (rawPath) {
+      let decodedPath: string;
+      try {
+        decodedPath = decodeURIComponent(rawPath);
+      } catch {
+        decodedPath = rawPath;
+      }
+
+      // Leading slashes resolve from the repository root, as they do on GitHub
+      const resolved = decodedPath.startsWith("/")
+        ? normalize(decodedPath.slice(1))
+        : normalize(join(dirname(file), decodedPath));
+
+      if (resolved.startsWith("..") || isAbsolute(resolved)) {
+        return {
+          file,
+          line,
+          target,
+          kind: reference.isImage ? "image" : "link",
+          reason: "it points outside the repository",
+        };
+      }
+
+      let isDirectory = false;
+      try {
+        isDirectory = (await fs.stat(join(repoPath, resolved))).isDirectory();
+      } catch {
+        return {
+          file,
+          line,
+          target,
+          kind: reference.isImage ? "image" : "link",
+          reason: `${reference.isImage ? "the image" : "the file"} \`${resolved}\` does not exist`,
+        };
+      }
+
+      if (isDirectory) {
+        return null;
+      }
+      targetFile = resolved;
+    }
+
+    // Only Markdown headings have predictable anchors; line anchors like #L10 are left alone
+    if (fragment && isMarkdownFile(targetFile)) {
+      const anchors = await this.getAnchors(repoPath, targetFile);
+      let decodedFragment: string;
+      try {
+        decodedFragment = decodeURIComponent(fragment);
+      } catch {
+        decodedFragment = fragment;
+      }
+
+      if (
+        anchors &&
+        !anchors.headings.has(decodedFragment.toLowerCase()) &&
+        !anchors.htmlAnchors.has(decodedFragment)
+      ) {
+        return {
+          file,
+          line,
+          target,
+          kind: "anchor",
+          reason: `no heading in \`${targetFile}\` produces the anchor \`#${fragment}\``,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private async checkExternal(file: string, reference: LinkReference): Promise<BrokenLink | null> {
+    if (!this.fetcher) {
+      return null;
+    }
+
+    const url = reference.target.startsWith("//") ? `https:${reference.target}` : reference.target;
+    let pending = this.externalCache.get(url);
+    if (!pending) {
+      pending = this.fetcher(url);
+      this.externalCache.set(url, pending);
+    }
+
+    const result = await pending;
+    if (result.ok) {
+      return null;
+    }
+
+    return {
+      file,
+      line: reference.line,
+      target: reference.target,
+      kind: "external",
+      reason: result.status
+        ? `the URL returned HTTP ${result.status}`
+        : `the URL could not be reached${result.error ? ` (${result.error})` : ""}`,
+    };
+  }
+
+  private async getAnchors(repoPath: string, file: string): Promise<MarkdownAnchors | null> {
+    if (!this.anchorCache.has(file)) {
+      try {
+        const content = await fs.readFile(join(repoPath, file), "utf-8");
+        this.anchorCache.set(file, collectMarkdownAnchors(content));
+      } catch {
+        this.anchorCache.set(file, null);
+      }
+    }
+
+    return this.anchorCache.get(file) ?? null;
+  }
+}
+
+function splitTarget(target: string): [string, string] {
+  const withoutQuery = target.replace(/\?[^#]*/, "");
+  const hashIndex = withoutQuery.indexOf("#");
+  if (hashIndex === -1) {
+    return [withoutQuery, ""];
+  }
+  return [withoutQuery.slice(0, hashIndex), withoutQuery.slice(hashIndex + 1)];
+}
+
+export function brokenLinkToIssue(brokenLink: BrokenLink): DocumentationIssue {
+  const severity =
+    brokenLink.kind === "anchor" || brokenLink.kind === "external" ? "low" : "medium";
+  const noun =
+    brokenLink.kind === "image" ? "image" : brokenLink.kind === "anchor" ? "anchor" : "link";
+
+  return {
+    type: "broken-link",
+    severity,
+    effort: "low",
+    title: `Broken ${noun} \`${brokenLink.target}\` in ${brokenLink.file}`,
+    description: `Line ${brokenLink.line} of \`${brokenLink.file}\` references \`${brokenLink.target}\`, but ${brokenLink.reason}.`,
+    suggestion:
+      brokenLink.kind === "anchor"
+        ? "Update the anchor to match an existing heading, or restore the heading it points to."
+        : "Update the reference to point to an existing location, or remove it.",
+    file: brokenLink.file,
+    line: brokenLink.line,
+  };
+}
@@ -0,0 +1,194 @@
+import { fenceSnippet, groupIssuesByFileAndType, ISSUE_TYPE_LABELS } from "./issue-utils.js";
+import { formatRepositoryName, sourceFileUrl } from "./repository-source.js";
+import type { AnalysisReport, AnalysisResult, DocumentationIssue, IssueLevel } from "./types.js";
+
+const SEVERITY_BADGES: Record<IssueLevel, string> = {
+  high: "🔴 High severity",
+  medium: "🟠 Medium severity",
+  low: "🟡 Low severity",
+};
+
+const EFFORT_BADGES: Record<IssueLevel, string> = {
+  high: "🛠️ High effort",
+  medium: "🛠️ Medium effort",
+  low: "🛠️ Low effort",
+};
+
+// Angle brackets and pipes would otherwise turn model-written text into HTML or table cells
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[<>|]/g, (character) => `\\${character}`);
+}
+
+function formatLocation(analysis: AnalysisResult, issue: DocumentationIssue): string {
+  if (!issue.file) {
+    return "Repository-wide";
+  }
+
+  const label = `${issue.file}${issue.line ? `:${issue.line}` : ""}`;
+  const url = sourceFileUrl(analysis.repository, analysis.commit, issue.file, issue.line);
+  return url ? `[\`${label}\`](${url})` : `\`${label}\``;
+}
+
+function formatIssue(lines: string[], analysis: AnalysisResult, issue: DocumentationIssue) {
+  lines.push(`#### ${escapeMarkdown(issue.title)}`);
+  lines.push("");
+  lines.push(
+    `**${SEVERITY_BADGES[issue.severity]}** · ${EFFORT_BADGES[issue.effort]}${issue.introducedByDiff ? " · 🆕 Introduced by this change" : ""} · ${formatLocation(analysis, issue)}`
+  );
+  lines.push("");
+  lines.push("<details>");
+  lines.push("<summary>Description and suggestion</summary>");
+  lines.push("");
+  lines.push(escapeMarkdown(issue.description));
+  lines.push("");
+  if (issue.snippet) {
+    lines.push(fenceSnippet(issue.snippet));
+    lines.push("");
+  }
+  if (issue.suggestion) {
+    lines.push(`**Suggestion:** ${escapeMarkdown(issue.suggestion)}`);
+    lines.push("");
+  }
+  lines.push("</details>");
+  lines.push("");
+}
+
+function formatSummary(lines: string[], analysis: AnalysisResult) {
+  const { summary } = analysis;
+
+  lines.push("| Severity | Issues |");
+  lines.push("| --- | ---: |");
+  lines.push(`| ${SEVERITY_BADGES.high} | ${summary.highSeverity} |`);
+  lines.push(`| ${SEVERITY_BADGES.medium} | ${summary.mediumSeverity} |`);
+  lines.push(`| ${SEVERITY_BADGES.low} | ${summary.lowSeverity} |`);
+  lines.push(`| **Total** | **${summary.totalIssues}** |`);
+  lines.push("");
+
+  if (analysis.apiSurface) {
+    const { symbols } = analysis.apiSurface;
+    const documented = symbols.filter((symbol) => symbol.documented).length;
+    lines.push(
+      `**API coverage:** ${summary.apiCoverage}% of exported symbols are mentioned in the docs (${documented} of ${symbols.length}).`
+    );
+    lines.push("");
+  }
+
+  const typeCounts = new Map<string, number>();
+  for (const issue of analysis.issues) {
+    const label = ISSUE_TYPE_LABELS[issue.type];
+    typeCounts.set(label, (typeCounts.get(label) ?? 0) + 1);
+  }
+  if (typeCounts.size > 0) {
+    lines.push("| Type | Issues |");
+    lines.push("| --- | ---: |");
+    for (const [label, count] of typeCounts) {
+      lines.push(`| ${label} | ${count} |`);
+    }
+    lines.push("");
+  }
+}
+
+export function renderMarkdown(report: AnalysisReport): string {
+  const { analysis } = report;
+  const lines: string[] = [];
+
+  lines.push(`# 📚 Documentation Report for ${formatRepositoryName(analysis.repository)}`);
+  lines.push("");
+  lines.push(
+    `Analyzed ${analysis.commit ? `commit \`${analysis.commit.slice(0, 12)}\`` : "working directory"} on ${analysis.timestamp}.`
+  );
+  lines.push("");
+
+  if (analysis.status !== "complete") {
+    lines.push(
+      `> ${analysis.status === "failed" ? "❌ **Analysis failed.**" : "⚠️ **Analysis incomplete.**"} Some passes did not produce usable output:`
+    );
+    for (const failure of analysis.failures) {
+      lines.push(`> - Pass ${failure.pass}: ${escapeMarkdown(failure.message)}`);
+    }
+    lines.push("");
+  }
+  if (analysis.coverage.unreviewedSections.length > 0) {
+    lines.push(
+      `> ⚠️ ${analysis.coverage.unreviewedSections.length} documentation sections were not reviewed.`
+    );
+    lines.push("");
+  }
+
+  formatSummary(lines, analysis);
+
+  // Repository-wide issues first, then files alphabetically
+  const groups = [...groupIssuesByFileAndType(analysis.issues)].sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  for (const [file, byType] of groups) {
+    lines.push(file ? `## 📄 \`${file}\`` : "## 📁 Repository-wide");
+    lines.push("");
+    for (const [type, issues] of byType) {
+      lines.push(`### ${ISSUE_TYPE_LABELS[type]} (${issues.length})`);
+      lines.push("");
+      for (const issue of issues) {
+        formatIssue(lines, analysis, issue);
+      }
+    }
+  }
+
+  const { baseline } = analysis;
+  if (baseline && baseline.baselinedIssues.length > 0) {
+    lines.push("## 🗂️ Baselined Issues");
+    lines.push("");
+    for (const issue of baseline.baselinedIssues) {
+      lines.push(`- ${escapeMarkdown(issue.title)} (${formatLocation(analysis, issue)})`);
+    }
+    lines.push("");
+  }
+  if (baseline && baseline.fixedIssues.length > 0) {
+    lines.push("## ✅ Fixed Since Baseline");
+    lines.push("");
+    for (const entry of baseline.fixedIssues) {
+      lines.push(`- ${escapeMarkdown(entry.title)}${entry.file ? ` (\`${entry.file}\`)` : ""}`);
+    }
+    lines.push("");
+  }
+
+  const { issueSync } = report;
+  if (issueSync) {
+    lines.push("## 🐙 GitHub Issues");
+    lines.push("");
+    const actions = [
+      ["Created", issueSync.created],
+      ["Updated", issueSync.updated],
+      ["Unchanged", issueSync.unchanged],
+      ["Closed", issueSync.closed],
+    ] as const;
+    for (const [label, results] of actions) {
+      if (results.length > 0) {
+        lines.push(
+          `- ${label}: ${results.map((result) => `[#${result.number}](${result.url})`).join(", ")}`
+        );
+      }
+    }
+    lines.push("");
+  }
+  if (report.pullRequest) {
+    lines.push(
+      `🐙 Fixes were opened as pull request [#${report.pullRequest.number}](${report.pullRequest.url}).`
+    );
+    lines.push("");
+  } else if (report.pullRequest === null) {
+    lines.push("No automatic fixes could be applied, so no pull request was opened.");
+    lines.push("");
+  }
+
+  if (report.review) {
+    lines.push(
+      `🐙 Posted a pull request review: ${report.review.created} new, ${report.review.updated} updated and ${report.review.resolved} resolved inline comments ([summary](${report.review.summaryCommentUrl})).`
+    );
+    lines.push("");
+  }
+
+  lines.push("---");
+  lines.push("*Generated by docs-check*");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,109 @@
+import { escapeMarkdown } from "./markdown-reporter.js";
+import { SEVERITY_WEIGHTS } from "./org-scan.js";
+import { formatUsage } from "./text-reporter.js";
+import type { OrganizationReport, OutputFormat, RepositoryScanResult } from "./types.js";
+
+export type OrganizationReporter = (report: OrganizationReport) => string;
+
+const SCORE_FORMULA = `${SEVERITY_WEIGHTS.high} × high + ${SEVERITY_WEIGHTS.medium} × medium + ${SEVERITY_WEIGHTS.low} × low`;
+
+function describeSource(report: OrganizationReport): string {
+  return report.owner ?? "the listed repositories";
+}
+
+// "complete" needs no note; everything else says why the counts may be incomplete
+function describeStatus(result: RepositoryScanResult): string {
+  switch (result.status) {
+    case "complete":
+      return "";
+    case "partial":
+      return "some docs not reviewed";
+    case "failed":
+      return "analysis failed";
+    case "error":
+      // git errors run over several lines; the first names what failed
+      return result.error?.split("\n")[0] ?? "error";
+  }
+}
+
+function renderText(report: OrganizationReport): string {
+  const { summary } = report;
+  const lines: string[] = [];
+
+  lines.push(`\n🏢 Documentation Health for ${describeSource(report)}`);
+  lines.push(`${"-".repeat(50)}`);
+  lines.push(
+    `Repositories: ${summary.repositories} scanned, ${summary.failedRepositories} failed, ${report.filteredOut} filtered out`
+  );
+  lines.push(
+    `Total Issues: ${summary.totalIssues} (${summary.highSeverity} high, ${summary.mediumSeverity} medium, ${summary.lowSeverity} low)`
+  );
+  lines.push(`Usage: ${formatUsage(report.usage)}`);
+
+  if (report.repositories.length > 0) {
+    lines.push(`\nRanking (score = ${SCORE_FORMULA}):`);
+  }
+  report.repositories.forEach((result, index) => {
+    const counts = result.analysis
+      ? `${result.analysis.summary.highSeverity} high, ${result.analysis.summary.mediumSeverity} medium, ${result.analysis.summary.lowSeverity} low`
+      : "no results";
+    const note = describeStatus(result);
+    lines.push(
+      `${String(index + 1).padStart(3)}. ${result.repository} — score ${result.score} (${counts})${note ? ` ⚠️  ${note}` : ""}`
+    );
+  });
+
+  return lines.join("\n");
+}
+
+function renderMarkdown(report: OrganizationReport): string {
+  const { summary } = report;
+  const lines: string[] = [];
+
+  lines.push(`# 🏢 Documentation Health for ${describeSource(report)}`);
+  lines.push("");
+  lines.push(
+    `Scanned ${summary.repositories} repositories on ${report.timestamp}; ${summary.failedRepositories} could not be analyzed and ${report.filteredOut} were filtered out.`
+  );
+  lines.push("");
+  lines.push(
+    `**${summary.totalIssues} issues:** ${summary.highSeverity} high, ${summary.mediumSeverity} medium and ${summary.lowSeverity} low severity.`
+  );
+  lines.push("");
+
+  if (report.repositories.length > 0) {
+    lines.push("| # | Repository | Score | High | Medium | Low | Notes |");
+    lines.push("| ---: | --- | ---: | ---: | ---: | ---: | --- |");
+    report.repositories.forEach((result, index) => {
+      const summary = result.analysis?.summary;
+      lines.push(
+        `| ${index + 1} | \`${result.repository}\` | ${result.score} | ${summary?.highSeverity ?? "–"} | ${summary?.mediumSeverity ?? "–"} | ${summary?.lowSeverity ?? "–"} | ${escapeMarkdown(describeStatus(result))} |`
+      );
+    });
+    lines.push("");
+    lines.push(`Score = ${SCORE_FORMULA} severity issues.`);
+    lines.push("");
+  }
+
+  lines.push("---");
+  lines.push("*Generated by docs-check*");
+
+  return lines.join("\n");
+}
+
+function renderJson(report: OrganizationReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+// The last line of an ndjson stream, after the progress events
+function renderNdjson(report: OrganizationReport): string {
+  return JSON.stringify({ type: "result", result: report });
+}
+
+// SARIF and HTML describe a single repository's files, so they have no organization form
+export const ORGANIZATION_REPORTERS: Partial<Record<OutputFormat, OrganizationReporter>> = {
+  json: renderJson,
+  ndjson: renderNdjson,
+  text: renderText,
+  markdown: renderMarkdown,
+};
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { cp, mkdtemp, rm } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { simpleGit } from "simple-git";
+import { InputError } from "./errors.js";
+import { scanOrganization } from "./org-scan.js";
+
+const FIXTURES = fileURLToPath(new URL("./__fixtures__/", import.meta.url));
+const RECORDINGS = join(FIXTURES, "recordings");
+
+function repositoryData(name: string, cloneUrl: string, fields: Record<string, unknown> = {}) {
+  return {
+    name,
+    owner: { login: "acme" },
+    clone_url: cloneUrl,
+    topics: ["docs"],
+    language: "TypeScript",
+    archived: false,
+    fork: false,
+    ...fields,
+  };
+}
+
+describe("scanOrganization", () => {
+  let workDirectory: string;
+  let server: Server;
+  let apiUrl: string;
+  const requests: string[] = [];
+
+  before(async () => {
+    workDirectory = await mkdtemp(join(tmpdir(), "docs-check-org-"));
+    const repoPath = join(workDirectory, "docs");
+    await cp(join(FIXTURES, "sample-repo"), repoPath, { recursive: true });
+    const git = simpleGit(repoPath, {
+      config: ["user.name=docs-check", "user.email=docs-check@example.com"],
+    });
+    await git.init();
+    await git.add(".");
+    await git.commit("Initial commit");
+
+    const repositories = [
+      repositoryData("docs", pathToFileURL(repoPath).href),
+      repositoryData("legacy", pathToFileURL(join(workDirectory, "legacy")).href, {
+        archived: true,
+      }),
+      repositoryData("missing", pathToFileURL(join(workDirectory, "missing")).href),
+    ];
+
+    // Stands in for the GitHub REST API
+    server = createServer((request, response) => {
+      const path = (request.url ?? "").split("?")[0];
+      requests.push(path);
+      const repository = repositories.find(({ name }) => path === `/repos/acme/${name}`);
+      const body =
+        path === "/orgs/acme/repos" ? repositories : (repository ?? { message: "Not Found" });
+      response.writeHead(path === "/orgs/acme/repos" || repository ? 200 : 404, {
+        "content-type": "application/json",
+      });
+      response.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(workDirectory, { recursive: true, force: true });
+  });
+
+  it("ranks an organization's repositories and isolates failures", async () => {
+    const report = await scanOrganization(
+      { owner: "acme" },
+      {
+        githubApiUrl: apiUrl,
+        replay: RECORDINGS,
+        cache: false,
+        concurrency: 2,
+        tempDirectory: join(workDirectory, "clones"),
+      }
+    );
+
+    assert.equal(report.filteredOut, 1);
+    assert.deepEqual(
+      report.repositories.map(({ repository, status }) => [repository, status]),
+      [
+        ["acme/docs", "complete"],
+        ["acme/missing", "error"],
+      ]
+    );
+    assert.equal(report.repositories[0].analysis?.summary.totalIssues, 3);
+    assert.ok(report.repositories[0].score > 0);
+    assert.match(report.repositories[1].error ?? "", /Failed to clone repository/);
+    assert.equal(report.summary.totalIssues, 3);
+    assert.equal(report.summary.failedRepositories, 1);
+  });
+
+  it("looks up listed repositories so filters apply to them", async () => {
+    requests.length = 0;
+    const report = await scanOrganization(
+      { repositories: ["acme/docs", "https://github.com/acme/missing"] },
+      { githubApiUrl: apiUrl, replay: RECORDINGS, filters: { language: "python" } }
+    );
+
+    assert.deepEqual(requests, ["/repos/acme/docs", "/repos/acme/missing"]);
+    assert.equal(report.filteredOut, 2);
+    assert.deepEqual(report.repositories, []);
+  });
+
+  it("fails before listing anything when the API key is missing", async () => {
+    requests.length = 0;
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    try {
+      await assert.rejects(
+        scanOrganization({ owner: "acme" }, { githubApiUrl: apiUrl, cache: false }),
+        InputError
+      );
+    } finally {
+      if (apiKey !== undefined) {
+        process.env.ANTHROPIC_API_KEY = apiKey;
+      }
+    }
+    assert.deepEqual(requests, []);
+  });
+});
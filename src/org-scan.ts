@@ -0,0 +1,255 @@
+import { type CheckDocumentationOptions, getConfig, runDocsCheck } from "./check-documentation.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { InputError } from "./errors.js";
+import { GitHubClient } from "./github-client.js";
+import { githubHostsFor, isGitHubRepository, parseRepositoryUrl } from "./repository-source.js";
+import type {
+  AnalysisResult,
+  IssueLevel,
+  OrganizationProgressEvent,
+  OrganizationReport,
+  RepositoryFilters,
+  RepositoryListing,
+  RepositoryScanResult,
+} from "./types.js";
+import { UsageMeter } from "./usage.js";
+
+export const DEFAULT_REPOSITORY_CONCURRENCY = 4;
+
+// What an issue of each severity adds to a repository's score
+export const SEVERITY_WEIGHTS: Record<IssueLevel, number> = { high: 5, medium: 2, low: 1 };
+
+// Every repository of a GitHub organization or user, or the given owner/repo names and GitHub URLs
+export type OrganizationSource = { owner: string } | { repositories: string[] };
+
+// Only the listing calls of GitHubClient; anything that implements them can stand in for GitHub
+export type RepositoryLister = Pick<GitHubClient, "listRepositories" | "getRepository">;
+
+// Options apply to each repository's analysis; a budget limits every repository separately
+export interface ScanOrganizationOptions
+  extends Omit<
+    CheckDocumentationOptions,
+    | "command"
+    | "dryRun"
+    | "baselinePath"
+    | "updateBaseline"
+    | "base"
+    | "head"
+    | "pullRequest"
+    | "onProgress"
+    | "unattendedClone"
+  > {
+  // Repositories analyzed at the same time (default: 4)
+  concurrency?: number;
+  filters?: RepositoryFilters;
+  // Default: a GitHubClient for `githubApiUrl`, authenticated with `githubToken`
+  github?: RepositoryLister;
+  onProgress?: (event: OrganizationProgressEvent) => void;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function parseRepositoryName(
+  entry: string,
+  githubHosts: string[]
+): { owner: string; repo: string } {
+  const shorthand = entry.match(/^([\w.-]+)\/([\w.-]+)$/);
+  if (shorthand) {
+    return { owner: shorthand[1], repo: shorthand[2].replace(/\.git$/, "") };
+  }
+
+  const repository = parseRepositoryUrl(entry, githubHosts);
+  if (!isGitHubRepository(repository)) {
+    throw new InputError(`Expected owner/repo or a GitHub URL, got "${entry}"`);
+  }
+  return { owner: repository.owner, repo: repository.repo };
+}
+
+// Entries of a repository list file: one owner/repo or GitHub URL per line, with blank lines and
+// `#` comments ignored
+export function parseRepositoryList(content: string): string[] {
+  return content
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line.length > 0);
+}
+
+export function filterRepositories(
+  repositories: RepositoryListing[],
+  filters: RepositoryFilters = {}
+): RepositoryListing[] {
+  const language = filters.language?.toLowerCase();
+  return repositories.filter(
+    (repository) =>
+      (filters.includeArchived || !repository.archived) &&
+      (filters.includeForks || !repository.fork) &&
+      (!language || repository.language?.toLowerCase() === language) &&
+      (filters.topics ?? []).every((topic) => repository.topics.includes(topic.toLowerCase()))
+  );
+}
+
+export function scoreAnalysis(analysis: AnalysisResult): number {
+  const { summary } = analysis;
+  return (
+    summary.highSeverity * SEVERITY_WEIGHTS.high +
+    summary.mediumSeverity * SEVERITY_WEIGHTS.medium +
+    summary.lowSeverity * SEVERITY_WEIGHTS.low
+  );
+}
+
+// Highest score first, then most high-severity issues; a failed analysis says nothing about the
+// docs, so those repositories go last
+function compareResults(a: RepositoryScanResult, b: RepositoryScanResult): number {
+  const aUsable = a.status === "complete" || a.status === "partial";
+  const bUsable = b.status === "complete" || b.status === "partial";
+  if (aUsable !== bUsable) {
+    return aUsable ? -1 : 1;
+  }
+  return (
+    b.score - a.score ||
+    (b.analysis?.summary.highSeverity ?? 0) - (a.analysis?.summary.highSeverity ?? 0) ||
+    a.repository.localeCompare(b.repository)
+  );
+}
+
+async function listRepositories(
+  source: OrganizationSource,
+  github: RepositoryLister,
+  githubHosts: string[]
+): Promise<RepositoryListing[]> {
+  if ("owner" in source) {
+    return github.listRepositories(source.owner);
+  }
+
+  // Listed names are looked up so filters see the same metadata as for an owner's repositories
+  const names = source.repositories.map((entry) => parseRepositoryName(entry, githubHosts));
+  const listings: RepositoryListing[] = [];
+  for (const { owner, repo } of names) {
+    listings.push(await github.getRepository(owner, repo));
+  }
+  return listings;
+}
+
+// Analyzes many repositories and ranks them by how much their documentation needs work. A
+// repository that can't be cloned or analyzed is reported as an error instead of ending the scan.
+export async function scanOrganization(
+  source: OrganizationSource,
+  options: ScanOrganizationOptions = {}
+): Promise<OrganizationReport> {
+  const { concurrency, filters, github, onProgress, signal, ...checkOptions } = options;
+  const startedAt = Date.now();
+
+  // Missing credentials would fail every repository, so they end the scan before it starts
+  const config = getConfig(checkOptions, false, !checkOptions.replay);
+  const lister =
+    github ??
+    new GitHubClient(
+      config.githubToken,
+      undefined,
+      config.githubApiUrl ? { baseUrl: config.githubApiUrl } : {}
+    );
+
+  const listed = await listRepositories(source, lister, githubHostsFor(config.githubApiUrl));
+  const repositories = filterRepositories(listed, filters);
+  const owner = "owner" in source ? source.owner : undefined;
+  onProgress?.({
+    type: "listing",
+    ...(owner ? { owner } : {}),
+    repositories: repositories.length,
+    filteredOut: listed.length - repositories.length,
+  });
+
+  const total = repositories.length;
+  const results = await mapWithConcurrency(
+    repositories,
+    concurrency ?? DEFAULT_REPOSITORY_CONCURRENCY,
+    async (listing, index): Promise<RepositoryScanResult> => {
+      signal?.throwIfAborted();
+      const name = `${listing.owner}/${listing.repo}`;
+      onProgress?.({ type: "repository-started", repository: name, index: index + 1, total });
+
+      let result: RepositoryScanResult;
+      try {
+        const analysis = (
+          await runDocsCheck(listing.cloneUrl, {
+            ...checkOptions,
+            command: "analyze",
+            // Listed repositories may be private ones the token can read
+            unattendedClone: true,
+            ...(onProgress
+              ? {
+                  onProgress: (event) =>
+                    onProgress({ type: "repository-progress", repository: name, event }),
+                }
+              : {}),
+            ...(signal ? { signal } : {}),
+          })
+        ).analysis;
+        result = {
+          repository: name,
+          url: listing.cloneUrl,
+          status: analysis.status,
+          score: analysis.status === "failed" ? 0 : scoreAnalysis(analysis),
+          analysis,
+        };
+      } catch (error) {
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+        result = {
+          repository: name,
+          url: listing.cloneUrl,
+          status: "error",
+          score: 0,
+          error: errorMessage(error),
+        };
+      }
+
+      onProgress?.({
+        type: "repository-finished",
+        repository: name,
+        index: index + 1,
+        total,
+        status: result.status,
+        issues: result.analysis?.summary.totalIssues ?? 0,
+        ...(result.error ? { error: result.error } : {}),
+      });
+      return result;
+    }
+  );
+
+  const meter = new UsageMeter();
+  const summary: OrganizationReport["summary"] = {
+    repositories: results.length,
+    failedRepositories: 0,
+    totalIssues: 0,
+    highSeverity: 0,
+    mediumSeverity: 0,
+    lowSeverity: 0,
+  };
+  for (const result of results) {
+    if (result.status === "error" || result.status === "failed") {
+      summary.failedRepositories++;
+    }
+    if (result.analysis) {
+      meter.add(result.analysis.usage);
+      summary.totalIssues += result.analysis.summary.totalIssues;
+      summary.highSeverity += result.analysis.summary.highSeverity;
+      summary.mediumSeverity += result.analysis.summary.mediumSeverity;
+      summary.lowSeverity += result.analysis.summary.lowSeverity;
+    }
+  }
+  // Repositories are analyzed concurrently, so the scan's duration is wall-clock time
+  meter.addDuration(Date.now() - startedAt);
+
+  return {
+    ...(owner ? { owner } : {}),
+    repositories: results.sort(compareResults),
+    filteredOut: listed.length - repositories.length,
+    summary,
+    usage: meter.totals,
+    timestamp: new Date().toISOString(),
+  };
+}
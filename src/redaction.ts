@@ -0,0 +1,97 @@
+export const REDACTION_PLACEHOLDER = "[REDACTED]";
+
+// Credentials with a recognisable shape; the whole match is replaced
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{40,}\b/g,
+  /\bsk-ant-[A-Za-z0-9_-]{20,}/g,
+  /\bsk-(?:proj-)?[A-Za-z0-9]{20,}\b/g,
+  /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\bAIza[A-Za-z0-9_-]{35}\b/g,
+  /\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+];
+
+// `API_KEY=value`, `"password": "value"` and the like; only the value is replaced
+const ASSIGNMENT_PATTERN =
+  /\b([A-Za-z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY)[A-Za-z0-9_]*["']?\s*[:=]\s*["']?)([^\s"'`,;(){}[\]]{8,})/gi;
+
+// Values that document where a secret goes rather than being one
+const PLACEHOLDER_VALUE =
+  /^(?:<|\$|\{|%|\*+$|x{3,}|\.{3})|your|example|change|dummy|placeholder|redacted/i;
+
+const HIGH_ENTROPY_CANDIDATE = /(?<![\w/+=-])[A-Za-z0-9+/=_-]{32,}(?![\w/+=-])/g;
+const MIN_ENTROPY_BITS_PER_CHAR = 4.3;
+
+export interface RedactionResult {
+  text: string;
+  redactions: number;
+}
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const character of text) {
+    counts.set(character, (counts.get(character) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / text.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+// Random-looking tokens mix cases and digits; paths, identifiers and hex digests don't
+function looksRandom(candidate: string): boolean {
+  return (
+    /[a-z]/.test(candidate) &&
+    /[A-Z]/.test(candidate) &&
+    /\d/.test(candidate) &&
+    shannonEntropy(candidate) >= MIN_ENTROPY_BITS_PER_CHAR
+  );
+}
+
+// Line breaks inside a match are kept so reported line numbers still point at the original file
+function placeholderFor(match: string): string {
+  return REDACTION_PLACEHOLDER + "\n".repeat(match.split("\n").length - 1);
+}
+
+// Replaces tokens, keys and high-entropy strings before file contents are sent to a model
+export function redactSecrets(text: string): RedactionResult {
+  let redactions = 0;
+  let redacted = text;
+
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, (match) => {
+      redactions++;
+      return placeholderFor(match);
+    });
+  }
+
+  redacted = redacted.replace(ASSIGNMENT_PATTERN, (match, prefix: string, value: string) => {
+    // Without both letters and digits the value is more likely a reference like process.env.TOKEN
+    if (
+      value.includes(REDACTION_PLACEHOLDER) ||
+      PLACEHOLDER_VALUE.test(value) ||
+      !/\d/.test(value) ||
+      !/[A-Za-z]/.test(value)
+    ) {
+      return match;
+    }
+    redactions++;
+    return `${prefix}${REDACTION_PLACEHOLDER}`;
+  });
+
+  redacted = redacted.replace(HIGH_ENTROPY_CANDIDATE, (match) => {
+    if (!looksRandom(match)) {
+      return match;
+    }
+    redactions++;
+    return REDACTION_PLACEHOLDER;
+  });
+
+  return { text: redacted, redactions };
+}
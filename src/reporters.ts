@@ -0,0 +1,35 @@
+import { renderHtml } from "./html-reporter.js";
+import { renderMarkdown } from "./markdown-reporter.js";
+import { renderSarif } from "./sarif-reporter.js";
+import { renderText } from "./text-reporter.js";
+import type { AnalysisReport, OutputFormat, Reporter } from "./types.js";
+
+// `analyze` prints the bare analysis result; the other commands wrap it with what they did
+function toJsonOutput(report: AnalysisReport): object {
+  const { command, ...output } = report;
+  return command === "analyze" ? report.analysis : output;
+}
+
+function renderJson(report: AnalysisReport): string {
+  return JSON.stringify(toJsonOutput(report), null, 2);
+}
+
+// The last line of an ndjson stream; the CLI writes progress events as lines before it
+function renderNdjson(report: AnalysisReport): string {
+  return JSON.stringify({ type: "result", result: toJsonOutput(report) });
+}
+
+export const REPORTERS: Record<OutputFormat, Reporter> = {
+  json: renderJson,
+  ndjson: renderNdjson,
+  text: renderText,
+  sarif: renderSarif,
+  markdown: renderMarkdown,
+  html: renderHtml,
+};
+
+export const OUTPUT_FORMATS = Object.keys(REPORTERS) as OutputFormat[];
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return Object.hasOwn(REPORTERS, value);
+}
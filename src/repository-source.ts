@@ -0,0 +1,211 @@
+import { promises as fs } from "node:fs";
+import { basename, resolve } from "node:path";
+import { simpleGit } from "simple-git";
+import { InputError } from "./errors.js";
+import type { GitHubRepository, Repository, RepositoryHost } from "./types.js";
+
+export function isGitHubRepository(repository: Repository): repository is GitHubRepository {
+  return repository.host === "github" && Boolean(repository.owner);
+}
+
+export function formatRepositoryName(repository: Repository): string {
+  return repository.owner ? `${repository.owner}/${repository.repo}` : repository.repo;
+}
+
+// Browser URL of the repository, when its host's URL layout is known
+export function repositoryWebUrl(repository: Repository): string | undefined {
+  if (repository.host === "unknown" || !repository.owner) {
+    return undefined;
+  }
+  const scpMatch = repository.url.match(/^(?:[^@\s/]+@)?([^:/\s]+):(?!\/\/)/);
+  let hostname = scpMatch?.[1];
+  if (!hostname) {
+    try {
+      const parsed = new URL(repository.url);
+      // SSH ports don't serve the web UI
+      hostname = parsed.protocol.startsWith("http") ? parsed.host : parsed.hostname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return `https://${hostname}/${repository.owner}/${repository.repo}`;
+}
+
+// Permalink to a file (and line) at a specific commit
+export function sourceFileUrl(
+  repository: Repository,
+  commit: string | undefined,
+  file: string,
+  line?: number
+): string | undefined {
+  const webUrl = repositoryWebUrl(repository);
+  if (!webUrl || !commit) {
+    return undefined;
+  }
+
+  const blobPath = { github: "blob", gitlab: "-/blob", gitea: "src/commit", unknown: "blob" }[
+    repository.host
+  ];
+  const filePath = file.split("/").map(encodeURIComponent).join("/");
+  return `${webUrl}/${blobPath}/${commit}/${filePath}${line ? `#L${line}` : ""}`;
+}
+
+// The web host behind a GitHub REST API URL, for telling GitHub Enterprise Server repositories
+// apart from other hosts: https://ghe.example.com/api/v3 serves ghe.example.com
+export function githubHostsFor(apiUrl: string | undefined): string[] {
+  if (!apiUrl) {
+    return [];
+  }
+  try {
+    return [new URL(apiUrl).hostname.toLowerCase().replace(/^api\./, "")];
+  } catch {
+    return [];
+  }
+}
+
+function detectHost(hostname: string, githubHosts: string[]): RepositoryHost {
+  const host = hostname.toLowerCase();
+
+  if (host === "github.com" || host === "www.github.com" || githubHosts.includes(host)) {
+    return "github";
+  }
+  if (host.includes("gitlab")) {
+    return "gitlab";
+  }
+  if (host.includes("gitea") || host === "codeberg.org") {
+    return "gitea";
+  }
+  return "unknown";
+}
+
+function splitRepositoryPath(path: string): { owner?: string; repo: string } | null {
+  const segments = path
+    .replace(/\/+$/, "")
+    .split("/")
+    .filter((segment) => segment.length > 0);
+
+  const last = segments.pop();
+  if (!last) {
+    return null;
+  }
+
+  const repo = last.replace(/\.git$/, "");
+  return segments.length > 0 ? { owner: segments.join("/"), repo } : { repo };
+}
+
+// `githubHosts` adds GitHub Enterprise Server hosts to github.com
+export function parseRepositoryUrl(url: string, githubHosts: string[] = []): Repository {
+  // scp-like SSH syntax, e.g. git@github.com:owner/repo.git
+  const scpMatch = url.match(/^(?:[^@\s/]+@)?([^:/\s]+):(?!\/\/)(.+)$/);
+
+  let hostname: string;
+  let path: string;
+
+  if (scpMatch) {
+    hostname = scpMatch[1];
+    path = scpMatch[2];
+  } else {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new InputError(`Invalid repository URL: ${url}`);
+    }
+
+    if (!["https:", "http:", "ssh:", "git:", "file:"].includes(parsed.protocol)) {
+      throw new InputError(`Unsupported repository URL protocol: ${parsed.protocol}`);
+    }
+
+    hostname = parsed.hostname;
+    path = decodeURIComponent(parsed.pathname);
+  }
+
+  const host = detectHost(hostname, githubHosts);
+
+  if (host === "github") {
+    // Accept browser URLs such as https://github.com/owner/repo/tree/main
+    const githubMatch = path.match(/^\/?([^/]+)\/([^/]+?)(?:\.git)?(?:\/.*)?$/);
+    if (!githubMatch) {
+      throw new InputError(`Invalid GitHub URL: ${url}`);
+    }
+
+    const [, owner, repo] = githubMatch;
+    const webHost = githubHosts.includes(hostname.toLowerCase()) ? hostname : "github.com";
+    return {
+      source: "remote",
+      host,
+      owner,
+      repo,
+      url: url.startsWith("https://") ? `https://${webHost}/${owner}/${repo}.git` : url,
+    };
+  }
+
+  const parts = splitRepositoryPath(path);
+  if (!parts) {
+    throw new InputError(`Invalid repository URL: ${url}`);
+  }
+
+  // file:// remotes have no meaningful owner, only a path on disk
+  if (url.startsWith("file:")) {
+    return { source: "remote", host, repo: parts.repo, url };
+  }
+
+  return {
+    source: "remote",
+    host,
+    ...parts,
+    url,
+  };
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(path);
+    return stats.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function describeLocalCheckout(path: string, githubHosts: string[]): Promise<Repository> {
+  const localPath = resolve(path);
+  const local: Repository = {
+    source: "local",
+    host: "unknown",
+    repo: basename(localPath),
+    url: localPath,
+    localPath,
+  };
+
+  try {
+    // Use the origin remote, when there is one, so host-specific features still work
+    const remotes = await simpleGit(localPath).getRemotes(true);
+    const originUrl = remotes.find((remote) => remote.name === "origin")?.refs?.fetch;
+
+    if (originUrl) {
+      const remote = parseRepositoryUrl(originUrl, githubHosts);
+      return {
+        ...remote,
+        source: "local",
+        url: originUrl,
+        localPath,
+      };
+    }
+  } catch (_error) {
+    // Not a git checkout or the origin URL is unrecognised; analyze it as a plain directory
+  }
+
+  return local;
+}
+
+export async function resolveRepository(
+  input: string,
+  githubHosts: string[] = []
+): Promise<Repository> {
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(input) && (await isDirectory(input))) {
+    return describeLocalCheckout(input, githubHosts);
+  }
+
+  return parseRepositoryUrl(input, githubHosts);
+}
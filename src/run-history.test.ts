@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { compareRuns, RunHistory } from "./run-history.js";
+import type { AnalysisResult, DocumentationIssue } from "./types.js";
+
+function issue(fingerprint: string, severity: DocumentationIssue["severity"]): DocumentationIssue {
+  return {
+    type: "outdated",
+    severity,
+    effort: "low",
+    title: `Issue ${fingerprint}`,
+    description: "",
+    suggestion: "",
+    file: "README.md",
+    fingerprint,
+  };
+}
+
+function analysisResult(
+  commit: string,
+  issues: DocumentationIssue[],
+  fields: Partial<AnalysisResult> = {}
+): AnalysisResult {
+  return {
+    repository: {
+      source: "remote",
+      host: "github",
+      owner: "acme",
+      repo: "api",
+      url: "https://github.com/acme/api.git",
+    },
+    commit,
+    status: "complete",
+    failures: [],
+    issues,
+    droppedIssues: 0,
+    ungroundedIssues: 0,
+    suppressedIssues: 0,
+    redactedSecrets: 0,
+    usage: { inputTokens: 0, outputTokens: 0, turns: 0, durationMs: 0, passes: [] },
+    summary: { totalIssues: 0, highSeverity: 0, mediumSeverity: 0, lowSeverity: 0 },
+    coverage: { passes: 1, reviewedSections: [], unreviewedSections: [] },
+    timestamp: new Date().toISOString(),
+    ...fields,
+  };
+}
+
+describe("RunHistory", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "docs-check-history-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("records full analyses and compares runs by fingerprint", async () => {
+    const history = new RunHistory(directory);
+
+    const first = await history.record(
+      analysisResult("1111111111aaaaaaaaaa", [issue("a", "high"), issue("b", "low")], {
+        timestamp: "2026-01-01T00:00:00.000Z",
+      })
+    );
+    const second = await history.record(
+      analysisResult("2222222222bbbbbbbbbb", [issue("c", "medium")], {
+        timestamp: "2026-02-01T00:00:00.000Z",
+        baseline: { baselinedIssues: [issue("b", "low")], fixedIssues: [], unreviewedIssues: [] },
+      })
+    );
+    assert.ok(first && second);
+    assert.equal(second.summary.totalIssues, 2);
+    assert.deepEqual(second.byType, { missing: 0, outdated: 2, unclear: 0, "broken-link": 0 });
+
+    // A failed analysis says nothing about the docs
+    assert.equal(
+      await history.record(analysisResult("3333", [], { status: "failed", timestamp: "x" })),
+      null
+    );
+
+    const runs = await history.list("acme/api");
+    assert.deepEqual(
+      runs.map((run) => run.id),
+      [first.id, second.id]
+    );
+
+    const comparison = compareRuns(await history.find("11111111"), await history.find(second.id));
+    assert.deepEqual(
+      comparison.newIssues.map((entry) => entry.fingerprint),
+      ["c"]
+    );
+    assert.deepEqual(
+      comparison.resolvedIssues.map((entry) => entry.fingerprint),
+      ["a"]
+    );
+    assert.deepEqual(
+      comparison.persistingIssues.map((entry) => [entry.fingerprint, entry.baselined]),
+      [["b", true]]
+    );
+
+    await assert.rejects(history.find("9999999"), /No run or commit matches/);
+  });
+});
@@ -0,0 +1,225 @@
+import { randomBytes } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { InputError } from "./errors.js";
+import { ISSUE_TYPES } from "./issue-schema.js";
+import { fingerprintIssue } from "./issue-utils.js";
+import { formatRepositoryName } from "./repository-source.js";
+import type {
+  AnalysisResult,
+  DocumentationIssue,
+  HistoryIssue,
+  HistoryRun,
+  IssueType,
+  RunComparison,
+} from "./types.js";
+
+const HISTORY_ENTRY_VERSION = 1;
+// Shorter references would match too many runs to be useful
+const MIN_REFERENCE_LENGTH = 4;
+
+interface HistoryEntry extends HistoryRun {
+  version: number;
+}
+
+export function defaultHistoryDirectory(): string {
+  return join(
+    process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"),
+    "docs-check",
+    "history"
+  );
+}
+
+function toHistoryIssue(issue: DocumentationIssue, baselined: boolean): HistoryIssue {
+  return {
+    fingerprint: issue.fingerprint ?? fingerprintIssue(issue),
+    type: issue.type,
+    severity: issue.severity,
+    title: issue.title,
+    ...(issue.file ? { file: issue.file } : {}),
+    ...(issue.line ? { line: issue.line } : {}),
+    ...(baselined ? { baselined } : {}),
+  };
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Partial<HistoryEntry>;
+  return (
+    entry.version === HISTORY_ENTRY_VERSION &&
+    typeof entry.id === "string" &&
+    typeof entry.repository === "string" &&
+    typeof entry.timestamp === "string" &&
+    typeof entry.summary === "object" &&
+    typeof entry.byType === "object" &&
+    Array.isArray(entry.issues)
+  );
+}
+
+// Issues are matched by fingerprint, so a moved issue persists rather than being resolved and
+// reported again
+export function compareRuns(from: HistoryRun, to: HistoryRun): RunComparison {
+  if (from.repository !== to.repository) {
+    throw new InputError(
+      `Runs ${from.id} and ${to.id} are of different repositories (${from.repository} and ${to.repository})`
+    );
+  }
+
+  const before = new Set(from.issues.map((issue) => issue.fingerprint));
+  const after = new Set(to.issues.map((issue) => issue.fingerprint));
+  return {
+    from,
+    to,
+    newIssues: to.issues.filter((issue) => !before.has(issue.fingerprint)),
+    resolvedIssues: from.issues.filter((issue) => !after.has(issue.fingerprint)),
+    persistingIssues: to.issues.filter((issue) => before.has(issue.fingerprint)),
+  };
+}
+
+// Past analyses, one JSON-lines file per repository with a run per line
+export class RunHistory {
+  readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  // Failed and diff-scoped analyses didn't review all of the docs, so their counts can't be
+  // compared with other runs and they are not recorded
+  async record(result: AnalysisResult): Promise<HistoryRun | null> {
+    if (result.status === "failed" || result.diff) {
+      return null;
+    }
+
+    const baselined = result.baseline?.baselinedIssues ?? [];
+    const issues = [
+      ...result.issues.map((issue) => toHistoryIssue(issue, false)),
+      ...baselined.map((issue) => toHistoryIssue(issue, true)),
+    ];
+    const byType = Object.fromEntries(ISSUE_TYPES.map((type) => [type, 0])) as Record<
+      IssueType,
+      number
+    >;
+    for (const issue of issues) {
+      byType[issue.type]++;
+    }
+
+    const run: HistoryRun = {
+      id: randomBytes(6).toString("hex"),
+      repository: formatRepositoryName(result.repository),
+      url: result.repository.url,
+      ...(result.commit ? { commit: result.commit } : {}),
+      timestamp: result.timestamp,
+      status: result.status,
+      summary: {
+        totalIssues: issues.length,
+        highSeverity: issues.filter((issue) => issue.severity === "high").length,
+        mediumSeverity: issues.filter((issue) => issue.severity === "medium").length,
+        lowSeverity: issues.filter((issue) => issue.severity === "low").length,
+        ...(result.summary.apiCoverage !== undefined
+          ? { apiCoverage: result.summary.apiCoverage }
+          : {}),
+      },
+      byType,
+      issues,
+    };
+
+    // A single append of one line, so concurrent runs don't interleave within an entry
+    const entry: HistoryEntry = { version: HISTORY_ENTRY_VERSION, ...run };
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(this.filePath(run.repository), `${JSON.stringify(entry)}\n`, "utf-8");
+    } catch (error) {
+      throw new Error(
+        `Failed to write to the run history: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return run;
+  }
+
+  filePath(repository: string): string {
+    return join(this.directory, `${repository.replace(/[^\w.-]+/g, "__")}.jsonl`);
+  }
+
+  // Oldest first
+  async list(repository: string): Promise<HistoryRun[]> {
+    const runs = await this.readFile(this.filePath(repository));
+    return runs
+      .filter((run) => run.repository === repository)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  // A run by its id or the commit it analyzed, or an unambiguous prefix of either; a commit that
+  // was analyzed more than once refers to its latest run
+  async find(reference: string): Promise<HistoryRun> {
+    if (reference.length < MIN_REFERENCE_LENGTH) {
+      throw new InputError(
+        `Run references need at least ${MIN_REFERENCE_LENGTH} characters, got "${reference}"`
+      );
+    }
+
+    const runs = await this.readAll();
+    const byId = runs.filter((run) => run.id.startsWith(reference));
+    if (byId.length > 1) {
+      throw new InputError(`"${reference}" matches more than one run; use more characters`);
+    }
+    if (byId.length === 1) {
+      return byId[0];
+    }
+
+    const byCommit = runs
+      .filter((run) => run.commit?.startsWith(reference))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    if (new Set(byCommit.map((run) => run.repository)).size > 1) {
+      throw new InputError(
+        `Commit "${reference}" was analyzed in more than one repository; use a run id instead`
+      );
+    }
+    const latest = byCommit.at(-1);
+    if (!latest) {
+      throw new InputError(`No run or commit matches "${reference}" in ${this.directory}`);
+    }
+    return latest;
+  }
+
+  private async readAll(): Promise<HistoryRun[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const runs: HistoryRun[] = [];
+    for (const fileName of fileNames.filter((name) => name.endsWith(".jsonl"))) {
+      runs.push(...(await this.readFile(join(this.directory, fileName))));
+    }
+    return runs;
+  }
+
+  // Unreadable lines, e.g. from a newer docs-check or an interrupted write, are skipped
+  private async readFile(filePath: string): Promise<HistoryRun[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+    } catch {
+      return [];
+    }
+
+    const runs: HistoryRun[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry: unknown = JSON.parse(line);
+        if (isHistoryEntry(entry)) {
+          const { version: _version, ...run } = entry;
+          runs.push(run);
+        }
+      } catch {
+        // Skipped, see above
+      }
+    }
+    return runs;
+  }
+}
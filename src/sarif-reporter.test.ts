@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { renderSarif } from "./sarif-reporter.js";
+import type { AnalysisResult, DocumentationIssue } from "./types.js";
+
+function issue(title: string, fields: Partial<DocumentationIssue> = {}): DocumentationIssue {
+  return {
+    type: "missing",
+    severity: "medium",
+    effort: "low",
+    title,
+    description: "",
+    suggestion: "",
+    ...fields,
+  };
+}
+
+const ANALYSIS: AnalysisResult = {
+  repository: { source: "local", host: "unknown", repo: "tool", url: "/tmp/tool" },
+  status: "complete",
+  failures: [],
+  issues: [
+    issue("Usage example is outdated", { type: "outdated", file: "docs/usage guide.md", line: 4 }),
+    issue("No changelog"),
+  ],
+  droppedIssues: 0,
+  ungroundedIssues: 0,
+  suppressedIssues: 0,
+  redactedSecrets: 0,
+  usage: { inputTokens: 0, outputTokens: 0, turns: 0, durationMs: 0, passes: [] },
+  summary: { totalIssues: 2, highSeverity: 0, mediumSeverity: 2, lowSeverity: 0 },
+  coverage: { passes: 1, reviewedSections: [], unreviewedSections: [] },
+  timestamp: new Date().toISOString(),
+};
+
+describe("renderSarif", () => {
+  it("gives every result a location, at the README for repository-level issues", () => {
+    const log = JSON.parse(renderSarif({ command: "analyze", analysis: ANALYSIS }));
+    const locations = log.runs[0].results.map(
+      (result: { locations: unknown[] }) => result.locations
+    );
+
+    assert.deepEqual(locations, [
+      [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "docs/usage%20guide.md", uriBaseId: "%SRCROOT%" },
+            region: { startLine: 4 },
+          },
+        },
+      ],
+      [{ physicalLocation: { artifactLocation: { uri: "README.md", uriBaseId: "%SRCROOT%" } } }],
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { ISSUE_TYPES } from "./issue-schema.js";
+import type { AnalysisReport, DocumentationIssue, IssueLevel, IssueType } from "./types.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+// GitHub code scanning drops results without a location, so repository-level issues point here
+const REPOSITORY_LEVEL_URI = "README.md";
+
+type SarifLevel = "error" | "warning" | "note";
+
+const SARIF_LEVELS: Record<IssueLevel, SarifLevel> = {
+  high: "error",
+  medium: "warning",
+  low: "note",
+};
+
+const RULES: Record<IssueType, { name: string; description: string }> = {
+  missing: {
+    name: "MissingDocumentation",
+    description: "Important documentation that should exist but doesn't",
+  },
+  outdated: {
+    name: "OutdatedDocumentation",
+    description: "Documentation that doesn't match the current code",
+  },
+  unclear: {
+    name: "UnclearDocumentation",
+    description: "Documentation that is confusing or poorly written",
+  },
+  "broken-link": {
+    name: "BrokenLink",
+    description: "Links that don't work or point to wrong locations",
+  },
+};
+
+interface SarifResult {
+  ruleId: IssueType;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string; markdown: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number };
+    };
+  }[];
+  partialFingerprints?: Record<string, string>;
+  baselineState?: "new" | "unchanged";
+  suppressions?: { kind: "external"; justification: string }[];
+  properties: {
+    severity: IssueLevel;
+    effort: IssueLevel;
+    suggestion: string;
+    introducedByDiff?: boolean;
+  };
+}
+
+// SARIF fixes must describe concrete byte-level edits, so the free-text suggestion goes in the
+// message (and properties) where viewers show it next to the finding
+function toSarifResult(
+  issue: DocumentationIssue,
+  baselineState?: "new" | "unchanged"
+): SarifResult {
+  const suggestionText = issue.suggestion ? `\n\nSuggestion: ${issue.suggestion}` : "";
+  const suggestionMarkdown = issue.suggestion ? `\n\n**Suggestion:** ${issue.suggestion}` : "";
+
+  return {
+    ruleId: issue.type,
+    ruleIndex: ISSUE_TYPES.indexOf(issue.type),
+    level: SARIF_LEVELS[issue.severity],
+    message: {
+      text: `${issue.title}: ${issue.description}${suggestionText}`,
+      markdown: `**${issue.title}**\n\n${issue.description}${suggestionMarkdown}`,
+    },
+    // Issues about the repository as a whole have no file or region of their own
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: {
+            uri: encodeURI(issue.file ?? REPOSITORY_LEVEL_URI),
+            uriBaseId: "%SRCROOT%",
+          },
+          ...(issue.file && issue.line ? { region: { startLine: issue.line } } : {}),
+        },
+      },
+    ],
+    ...(issue.fingerprint ? { partialFingerprints: { "docsCheck/v1": issue.fingerprint } } : {}),
+    ...(baselineState ? { baselineState } : {}),
+    ...(baselineState === "unchanged"
+      ? {
+          suppressions: [
+            { kind: "external" as const, justification: "Accepted in the docs-check baseline" },
+          ],
+        }
+      : {}),
+    properties: {
+      severity: issue.severity,
+      effort: issue.effort,
+      suggestion: issue.suggestion,
+      ...(issue.introducedByDiff !== undefined ? { introducedByDiff: issue.introducedByDiff } : {}),
+    },
+  };
+}
+
+export function renderSarif(report: AnalysisReport): string {
+  const { analysis } = report;
+
+  // With a baseline, accepted issues are kept as suppressed results so viewers don't
+  // mistake them for fixed ones
+  const results = analysis.baseline
+    ? [
+        ...analysis.issues.map((issue) => toSarifResult(issue, "new")),
+        ...analysis.baseline.baselinedIssues.map((issue) => toSarifResult(issue, "unchanged")),
+      ]
+    : analysis.issues.map((issue) => toSarifResult(issue));
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "docs-check",
+            rules: ISSUE_TYPES.map((type) => ({
+              id: type,
+              name: RULES[type].name,
+              shortDescription: { text: RULES[type].description },
+              defaultConfiguration: { level: "warning" },
+            })),
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: analysis.status !== "failed",
+            endTimeUtc: analysis.timestamp,
+            toolExecutionNotifications: analysis.failures.map((failure) => ({
+              level: "error",
+              message: { text: `Pass ${failure.pass}: ${failure.message}` },
+            })),
+          },
+        ],
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
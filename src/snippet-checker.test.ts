@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { checkSnippets, extractCodeSnippets } from "./snippet-checker.js";
+
+const FILES: Record<string, string> = {
+  "package.json": JSON.stringify({
+    name: "greeter",
+    exports: { ".": "./dist/index.js", "./format": "./dist/format.js" },
+  }),
+  "src/index.ts":
+    "export function greet(name: string, options?: { loud: boolean }) {\n  return name;\n}\n",
+  "src/format.ts": "export const shout = (text: string) => text.toUpperCase();\n",
+};
+
+const README = `# Greeter
+
+\`\`\`ts
+import { greet, wave } from "greeter";
+import { shout } from "greeter/format";
+import express from "express";
+
+greet("world", { loud: "yes" });
+console.log(shout("hi"), process.env.HOME, client);
+\`\`\`
+
+- In a list:
+
+  \`\`\`js
+  import { greet } from "greeter";
+  greet();
+  \`\`\`
+
+\`\`\`ts no-check
+import { gone } from "greeter";
+\`\`\`
+
+\`\`\`ts
+const options = { ... };
+\`\`\`
+
+\`\`\`js
+import { shout } from "greeter/shout";
+\`\`\`
+`;
+
+describe("code example checks", () => {
+  let repoPath: string;
+
+  before(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "docs-check-snippets-"));
+    for (const [file, content] of Object.entries(FILES)) {
+      await mkdir(join(repoPath, file, ".."), { recursive: true });
+      await writeFile(join(repoPath, file), content, "utf-8");
+    }
+  });
+
+  after(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("extracts fenced blocks, leaving out those marked no-check", () => {
+    const snippets = extractCodeSnippets("README.md", README);
+    assert.deepEqual(
+      snippets.map((snippet) => [snippet.language, snippet.line, snippet.endLine]),
+      [
+        ["ts", 3, 10],
+        ["js", 14, 17],
+        ["ts", 23, 25],
+        ["js", 27, 29],
+      ]
+    );
+    assert.equal(snippets[1].code, 'import { greet } from "greeter";\ngreet();');
+  });
+
+  it("reports type errors against the package sources at the line they occur", async () => {
+    const diagnostics = await checkSnippets(repoPath, {
+      "README.md": README,
+      "notes.txt": '```ts\nimport { gone } from "greeter";\n```\n',
+    });
+
+    // Fragments, undeclared variables, Node globals and other packages are not errors
+    assert.deepEqual(
+      diagnostics.map((diagnostic) => [diagnostic.line, diagnostic.message]),
+      [
+        [4, "Module '\"greeter\"' has no exported member 'wave'."],
+        [8, "Type 'string' is not assignable to type 'boolean'."],
+        [16, "Expected 1-2 arguments, but got 0."],
+        [28, "Cannot find module 'greeter/shout' or its corresponding type declarations."],
+      ]
+    );
+  });
+});
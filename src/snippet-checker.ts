@@ -0,0 +1,224 @@
+import { basename, dirname, extname, join } from "node:path";
+import ts from "typescript";
+import { findPackageModules } from "./api-surface.js";
+import { isMarkdownFile } from "./link-checker.js";
+import type { DocumentationIssue } from "./types.js";
+
+// A fenced code block in a documentation file
+export interface CodeSnippet {
+  file: string;
+  language: string;
+  // Line of the opening fence; the code starts on the next line
+  line: number;
+  endLine: number;
+  code: string;
+}
+
+export interface SnippetDiagnostic {
+  file: string;
+  line: number;
+  language: string;
+  message: string;
+  // Lines of the fence the diagnostic was found in
+  snippetLine: number;
+  snippetEndLine: number;
+}
+
+// Checks the snippets of the languages it handles; each language gets its own checker so others,
+// such as Python, can be added alongside TypeScript
+export interface SnippetChecker {
+  languages: string[];
+  check(repoPath: string, snippets: CodeSnippet[]): Promise<SnippetDiagnostic[]>;
+}
+
+// Added to the info string, as in ```ts no-check, to leave an example out
+const NO_CHECK_FLAG = "no-check";
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([^`]*)$/;
+
+const TYPESCRIPT_EXTENSIONS: Record<string, string> = {
+  ts: ".ts",
+  typescript: ".ts",
+  tsx: ".tsx",
+  js: ".js",
+  javascript: ".js",
+  jsx: ".jsx",
+};
+
+// Examples are usually fragments: they use variables set up in earlier examples, Node globals
+// without @types/node, and modules the reader installs themselves. None of these mean the
+// example is out of date, so these diagnostics are not reported.
+const IGNORED_DIAGNOSTICS = new Set([
+  2304, // Cannot find name
+  2552, // Cannot find name, did you mean
+  2307, // Cannot find module, unless it is the package itself
+  2580, // Cannot find name 'require', install @types/node
+  2591, // The same, with a tsconfig hint
+  2867, // Cannot find name 'Bun'
+  2868, // The same, with a tsconfig hint
+  7016, // Could not find a declaration file for module
+]);
+
+export function isSnippetCheckableFile(filePath: string): boolean {
+  return isMarkdownFile(filePath) || extname(filePath).toLowerCase() === ".mdx";
+}
+
+// Fenced blocks, including those indented inside lists; the info string's first word is the
+// language
+export function extractCodeSnippets(file: string, content: string): CodeSnippet[] {
+  const snippets: CodeSnippet[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE_PATTERN);
+    if (!open) continue;
+
+    const [, indent, fence, info] = open;
+    const [language = "", ...flags] = info
+      .trim()
+      .toLowerCase()
+      .split(/[\s,{}]+/);
+    const code: string[] = [];
+    let end = i + 1;
+    while (end < lines.length && !isClosingFence(lines[end], fence)) {
+      code.push(lines[end].replace(new RegExp(`^ {0,${indent.length}}`), ""));
+      end++;
+    }
+
+    if (language && !flags.includes(NO_CHECK_FLAG)) {
+      snippets.push({ file, language, line: i + 1, endLine: end + 1, code: code.join("\n") });
+    }
+    i = end;
+  }
+
+  return snippets;
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith(fence) && new RegExp(`^\\${fence[0]}+$`).test(trimmed);
+}
+
+// Type-checks TypeScript and JavaScript examples in a program of their own, where imports of the
+// package resolve to its sources through the package.json entry points
+export const typeScriptSnippetChecker: SnippetChecker = {
+  languages: Object.keys(TYPESCRIPT_EXTENSIONS),
+
+  async check(repoPath, snippets) {
+    const modules = await findPackageModules(repoPath);
+    const options: ts.CompilerOptions = {
+      allowJs: true,
+      checkJs: true,
+      noEmit: true,
+      skipLibCheck: true,
+      types: [],
+      lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      // Every example is a module, so top-level await works and names don't clash across them
+      moduleDetection: ts.ModuleDetectionKind.Force,
+      jsx: ts.JsxEmit.Preserve,
+      baseUrl: repoPath,
+      paths: Object.fromEntries(
+        Object.entries(modules).map(([specifier, source]) => [specifier, [join(repoPath, source)]])
+      ),
+    };
+
+    // Each example sits next to its documentation file, so relative imports resolve as readers
+    // would expect
+    const sources = new Map<string, CodeSnippet>();
+    for (const snippet of snippets) {
+      const fileName = join(
+        repoPath,
+        dirname(snippet.file),
+        `${basename(snippet.file)}.snippet-${snippet.line}${TYPESCRIPT_EXTENSIONS[snippet.language]}`
+      );
+      sources.set(fileName, snippet);
+    }
+
+    // As for the API surface, dependencies are never followed
+    const host = ts.createCompilerHost(options);
+    const { fileExists, readFile, getSourceFile } = host;
+    host.fileExists = (fileName) =>
+      sources.has(fileName) ||
+      (!fileName.split("/").includes("node_modules") && fileExists.call(host, fileName));
+    host.readFile = (fileName) => sources.get(fileName)?.code ?? readFile.call(host, fileName);
+    host.getSourceFile = (fileName, languageVersion, ...rest) => {
+      const snippet = sources.get(fileName);
+      return snippet
+        ? ts.createSourceFile(fileName, snippet.code, languageVersion, true)
+        : getSourceFile.call(host, fileName, languageVersion, ...rest);
+    };
+
+    const program = ts.createProgram([...sources.keys()], options, host);
+    const diagnostics: SnippetDiagnostic[] = [];
+    for (const [fileName, snippet] of sources) {
+      const sourceFile = program.getSourceFile(fileName);
+      // Examples that don't parse usually elide code with "..." and can't be checked
+      if (!sourceFile || program.getSyntacticDiagnostics(sourceFile).length > 0) continue;
+
+      for (const diagnostic of program.getSemanticDiagnostics(sourceFile)) {
+        if (diagnostic.start === undefined || isIgnored(diagnostic, modules)) continue;
+
+        const { line } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+        diagnostics.push({
+          file: snippet.file,
+          line: snippet.line + line + 1,
+          language: snippet.language,
+          message: ts.flattenDiagnosticMessageText(diagnostic.messageText, " "),
+          snippetLine: snippet.line,
+          snippetEndLine: snippet.endLine,
+        });
+      }
+    }
+    return diagnostics;
+  },
+};
+
+// A missing module is only reported when the example imports the package itself
+function isIgnored(diagnostic: ts.Diagnostic, modules: Record<string, string>): boolean {
+  if (diagnostic.code !== 2307) {
+    return IGNORED_DIAGNOSTICS.has(diagnostic.code);
+  }
+
+  const specifier = diagnostic.file?.text
+    .slice(diagnostic.start, (diagnostic.start ?? 0) + (diagnostic.length ?? 0))
+    .replace(/^["']|["']$/g, "");
+  return !Object.keys(modules).some(
+    (module) => specifier === module || specifier?.startsWith(`${module}/`)
+  );
+}
+
+export const SNIPPET_CHECKERS: SnippetChecker[] = [typeScriptSnippetChecker];
+
+// Documentation content by file, as read for the analysis
+export async function checkSnippets(
+  repoPath: string,
+  documentation: Record<string, string>
+): Promise<SnippetDiagnostic[]> {
+  const snippets = Object.entries(documentation)
+    .filter(([file]) => isSnippetCheckableFile(file))
+    .flatMap(([file, content]) => extractCodeSnippets(file, content));
+
+  const diagnostics: SnippetDiagnostic[] = [];
+  for (const checker of SNIPPET_CHECKERS) {
+    const handled = snippets.filter((snippet) => checker.languages.includes(snippet.language));
+    if (handled.length > 0) {
+      diagnostics.push(...(await checker.check(repoPath, handled)));
+    }
+  }
+  return diagnostics;
+}
+
+export function snippetDiagnosticToIssue(diagnostic: SnippetDiagnostic): DocumentationIssue {
+  return {
+    type: "outdated",
+    severity: "medium",
+    effort: "low",
+    title: `Code example no longer compiles: ${diagnostic.message}`,
+    description: `The \`${diagnostic.language}\` example starting on line ${diagnostic.snippetLine + 1} of \`${diagnostic.file}\` does not type-check against the project's sources: ${diagnostic.message}`,
+    suggestion: `Update the example to match the current API, or mark it with \`${diagnostic.language} ${NO_CHECK_FLAG}\` if it is not meant to compile.`,
+    file: diagnostic.file,
+    line: diagnostic.line,
+  };
+}
@@ -0,0 +1,273 @@
+import { formatRepositoryName } from "./repository-source.js";
+import type {
+  AnalysisReport,
+  AnalysisResult,
+  GitHubActionResult,
+  IssueSyncPlan,
+  IssueSyncResult,
+  PlannedPullRequest,
+  PlannedReview,
+  PullRequestReviewResult,
+  UsageTotals,
+} from "./types.js";
+
+export function formatUsage(usage: UsageTotals): string {
+  const cost = usage.costUsd !== undefined ? `$${usage.costUsd.toFixed(4)}` : "cost unknown";
+  return `${usage.inputTokens.toLocaleString("en-US")} input tokens, ${usage.outputTokens.toLocaleString("en-US")} output tokens, ${cost}, ${usage.turns} turns, ${(usage.durationMs / 1000).toFixed(1)}s`;
+}
+
+function formatAnalysisResult(lines: string[], analysisResult: AnalysisResult) {
+  lines.push(
+    `\n📊 Documentation Analysis Results for ${formatRepositoryName(analysisResult.repository)}`
+  );
+  lines.push(`${"-".repeat(50)}`);
+  lines.push(`Total Issues: ${analysisResult.summary.totalIssues}`);
+  lines.push(`High Severity: ${analysisResult.summary.highSeverity}`);
+  lines.push(`Medium Severity: ${analysisResult.summary.mediumSeverity}`);
+  lines.push(`Low Severity: ${analysisResult.summary.lowSeverity}`);
+
+  if (analysisResult.status !== "complete") {
+    lines.push(
+      `\n${analysisResult.status === "failed" ? "❌ Analysis failed" : "⚠️  Analysis incomplete"}:`
+    );
+    for (const failure of analysisResult.failures) {
+      lines.push(`  - Pass ${failure.pass}: ${failure.message}`);
+    }
+  }
+  if (analysisResult.droppedIssues > 0) {
+    lines.push(`Dropped ${analysisResult.droppedIssues} malformed issues from Claude's output`);
+  }
+  if (analysisResult.redactedSecrets > 0) {
+    lines.push(
+      `Redacted ${analysisResult.redactedSecrets} possible secrets before sending files to Claude`
+    );
+  }
+  if (analysisResult.ungroundedIssues > 0) {
+    lines.push(
+      `Dropped ${analysisResult.ungroundedIssues} issues that referenced files not in the repository`
+    );
+  }
+
+  const { diff } = analysisResult;
+  if (diff) {
+    lines.push(
+      `Diff: ${diff.mergeBase.slice(0, 12)}...${diff.head.slice(0, 12)} changed ${diff.changedFiles.length} files; ${diff.affectedDocs.length} affected docs reviewed`
+    );
+    for (const doc of diff.affectedDocs) {
+      lines.push(`  - ${doc.file} (${doc.reasons.join(", ")})`);
+    }
+  }
+
+  const { coverage } = analysisResult;
+  lines.push(
+    `Coverage: ${coverage.reviewedSections.length} sections reviewed in ${coverage.passes} passes`
+  );
+  if (coverage.unreviewedSections.length > 0) {
+    lines.push(`⚠️  ${coverage.unreviewedSections.length} sections were not reviewed:`);
+    for (const section of coverage.unreviewedSections) {
+      lines.push(`  - ${section.file}:${section.startLine}-${section.endLine}`);
+    }
+  }
+  if (coverage.narrowedBy) {
+    lines.push(`Scope narrowed by: ${coverage.narrowedBy.join(", ")}`);
+  }
+
+  const { apiSurface } = analysisResult;
+  if (apiSurface) {
+    const documented = apiSurface.symbols.filter((symbol) => symbol.documented).length;
+    lines.push(
+      `API coverage: ${analysisResult.summary.apiCoverage}% (${documented} of ${apiSurface.symbols.length} exported symbols are mentioned in the docs)`
+    );
+  }
+
+  lines.push(`Usage: ${formatUsage(analysisResult.usage)}`);
+  if (analysisResult.usage.passes.length > 1) {
+    for (const pass of analysisResult.usage.passes) {
+      lines.push(`  - Pass ${pass.pass}: ${pass.cached ? "cached" : formatUsage(pass)}`);
+    }
+  }
+  if (analysisResult.usage.budgetExceeded) {
+    lines.push(`⚠️  Analysis stopped early: ${analysisResult.usage.budgetExceeded}`);
+  }
+  if (analysisResult.cache) {
+    lines.push(
+      `Analysis cache: ${analysisResult.cache.hits} hits, ${analysisResult.cache.misses} misses`
+    );
+  }
+
+  if (analysisResult.suppressedIssues > 0) {
+    lines.push(
+      `Suppressed ${analysisResult.suppressedIssues} issues with docs-check-ignore comments`
+    );
+  }
+
+  const { baseline } = analysisResult;
+  if (baseline) {
+    lines.push(
+      `Baseline: ${analysisResult.issues.length} new, ${baseline.baselinedIssues.length} baselined, ${baseline.fixedIssues.length} fixed since baseline${baseline.unreviewedIssues.length > 0 ? `, ${baseline.unreviewedIssues.length} in docs not reviewed` : ""}`
+    );
+  }
+
+  if (analysisResult.issues.length > 0) {
+    lines.push(baseline ? `\n📋 New Issues:` : `\n📋 Issues Found:`);
+    for (const issue of analysisResult.issues) {
+      lines.push(`
+[${issue.severity.toUpperCase()}] [${issue.effort.toUpperCase()} EFFORT] ${issue.title}`);
+      lines.push(`Type: ${issue.type}`);
+      if (issue.introducedByDiff !== undefined) {
+        lines.push(`Introduced by this change: ${issue.introducedByDiff ? "yes" : "no"}`);
+      }
+      lines.push(`Description: ${issue.description}`);
+      if (issue.file) {
+        lines.push(`File: ${issue.file}${issue.line ? `:${issue.line}` : ""}`);
+      }
+      if (issue.snippet) {
+        lines.push(issue.snippet);
+      }
+      if (issue.suggestion) {
+        lines.push(`Suggestion: ${issue.suggestion}`);
+      }
+    }
+  }
+
+  if (baseline && baseline.baselinedIssues.length > 0) {
+    lines.push(`\n🗂️  Baselined Issues:`);
+    for (const issue of baseline.baselinedIssues) {
+      lines.push(
+        `  - [${issue.severity.toUpperCase()}] ${issue.title}${issue.file ? ` (${issue.file}${issue.line ? `:${issue.line}` : ""})` : ""}`
+      );
+    }
+  }
+
+  if (baseline && baseline.fixedIssues.length > 0) {
+    lines.push(`\n✅ Fixed Since Baseline:`);
+    for (const entry of baseline.fixedIssues) {
+      lines.push(`  - ${entry.title}${entry.file ? ` (${entry.file})` : ""}`);
+    }
+  }
+}
+
+function formatIssueSyncPlan(lines: string[], plan: IssueSyncPlan) {
+  lines.push(
+    `\n📝 Dry run: GitHub issues would be ${plan.created.length} created, ${plan.updated.length} updated, ${plan.unchanged.length} unchanged, ${plan.closed.length} closed`
+  );
+  for (const plannedIssue of plan.created) {
+    lines.push(`${"=".repeat(50)}`);
+    lines.push(`Create: ${plannedIssue.title}`);
+    lines.push(`Labels: ${plannedIssue.labels.join(", ")}`);
+    if (plannedIssue.assignees.length > 0) {
+      lines.push(`Assignees: ${plannedIssue.assignees.join(", ")}`);
+    }
+    if (plannedIssue.milestone !== undefined) {
+      lines.push(`Milestone: ${plannedIssue.milestone}`);
+    }
+    lines.push(`\n${plannedIssue.body}`);
+  }
+  for (const plannedIssue of plan.updated) {
+    lines.push(`${"=".repeat(50)}`);
+    lines.push(`Update #${plannedIssue.number}: ${plannedIssue.title}`);
+    lines.push(`\n${plannedIssue.body}`);
+  }
+  if (plan.closed.length > 0) {
+    lines.push(`${"=".repeat(50)}`);
+    for (const stale of plan.closed) {
+      lines.push(`Close #${stale.number}: ${stale.title} ${stale.url}`);
+    }
+  }
+}
+
+function formatIssueSync(lines: string[], issueSync: IssueSyncResult) {
+  lines.push(
+    `\n🐙 GitHub issues: ${issueSync.created.length} created, ${issueSync.updated.length} updated, ${issueSync.unchanged.length} unchanged, ${issueSync.closed.length} closed`
+  );
+  const actions: [string, GitHubActionResult[]][] = [
+    ["Created", issueSync.created],
+    ["Updated", issueSync.updated],
+    ["Closed", issueSync.closed],
+  ];
+  for (const [label, results] of actions) {
+    for (const result of results) {
+      lines.push(`  - ${label} #${result.number} ${result.url}`);
+    }
+  }
+}
+
+function formatPlannedPullRequest(lines: string[], plannedPullRequest: PlannedPullRequest | null) {
+  if (!plannedPullRequest) {
+    lines.push("\nNo automatic fixes could be applied.");
+    return;
+  }
+
+  lines.push("\n📝 Dry run: this pull request would be opened");
+  lines.push(`${"=".repeat(50)}`);
+  lines.push(`Branch: ${plannedPullRequest.branchName} -> ${plannedPullRequest.base}`);
+  lines.push(`Title: ${plannedPullRequest.title}`);
+  lines.push(`\n${plannedPullRequest.body}`);
+  lines.push(`\n${"=".repeat(50)}\n${plannedPullRequest.diff}`);
+
+  if (plannedPullRequest.skippedFixes.length > 0) {
+    lines.push(`Skipped ${plannedPullRequest.skippedFixes.length} issues:`);
+    for (const { issue, reason } of plannedPullRequest.skippedFixes) {
+      lines.push(`  - ${issue.title}: ${reason}`);
+    }
+  }
+}
+
+function formatPlannedReview(lines: string[], plannedReview: PlannedReview) {
+  lines.push(
+    `\n📝 Dry run: this review would be posted on pull request #${plannedReview.pullNumber} (${plannedReview.inlineComments.length} inline comments)`
+  );
+  for (const comment of plannedReview.inlineComments) {
+    lines.push(`${"=".repeat(50)}`);
+    lines.push(
+      `${comment.path}:${comment.startLine ? `${comment.startLine}-` : ""}${comment.line}`
+    );
+    lines.push(`\n${comment.body}`);
+  }
+  lines.push(`${"=".repeat(50)}`);
+  lines.push(`Summary comment:\n\n${plannedReview.summary}`);
+}
+
+function formatReviewResult(lines: string[], review: PullRequestReviewResult) {
+  lines.push(
+    `\n🐙 Reviewed pull request: ${review.created} new, ${review.updated} updated, ${review.unchanged} unchanged, ${review.resolved} resolved inline comments`
+  );
+  if (review.reviewUrl) {
+    lines.push(`  - Review: ${review.reviewUrl}`);
+  }
+  lines.push(`  - Summary: ${review.summaryCommentUrl}`);
+}
+
+export function renderText(report: AnalysisReport): string {
+  const lines: string[] = [];
+
+  formatAnalysisResult(lines, report.analysis);
+
+  if (report.plannedIssueSync) {
+    formatIssueSyncPlan(lines, report.plannedIssueSync);
+  }
+
+  if (report.issueSync) {
+    formatIssueSync(lines, report.issueSync);
+  }
+
+  if (report.plannedPullRequest !== undefined) {
+    formatPlannedPullRequest(lines, report.plannedPullRequest);
+  }
+
+  if (report.pullRequest) {
+    lines.push(`\n🐙 Opened pull request #${report.pullRequest.number}: ${report.pullRequest.url}`);
+  } else if (report.pullRequest === null) {
+    lines.push("\nNo automatic fixes could be applied, so no pull request was opened.");
+  }
+
+  if (report.plannedReview) {
+    formatPlannedReview(lines, report.plannedReview);
+  }
+
+  if (report.review) {
+    formatReviewResult(lines, report.review);
+  }
+
+  return lines.join("\n");
+}
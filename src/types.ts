@@ -1,45 +1,603 @@
+export type OutputFormat = "json" | "ndjson" | "text" | "sarif" | "markdown" | "html";
+
+export type CommandName = "analyze" | "file-issues" | "open-pr" | "review-pr";
+
 export interface CliOptions {
-  outputFormat: "json" | "text";
+  outputFormat: OutputFormat;
   verbose: boolean;
+  dryRun: boolean;
 }
 
-export interface GitHubRepository {
-  owner: string;
+export type RepositoryHost = "github" | "gitlab" | "gitea" | "unknown";
+
+export interface Repository {
+  source: "local" | "remote";
+  host: RepositoryHost;
+  owner?: string;
   repo: string;
+  // Clone URL for remotes; origin URL (or the path itself) for local checkouts
   url: string;
+  // Set for local checkouts, which are analyzed in place
+  localPath?: string;
 }
 
+export interface GitHubRepository extends Repository {
+  host: "github";
+  owner: string;
+}
+
+export type IssueType = "missing" | "outdated" | "unclear" | "broken-link";
+
+export type IssueLevel = "high" | "medium" | "low";
+
 export interface DocumentationIssue {
-  type: "missing" | "outdated" | "unclear" | "broken-link";
-  severity: "high" | "medium" | "low";
-  effort: "high" | "medium" | "low";
+  type: IssueType;
+  severity: IssueLevel;
+  effort: IssueLevel;
   title: string;
   description: string;
   suggestion: string;
   file?: string;
   line?: number;
+  // Text quoted by the model from the file, used to relocate `line`; consumed by grounding
+  excerpt?: string;
+  // Numbered source lines around `line`, attached once the location is verified
+  snippet?: string;
+  // Stable identifier used to match the issue against a baseline across runs
+  fingerprint?: string;
+  // Set in diff-aware mode: whether the change under review caused this issue
+  introducedByDiff?: boolean;
+}
+
+export interface ChangedFile {
+  path: string;
+  status: "added" | "modified" | "deleted" | "renamed";
+  // Path before a rename
+  previousPath?: string;
+}
+
+export interface DiffScope {
+  // Resolved commit SHAs
+  base: string;
+  head: string;
+  mergeBase: string;
+  changedFiles: ChangedFile[];
+  // Unified diff from the merge base to head
+  patch: string;
+  // Lines added or modified on the head side, per file
+  addedLines: Record<string, number[]>;
+}
+
+export interface AffectedDoc {
+  file: string;
+  // Why the doc was selected, e.g. "changed in this diff" or "references `parseConfig`"
+  reasons: string[];
+}
+
+export interface DiffSummary {
+  base: string;
+  head: string;
+  mergeBase: string;
+  changedFiles: ChangedFile[];
+  // Documentation files that were changed or reference changed code, and so were reviewed
+  affectedDocs: AffectedDoc[];
+}
+
+export interface BaselineEntry {
+  fingerprint: string;
+  type: IssueType;
+  file?: string;
+  title: string;
+}
+
+export interface Baseline {
+  version: 1;
+  issues: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+  // Issues still present but accepted in the baseline; not counted in the summary
+  baselinedIssues: DocumentationIssue[];
+  // Baseline entries that no longer match any reported issue
+  fixedIssues: BaselineEntry[];
+  // Baseline entries this run didn't review, e.g. in sections left over after maxPasses; they are
+  // neither fixed nor confirmed
+  unreviewedIssues: BaselineEntry[];
+}
+
+export interface SectionCoverage {
+  file: string;
+  heading?: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface AnalysisCoverage {
+  passes: number;
+  reviewedSections: SectionCoverage[];
+  // Sections left out because the pass limit was reached or their pass failed
+  unreviewedSections: SectionCoverage[];
+  // Settings that left issue types or docs out of the run, e.g. "include"
+  narrowedBy?: string[];
+}
+
+export interface UsageTotals extends BackendUsage {
+  // Wall-clock time spent waiting for the model
+  durationMs: number;
+}
+
+export interface PassUsage extends UsageTotals {
+  pass: number;
+  // Answered from the analysis cache, so nothing was spent
+  cached: boolean;
+}
+
+export interface AnalysisUsage extends UsageTotals {
+  passes: PassUsage[];
+  // Why passes were skipped, when a budget stopped the analysis early
+  budgetExceeded?: string;
+}
+
+// Limits on what analysis passes may spend; passes not yet started are skipped once one is reached
+export interface AnalysisBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface ExportedSymbol {
+  name: string;
+  kind: "function" | "class" | "enum" | "variable" | "namespace";
+  // Where the symbol is declared, relative to the repository root
+  file: string;
+  line: number;
+  // Mentioned by name in at least one documentation file
+  documented: boolean;
+}
+
+// Values exported from the package.json entry points of a TypeScript or JavaScript package
+export interface ApiSurface {
+  // Source files the entry points resolve to
+  entryPoints: string[];
+  symbols: ExportedSymbol[];
+}
+
+export interface AnalysisFailure {
+  pass: number;
+  message: string;
 }
 
 export interface AnalysisResult {
-  repository: GitHubRepository;
+  repository: Repository;
+  // Commit that was analyzed; absent when the directory is not a git checkout
+  commit?: string;
+  // "partial" when some passes failed or docs were left over after maxPasses, "failed" when no
+  // pass produced usable output
+  status: "complete" | "partial" | "failed";
+  failures: AnalysisFailure[];
   issues: DocumentationIssue[];
+  // Model-reported issues discarded because they did not match the schema
+  droppedIssues: number;
+  // Model-reported issues discarded because their file does not exist in the repository
+  ungroundedIssues: number;
+  // Issues silenced by inline `<!-- docs-check-ignore -->` comments
+  suppressedIssues: number;
+  // Secrets replaced with a placeholder before file contents were sent to the model
+  redactedSecrets: number;
+  // Present when a baseline was applied; `issues` then holds only the new issues
+  baseline?: BaselineComparison;
+  // Present in diff-aware mode, where only docs affected by the change are reviewed
+  diff?: DiffSummary;
+  // Present when the analysis cache was used; one lookup per analysis pass
+  cache?: CacheStats;
+  // Present for TypeScript and JavaScript packages whose entry points export values
+  apiSurface?: ApiSurface;
+  usage: AnalysisUsage;
+  summary: {
+    totalIssues: number;
+    highSeverity: number;
+    mediumSeverity: number;
+    lowSeverity: number;
+    // Percentage of exported symbols the docs mention; present with `apiSurface`
+    apiCoverage?: number;
+  };
+  coverage: AnalysisCoverage;
+  timestamp: string;
+}
+
+export interface LinkFetchResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+// Checks an external URL; injected so link checking can run offline
+export type LinkFetcher = (url: string) => Promise<LinkFetchResult>;
+
+export interface LabelDefinition {
+  // Hex color without the leading #
+  color: string;
+  description?: string;
+}
+
+// Fields set on issues of one severity when they are first filed
+export interface SeverityIssueSettings {
+  assignees?: string[];
+  // A milestone number or title
+  milestone?: number | string;
+  // Issue body with {{placeholder}} fields; see ISSUE_TEMPLATE_FIELDS
+  template?: string;
+}
+
+export interface GitHubIssueConfig {
+  // Create missing labels before filing issues
+  provisionLabels: boolean;
+  labels: {
+    always: string[];
+    severity: Record<IssueLevel, string[]>;
+    type: Record<IssueType, string[]>;
+    effort: Record<IssueLevel, string[]>;
+  };
+  labelDefinitions: Record<string, LabelDefinition>;
+  issues: Partial<Record<IssueLevel, SeverityIssueSettings>>;
+}
+
+export interface DocsCheckConfig {
+  // Globs relative to the repository root; when set, only matching files are scanned
+  include: string[];
+  exclude: string[];
+  // Extra documentation extensions, e.g. ".mdx" or ".adoc"
+  docExtensions: string[];
+  skipDirectories: string[];
+  // Glob -> severity applied to issues reported in matching files
+  severityOverrides: Record<string, IssueLevel>;
+  issueTypes: IssueType[];
+  limits: {
+    maxDocFiles: number;
+    maxCodeFiles: number;
+    maxCodeFilesInPrompt: number;
+    // Exported symbols listed in the prompt
+    maxSymbolsInPrompt: number;
+    maxProjectFileChars: number;
+    maxFileBytes: number;
+    // Estimated prompt tokens per analysis pass
+    chunkTokenBudget: number;
+    maxPasses: number;
+    concurrency: number;
+    // Times an unparseable response is sent back to Claude for repair
+    maxRepairAttempts: number;
+    // Automatic fixes applied per pull request
+    maxFixes: number;
+    // Claude Code turns per query, counting each tool call
+    maxAgentTurns: number;
+    // Wall-clock limit for each model query
+    agentTimeoutSeconds: number;
+  };
+  github: GitHubIssueConfig;
+}
+
+export interface AnalyzerOptions {
+  linkFetcher?: LinkFetcher;
+  config?: DocsCheckConfig;
+  baseline?: Baseline;
+  diff?: DiffScope;
+  cache?: AnalysisCacheStore;
+  budget?: AnalysisBudget;
+  onProgress?: ProgressListener;
+  signal?: AbortSignal;
+}
+
+// What a run is doing, in the order it happens; passes may overlap when run concurrently
+export type ProgressEvent =
+  | { type: "cloning"; url: string; directory: string }
+  | { type: "local-checkout"; path: string }
+  | { type: "diffing"; base: string; head: string }
+  | { type: "scanning"; repoPath: string; backend: string }
+  | { type: "pass-started"; pass: number; totalPasses: number }
+  | {
+      type: "pass-finished";
+      pass: number;
+      totalPasses: number;
+      issues: number;
+      cached: boolean;
+      // Set when the pass failed or was skipped
+      error?: string;
+    }
+  // Reported issues are being verified against the repository, merged and filtered
+  | { type: "parsing"; issues: number }
+  | { type: "baseline-updated"; path: string; issues: number }
+  | { type: "history-recorded"; path: string; runId: string }
+  | { type: "filing"; command: Exclude<CommandName, "analyze">; dryRun: boolean }
+  // Something was skipped without failing the run, e.g. an unreadable file
+  | { type: "warning"; message: string };
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// What the run history keeps of an issue: enough to list it and match it across runs
+export interface HistoryIssue {
+  fingerprint: string;
+  type: IssueType;
+  severity: IssueLevel;
+  title: string;
+  file?: string;
+  line?: number;
+  // Accepted in the baseline at the time of the run
+  baselined?: boolean;
+}
+
+// One analysis of a repository, as stored in the run history
+export interface HistoryRun {
+  id: string;
+  // owner/repo, or the directory name for a checkout without a remote
+  repository: string;
+  url: string;
+  commit?: string;
+  timestamp: string;
+  status: "complete" | "partial";
+  // Counts include baselined issues, so accepting an issue doesn't look like fixing it
+  summary: AnalysisResult["summary"];
+  byType: Record<IssueType, number>;
+  issues: HistoryIssue[];
+}
+
+export interface RunComparison {
+  from: HistoryRun;
+  to: HistoryRun;
+  newIssues: HistoryIssue[];
+  resolvedIssues: HistoryIssue[];
+  persistingIssues: HistoryIssue[];
+}
+
+// A repository as GitHub lists it, with the metadata `scan-org` filters on
+export interface RepositoryListing {
+  owner: string;
+  repo: string;
+  cloneUrl: string;
+  topics: string[];
+  language: string | null;
+  archived: boolean;
+  fork: boolean;
+}
+
+export interface RepositoryFilters {
+  // A repository must have every one of these topics
+  topics?: string[];
+  // Primary language as GitHub detects it, compared case-insensitively
+  language?: string;
+  includeArchived?: boolean;
+  includeForks?: boolean;
+}
+
+export interface RepositoryScanResult {
+  // owner/repo
+  repository: string;
+  url: string;
+  // "error" when the repository could not be cloned or analyzed at all
+  status: AnalysisResult["status"] | "error";
+  // Issues weighted by severity; higher means worse documentation
+  score: number;
+  // Absent when status is "error"
+  analysis?: AnalysisResult;
+  error?: string;
+}
+
+export interface OrganizationReport {
+  // Absent when the repositories came from a list file
+  owner?: string;
+  // Worst documented first; repositories without a usable analysis come last
+  repositories: RepositoryScanResult[];
+  // Listed repositories left out by the filters
+  filteredOut: number;
   summary: {
+    repositories: number;
+    failedRepositories: number;
     totalIssues: number;
     highSeverity: number;
     mediumSeverity: number;
     lowSeverity: number;
   };
+  usage: UsageTotals;
   timestamp: string;
 }
 
+// Progress of a multi-repository scan; events of each repository's own run are passed through
+// as "repository-progress"
+export type OrganizationProgressEvent =
+  | { type: "listing"; owner?: string; repositories: number; filteredOut: number }
+  | { type: "repository-started"; repository: string; index: number; total: number }
+  | { type: "repository-progress"; repository: string; event: ProgressEvent }
+  | {
+      type: "repository-finished";
+      repository: string;
+      index: number;
+      total: number;
+      status: RepositoryScanResult["status"];
+      issues: number;
+      error?: string;
+    };
+
+// Parsed output of one analysis pass, as kept in the analysis cache
+export interface CachedAnalysisPass {
+  issues: DocumentationIssue[];
+  dropped: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface AnalysisCacheStore {
+  get(key: string): Promise<CachedAnalysisPass | null>;
+  set(key: string, pass: CachedAnalysisPass): Promise<void>;
+  readonly stats: CacheStats;
+}
+
 export interface GitHubActionResult {
   type: "issue" | "pull-request";
   url: string;
   number: number;
 }
 
+export interface PlannedIssue {
+  // Stable identity embedded in the body so later runs can find the issue again
+  key: string;
+  title: string;
+  body: string;
+  labels: string[];
+  assignees: string[];
+  milestone?: number | string;
+  // Fingerprints of the findings this issue covers
+  fingerprints: string[];
+}
+
+export interface IssueSyncResult {
+  created: GitHubActionResult[];
+  updated: GitHubActionResult[];
+  unchanged: GitHubActionResult[];
+  closed: GitHubActionResult[];
+}
+
+// An open issue an earlier run filed, found again by the key in its body
+export interface FiledIssue {
+  key: string;
+  number: number;
+  url: string;
+  title: string;
+}
+
+// A planned issue that an existing one already covers
+export interface PlannedIssueUpdate extends PlannedIssue {
+  number: number;
+  url: string;
+}
+
+// What syncIssuesFromAnalysis would do, in the same shape as its result
+export interface IssueSyncPlan {
+  created: PlannedIssue[];
+  updated: PlannedIssueUpdate[];
+  unchanged: PlannedIssueUpdate[];
+  closed: FiledIssue[];
+}
+
+export interface FileEdit {
+  search: string;
+  replace: string;
+}
+
+export interface AppliedFix {
+  issue: DocumentationIssue;
+  file: string;
+  edits: FileEdit[];
+}
+
+export interface SkippedFix {
+  issue: DocumentationIssue;
+  reason: string;
+}
+
+export interface PlannedPullRequest {
+  branchName: string;
+  base: string;
+  title: string;
+  body: string;
+  diff: string;
+  appliedFixes: AppliedFix[];
+  skippedFixes: SkippedFix[];
+}
+
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+  baseSha: string;
+  headSha: string;
+}
+
+export interface PlannedReviewComment {
+  fingerprint: string;
+  path: string;
+  // Last line of the commented range on the head side; startLine is set for multi-line suggestions
+  line: number;
+  startLine?: number;
+  body: string;
+  issue: DocumentationIssue;
+}
+
+export interface PlannedReview {
+  pullNumber: number;
+  // The head commit that was analyzed, which inline comments are anchored to
+  commitId: string;
+  inlineComments: PlannedReviewComment[];
+  // Issues outside the pull request's diff, listed in the summary comment
+  summaryIssues: DocumentationIssue[];
+  summary: string;
+  // Earlier comments are only resolved after a complete run that reviewed every affected section
+  status: AnalysisResult["status"];
+  coverage: AnalysisCoverage;
+}
+
+export interface PullRequestReviewResult {
+  // Unset when every finding already had an inline comment
+  reviewUrl?: string;
+  summaryCommentUrl: string;
+  created: number;
+  updated: number;
+  unchanged: number;
+  resolved: number;
+}
+
+// Everything a command produced, in the order it happened; reporters render it for output
+export interface AnalysisReport {
+  command: CommandName;
+  analysis: AnalysisResult;
+  plannedIssueSync?: IssueSyncPlan;
+  issueSync?: IssueSyncResult;
+  // null when no automatic fix could be applied
+  plannedPullRequest?: PlannedPullRequest | null;
+  pullRequest?: GitHubActionResult | null;
+  plannedReview?: PlannedReview;
+  review?: PullRequestReviewResult;
+}
+
+export type Reporter = (report: AnalysisReport) => string;
+
 export interface AppConfig {
-  githubToken: string;
-  anthropicApiKey: string;
+  githubToken?: string;
+  // REST API root for GitHub Enterprise Server
+  githubApiUrl?: string;
+  // Not needed when replaying recorded responses
+  anthropicApiKey?: string;
   tempDirectory: string;
 }
+
+export interface BackendRequest {
+  prompt: string;
+  // The repository being analyzed; agent backends may read files in it
+  cwd: string;
+  signal?: AbortSignal;
+}
+
+// Tokens, cost and agent turns a backend reports for one query
+export interface BackendUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // Absent when the backend doesn't report a cost and the model's price is unknown
+  costUsd?: number;
+  turns: number;
+}
+
+// Assistant text as it arrives, then usage (even when the query fails) and the final response text
+export type BackendMessage =
+  | { type: "text"; text: string }
+  | { type: "usage"; usage: BackendUsage }
+  | { type: "result"; text: string };
+
+// Sends a prompt to a model and streams back what it said
+export interface AnalysisBackend {
+  readonly name: string;
+  // Model the backend asks for; part of the analysis cache key
+  readonly model: string;
+  // Whether the model can open repository files beyond the prompt, so its answers depend on the
+  // whole checkout and not just the prompt
+  readonly readsRepository?: boolean;
+  query(request: BackendRequest): AsyncIterable<BackendMessage>;
+}
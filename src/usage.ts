@@ -0,0 +1,74 @@
+import type { AnalysisBudget, BackendUsage, UsageTotals } from "./types.js";
+
+// USD per million input and output tokens, matched by model name prefix; more specific
+// prefixes come first
+const MODEL_PRICES: [prefix: string, input: number, output: number][] = [
+  ["claude-opus-4-5", 5, 25],
+  ["claude-opus-4", 15, 75],
+  ["claude-sonnet-4", 3, 15],
+  ["claude-3-7-sonnet", 3, 15],
+  ["claude-haiku-4-5", 1, 5],
+  ["claude-3-5-haiku", 0.8, 4],
+];
+
+// For backends that report tokens but not cost; undefined for models without a known price
+export function estimateCostUsd(
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number | undefined {
+  const price = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  if (!price) return undefined;
+
+  const [, input, output] = price;
+  return (inputTokens * input + outputTokens * output) / 1_000_000;
+}
+
+// Adds up what a run of queries spent; the cost stays unknown once any query's cost was
+export class UsageMeter {
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private costUsd: number | undefined = 0;
+  private turns = 0;
+  private durationMs = 0;
+
+  add(usage: BackendUsage): void {
+    this.inputTokens += usage.inputTokens;
+    this.outputTokens += usage.outputTokens;
+    this.costUsd =
+      this.costUsd === undefined || usage.costUsd === undefined
+        ? undefined
+        : this.costUsd + usage.costUsd;
+    this.turns += usage.turns;
+  }
+
+  addDuration(durationMs: number): void {
+    this.durationMs += durationMs;
+  }
+
+  get totals(): UsageTotals {
+    return {
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      ...(this.costUsd !== undefined ? { costUsd: this.costUsd } : {}),
+      turns: this.turns,
+      durationMs: this.durationMs,
+    };
+  }
+
+  // A reason to stop when a limit has been reached; an unknown cost never exceeds a cost limit
+  checkBudget(budget: AnalysisBudget): string | null {
+    const tokens = this.inputTokens + this.outputTokens;
+    if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+      return `used ${tokens} tokens of the ${budget.maxTokens} token budget`;
+    }
+    if (
+      budget.maxCostUsd !== undefined &&
+      this.costUsd !== undefined &&
+      this.costUsd >= budget.maxCostUsd
+    ) {
+      return `spent $${this.costUsd.toFixed(4)} of the $${budget.maxCostUsd} budget`;
+    }
+    return null;
+  }
+}